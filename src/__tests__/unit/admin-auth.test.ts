@@ -0,0 +1,73 @@
+import { requireAdminApiKey, adminActor, ADMIN_API_KEY_HEADER, SHARED_ADMIN_ACTOR } from '../../middleware/admin-auth';
+
+describe('requireAdminApiKey', () => {
+  const originalEnv = { ...process.env };
+  let res: any;
+  let next: jest.Mock;
+
+  function request(key?: string): any {
+    return {
+      header: jest.fn((name: string) => (name === ADMIN_API_KEY_HEADER ? key : undefined)),
+    };
+  }
+
+  beforeEach(() => {
+    delete process.env.ADMIN_API_KEY;
+    delete process.env.ADMIN_API_KEYS;
+
+    res = { locals: {} };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    next = jest.fn();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should fail closed when no admin key is configured', () => {
+    requireAdminApiKey(request('anything'), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'ADMIN_API_DISABLED' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should reject a request without a key', () => {
+    process.env.ADMIN_API_KEY = 'secret';
+
+    requireAdminApiKey(request(), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'UNAUTHORIZED' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should reject a wrong key', () => {
+    process.env.ADMIN_API_KEY = 'secret';
+
+    requireAdminApiKey(request('secreT'), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should accept the shared key as the shared admin actor', () => {
+    process.env.ADMIN_API_KEY = 'secret';
+
+    requireAdminApiKey(request('secret'), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+    expect(adminActor(res)).toBe(SHARED_ADMIN_ACTOR);
+  });
+
+  it('should record the actor a named key belongs to', () => {
+    process.env.ADMIN_API_KEYS = 'dr.smith:key-1, ops:key-2';
+
+    requireAdminApiKey(request('key-2'), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(adminActor(res)).toBe('ops');
+  });
+});
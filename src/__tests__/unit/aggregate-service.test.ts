@@ -0,0 +1,206 @@
+import { AggregateService } from '../../services/aggregate-service';
+import { redisRepository } from '../../db/redis-repository';
+import { db } from '../../db/connection';
+
+// Mock the database and Redis services
+jest.mock('../../db/connection', () => ({
+  db: {
+    select: jest.fn(),
+    selectDistinct: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../db/redis-repository', () => ({
+  redisRepository: {
+    setDailyMinMax: jest.fn(),
+    clearDailyMinMax: jest.fn(),
+  },
+}));
+
+describe('AggregateService', () => {
+  let aggregateService: AggregateService;
+  let mockDb: any;
+  let mockTx: any;
+  let mockVitalsService: any;
+
+  const expectedDays = [
+    {
+      date: '2024-01-14',
+      bpmMin: 60,
+      bpmMinRecordedAt: new Date('2024-01-14T03:00:00.000Z'),
+      bpmMax: 120,
+      bpmMaxRecordedAt: new Date('2024-01-14T18:00:00.000Z'),
+    },
+    {
+      date: '2024-01-15',
+      bpmMin: 55,
+      bpmMinRecordedAt: new Date('2024-01-15T04:00:00.000Z'),
+      bpmMax: 130,
+      bpmMaxRecordedAt: new Date('2024-01-15T19:00:00.000Z'),
+    },
+  ];
+
+  const expectedHours = [
+    { date: '2024-01-14', hour: 3, sum: 300, count: 5 },
+    { date: '2024-01-14', hour: 18, sum: 120, count: 1 },
+    { date: '2024-01-15', hour: 4, sum: 55, count: 1 },
+    { date: '2024-01-15', hour: 19, sum: 130, count: 1 },
+  ];
+
+  function hours(values: Record<number, number>): number[] {
+    const hourly = new Array(24).fill(0);
+    for (const [hour, value] of Object.entries(values)) hourly[Number(hour)] = value;
+    return hourly;
+  }
+
+  const expectedTotals = [
+    {
+      bpmSum: 420,
+      bpmCount: 6,
+      hourlyBpmSum: hours({ 3: 300, 18: 120 }),
+      hourlyBpmCount: hours({ 3: 5, 18: 1 }),
+      bpmRestingEstimate: 60,
+    },
+    {
+      bpmSum: 185,
+      bpmCount: 2,
+      hourlyBpmSum: hours({ 4: 55, 19: 130 }),
+      hourlyBpmCount: hours({ 4: 1, 19: 1 }),
+      bpmRestingEstimate: null,
+    },
+  ];
+
+  const storedAggregates = [
+    // Matches the records
+    { id: 1, patientId: 1, ...expectedDays[0], ...expectedTotals[0] },
+    // Missed the 55 bpm minimum
+    {
+      id: 2,
+      patientId: 1,
+      ...expectedDays[1],
+      ...expectedTotals[1],
+      bpmMin: 62,
+      bpmMinRecordedAt: new Date('2024-01-15T07:00:00.000Z'),
+    },
+    // No records left behind it
+    {
+      id: 3,
+      patientId: 1,
+      date: '2024-01-16',
+      bpmMin: 70,
+      bpmMinRecordedAt: new Date('2024-01-16T01:00:00.000Z'),
+      bpmMax: 90,
+      bpmMaxRecordedAt: new Date('2024-01-16T02:00:00.000Z'),
+      bpmSum: 160,
+      bpmCount: 2,
+      hourlyBpmSum: hours({ 1: 70, 2: 90 }),
+      hourlyBpmCount: hours({ 1: 1, 2: 1 }),
+      bpmRestingEstimate: null,
+    },
+  ];
+
+  beforeEach(() => {
+    mockVitalsService = {
+      getPatientTimeZones: jest.fn().mockResolvedValue(new Map([[1, 'UTC']])),
+    };
+    aggregateService = new AggregateService(mockVitalsService);
+    mockDb = db as any;
+    jest.clearAllMocks();
+
+    mockDb.select
+      .mockReturnValueOnce({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            groupBy: jest.fn().mockReturnValue({
+              orderBy: jest.fn().mockResolvedValue(expectedDays)
+            })
+          })
+        })
+      })
+      .mockReturnValueOnce({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            groupBy: jest.fn().mockResolvedValue(expectedHours)
+          })
+        })
+      })
+      .mockReturnValueOnce({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockResolvedValue(storedAggregates)
+        })
+      });
+
+    mockTx = {
+      insert: jest.fn().mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          onConflictDoUpdate: jest.fn().mockResolvedValue(undefined)
+        })
+      }),
+      delete: jest.fn().mockReturnValue({
+        where: jest.fn().mockResolvedValue(undefined)
+      }),
+    };
+    mockDb.transaction.mockImplementation((callback: any) => callback(mockTx));
+  });
+
+  describe('rebuildHeartRateAggregates', () => {
+    it('should report the diff without writing anything in a dry run', async () => {
+      const report = await aggregateService.rebuildHeartRateAggregates({
+        patientId: 1,
+        dryRun: true,
+        warmCache: true,
+      });
+
+      expect(report).toMatchObject({
+        dryRun: true,
+        patients: 1,
+        days: 3,
+        created: 0,
+        updated: 1,
+        deleted: 1,
+        unchanged: 1,
+        cacheWarmed: 0,
+        changesTruncated: false,
+      });
+      expect(report.changes).toEqual([
+        {
+          patientId: 1,
+          date: '2024-01-15',
+          action: 'update',
+          before: expect.objectContaining({ bpmMin: 62 }),
+          after: expect.objectContaining({ bpmMin: 55, bpmMinRecordedAt: '2024-01-15T04:00:00.000Z' }),
+        },
+        {
+          patientId: 1,
+          date: '2024-01-16',
+          action: 'delete',
+          before: expect.objectContaining({ bpmMin: 70 }),
+          after: null,
+        },
+      ]);
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+      expect(redisRepository.setDailyMinMax).not.toHaveBeenCalled();
+    });
+
+    it('should upsert changed days and delete stale ones when applied', async () => {
+      const progress = jest.fn().mockResolvedValue(undefined);
+
+      await aggregateService.rebuildHeartRateAggregates(
+        { patientId: 1, dryRun: false, warmCache: false },
+        progress
+      );
+
+      const upserted = mockTx.insert.mock.results[0].value.values.mock.calls[0][0];
+      expect(upserted).toEqual([expect.objectContaining({
+        patientId: 1,
+        date: '2024-01-15',
+        bpmMin: 55,
+        bpmSum: 185,
+        bpmCount: 2,
+      })]);
+      expect(mockTx.delete).toHaveBeenCalledTimes(1);
+      expect(progress).toHaveBeenCalledWith(1, 1);
+    });
+  });
+});
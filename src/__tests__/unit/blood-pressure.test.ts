@@ -0,0 +1,24 @@
+import { classifyBloodPressure } from '../../utils/blood-pressure';
+
+describe('blood pressure classification', () => {
+  it('should use ACC/AHA 2017 categories', () => {
+    expect(classifyBloodPressure(118, 76, 'acc_aha_2017')).toBe('normal');
+    expect(classifyBloodPressure(125, 78, 'acc_aha_2017')).toBe('elevated');
+    expect(classifyBloodPressure(125, 82, 'acc_aha_2017')).toBe('stage_1');
+    expect(classifyBloodPressure(138, 92, 'acc_aha_2017')).toBe('stage_2');
+    expect(classifyBloodPressure(180, 120, 'acc_aha_2017')).toBe('stage_2');
+    expect(classifyBloodPressure(150, 122, 'acc_aha_2017')).toBe('crisis');
+  });
+
+  it('should use ESC/ESH 2018 thresholds when selected', () => {
+    expect(classifyBloodPressure(128, 82, 'esc_esh_2018')).toBe('normal');
+    expect(classifyBloodPressure(135, 82, 'esc_esh_2018')).toBe('elevated');
+    expect(classifyBloodPressure(150, 82, 'esc_esh_2018')).toBe('stage_1');
+    expect(classifyBloodPressure(180, 100, 'esc_esh_2018')).toBe('crisis');
+  });
+
+  it('should classify means rounded to whole mmHg', () => {
+    expect(classifyBloodPressure(119.4, 79.4, 'acc_aha_2017')).toBe('normal');
+    expect(classifyBloodPressure(119.5, 79.4, 'acc_aha_2017')).toBe('elevated');
+  });
+});
@@ -0,0 +1,42 @@
+import { bucketLabel, bucketSlots, estimateBucketCount, type ChartRange } from '../../utils/chart-buckets';
+import { addDays, startOfLocalDay } from '../../utils/time-zone';
+
+function range(startDay: string, endDay: string, timeZone: string): ChartRange {
+  return {
+    timeZone,
+    startDay,
+    endDay,
+    startDate: startOfLocalDay(startDay, timeZone),
+    endDate: startOfLocalDay(addDays(endDay, 1), timeZone),
+  };
+}
+
+describe('chart buckets', () => {
+  it('should label instants by local hour, Monday week and month', () => {
+    const instant = new Date('2024-01-15T02:30:00.000Z');
+
+    expect(bucketLabel(instant, 'hour', 'America/New_York')).toBe('2024-01-14T21:00');
+    expect(bucketLabel(instant, 'week', 'America/New_York')).toBe('2024-01-08');
+    expect(bucketLabel(instant, 'week', 'UTC')).toBe('2024-01-15');
+    expect(bucketLabel(instant, 'month', 'UTC')).toBe('2024-01-01');
+  });
+
+  it('should follow the wall clock across a DST change', () => {
+    const slots = bucketSlots(range('2024-03-10', '2024-03-10', 'America/New_York'), 'hour');
+
+    expect(slots).toHaveLength(23);
+    expect(slots[2]).toEqual({ bucket: '2024-03-10T03:00', start: new Date('2024-03-10T07:00:00.000Z') });
+  });
+
+  it('should include the partial first week and month', () => {
+    const slots = bucketSlots(range('2024-01-31', '2024-03-05', 'UTC'), 'month');
+
+    expect(slots.map(slot => slot.bucket)).toEqual(['2024-01-01', '2024-02-01', '2024-03-01']);
+    expect(bucketSlots(range('2024-01-17', '2024-01-22', 'UTC'), 'week').map(slot => slot.bucket))
+      .toEqual(['2024-01-15', '2024-01-22']);
+  });
+
+  it('should estimate hour buckets from the number of days', () => {
+    expect(estimateBucketCount(range('2024-01-01', '2024-01-31', 'UTC'), 'hour')).toBe(744);
+  });
+});
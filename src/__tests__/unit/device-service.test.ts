@@ -0,0 +1,238 @@
+import { DeviceService, hashDeviceToken } from '../../services/device-service';
+import { scopeReadingsToDevice, authenticateDevice, deviceAuthConfig } from '../../middleware/device-auth';
+import { db } from '../../db/connection';
+import { devices, deviceTokens } from '../../db/schema';
+
+jest.mock('../../db/connection', () => ({
+  db: {
+    insert: jest.fn(),
+    select: jest.fn(),
+    update: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+describe('DeviceService', () => {
+  let deviceService: DeviceService;
+  let mockDb: any;
+
+  const mockDevice = {
+    id: 3,
+    patientId: 1,
+    serialNumber: 'SN-001',
+    model: 'Omron M7',
+    firmwareVersion: null,
+    lastSeenAt: null,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  };
+
+  function mockTokenLookup(rows: any[]) {
+    mockDb.select.mockReturnValue({
+      from: jest.fn().mockReturnValue({
+        innerJoin: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue(rows)
+          })
+        })
+      })
+    });
+  }
+
+  function mockUpdate() {
+    const set = jest.fn().mockReturnValue({ where: jest.fn().mockResolvedValue(undefined) });
+    mockDb.update.mockReturnValue({ set });
+    return set;
+  }
+
+  beforeEach(() => {
+    deviceService = new DeviceService();
+    mockDb = db as any;
+    jest.clearAllMocks();
+  });
+
+  describe('issueToken', () => {
+    it('should store only the hash of the issued token', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockResolvedValue([mockDevice])
+        })
+      });
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockResolvedValue([{ id: 9, deviceId: 3, createdAt: new Date(), revokedAt: null }])
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const issued = await deviceService.issueToken(3);
+
+      expect(mockDb.insert).toHaveBeenCalledWith(deviceTokens);
+      expect(issued.token).toMatch(/^dvt_/);
+      expect(values).toHaveBeenCalledWith({
+        deviceId: 3,
+        tokenHash: hashDeviceToken(issued.token),
+        createdAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe('updateDevice', () => {
+    it('should revoke the device\'s tokens when it is bound to another patient', async () => {
+      const mockTx = {
+        select: jest.fn().mockReturnValue({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              for: jest.fn().mockResolvedValue([{ patientId: 1 }])
+            })
+          })
+        }),
+        update: jest.fn().mockReturnValue({
+          set: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              returning: jest.fn().mockResolvedValue([{ ...mockDevice, patientId: 2 }])
+            })
+          })
+        }),
+      };
+      mockDb.transaction.mockImplementation((callback: any) => callback(mockTx));
+
+      const device = await deviceService.updateDevice(3, { patientId: 2 });
+
+      expect(device.patientId).toBe(2);
+      expect(mockTx.update).toHaveBeenCalledWith(devices);
+      expect(mockTx.update).toHaveBeenCalledWith(deviceTokens);
+      expect(mockTx.update.mock.results[1].value.set).toHaveBeenCalledWith({ revokedAt: expect.any(Date) });
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should record the last-seen time and reported firmware', async () => {
+      mockTokenLookup([{ id: 3, patientId: 1 }]);
+      const set = mockUpdate();
+
+      const device = await deviceService.authenticate('dvt_token', ' 2.4.1 ');
+
+      expect(device).toEqual({ id: 3, patientId: 1 });
+      expect(mockDb.update).toHaveBeenCalledWith(devices);
+      expect(set).toHaveBeenCalledWith({ lastSeenAt: expect.any(Date), firmwareVersion: '2.4.1' });
+    });
+
+    it('should reject unknown and revoked tokens with a 401', async () => {
+      mockTokenLookup([]);
+
+      await expect(deviceService.authenticate('dvt_unknown'))
+        .rejects.toMatchObject({ code: 'INVALID_DEVICE_TOKEN', statusCode: 401 });
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse devices that are not bound to a patient', async () => {
+      mockTokenLookup([{ id: 3, patientId: null }]);
+
+      await expect(deviceService.authenticate('dvt_token'))
+        .rejects.toMatchObject({ code: 'DEVICE_NOT_BOUND', statusCode: 403 });
+    });
+  });
+});
+
+describe('scopeReadingsToDevice', () => {
+  const device = { id: 3, patientId: 1 };
+
+  it('should fill in the device\'s patient on each reading', () => {
+    const body = { readings: [{ type: 'heart_rate', bpm: 72 }, { type: 'weight', patientId: 1, weightKg: 80 }] };
+
+    scopeReadingsToDevice(body, device);
+
+    expect(body.readings.map(reading => reading.patientId)).toEqual([1, 1]);
+  });
+
+  it('should refuse readings for another patient', () => {
+    expect(() => scopeReadingsToDevice({ patientId: 2, bpm: 72 }, device))
+      .toThrow(expect.objectContaining({ code: 'DEVICE_PATIENT_MISMATCH', statusCode: 403 }));
+  });
+
+  it('should refuse a batch with a reading for another patient', () => {
+    const body = { readings: [{ type: 'heart_rate', bpm: 72 }, { type: 'weight', patientId: 2, weightKg: 80 }] };
+
+    expect(() => scopeReadingsToDevice(body, device))
+      .toThrow(expect.objectContaining({ code: 'DEVICE_PATIENT_MISMATCH', statusCode: 403 }));
+  });
+
+  it('should leave a malformed patientId to request validation', () => {
+    const body = { readings: [{ type: 'heart_rate', patientId: '2', bpm: 72 }] };
+
+    expect(() => scopeReadingsToDevice(body, device)).not.toThrow();
+    expect(() => scopeReadingsToDevice({ patientId: -1, bpm: 72 }, device)).not.toThrow();
+    expect(body.readings[0].patientId).toBe('2');
+  });
+});
+
+describe('authenticateDevice', () => {
+  const defaultRequired = deviceAuthConfig.required;
+  let mockDeviceService: any;
+  let res: any;
+  let next: jest.Mock;
+
+  function request(body: unknown, authorization?: string): any {
+    return {
+      body,
+      header: jest.fn((name: string) => (name === 'authorization' ? authorization : undefined)),
+    };
+  }
+
+  beforeEach(() => {
+    mockDeviceService = { authenticate: jest.fn().mockResolvedValue({ id: 3, patientId: 1 }) };
+    res = { locals: {} };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    next = jest.fn();
+  });
+
+  afterEach(() => {
+    deviceAuthConfig.required = defaultRequired;
+  });
+
+  it('should not require a token by default', () => {
+    expect(defaultRequired).toBe(false);
+  });
+
+  it('should let requests without a token through when tokens are optional', async () => {
+    deviceAuthConfig.required = false;
+
+    await authenticateDevice(mockDeviceService)(request({ patientId: 2, bpm: 72 }), res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals.device).toBeUndefined();
+  });
+
+  it('should refuse requests without a token when tokens are required', async () => {
+    deviceAuthConfig.required = true;
+
+    await authenticateDevice(mockDeviceService)(request({ patientId: 1, bpm: 72 }), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'DEVICE_TOKEN_REQUIRED' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should scope the readings of an authenticated device in either mode', async () => {
+    for (const required of [false, true]) {
+      deviceAuthConfig.required = required;
+      const req = request({ bpm: 72 }, 'Bearer dvt_token');
+
+      await authenticateDevice(mockDeviceService)(req, res, next);
+
+      expect(req.body.patientId).toBe(1);
+      expect(res.locals.device).toEqual({ id: 3, patientId: 1 });
+    }
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse a batch with a reading for another patient', async () => {
+    const body = { readings: [{ type: 'heart_rate', patientId: 1, bpm: 72 }, { type: 'heart_rate', patientId: 2, bpm: 75 }] };
+
+    await authenticateDevice(mockDeviceService)(request(body, 'Bearer dvt_token'), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'DEVICE_PATIENT_MISMATCH' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+});
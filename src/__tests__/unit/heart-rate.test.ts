@@ -0,0 +1,42 @@
+import { heartRateTotals, restingHeartRateEstimate } from '../../utils/heart-rate';
+
+describe('heart rate totals', () => {
+  it('should count readings by the local hour they fall in', () => {
+    const totals = heartRateTotals([
+      // 10pm and 11pm on the 14th in New York
+      { bpm: 70, recordedAt: new Date('2024-01-15T03:00:00.000Z') },
+      { bpm: 80, recordedAt: new Date('2024-01-15T04:30:00.000Z') },
+      { bpm: 90, recordedAt: new Date('2024-01-15T04:45:00.000Z') },
+    ], 'America/New_York');
+
+    expect(totals.sum).toBe(240);
+    expect(totals.count).toBe(3);
+    expect(totals.hourlySum[22]).toBe(70);
+    expect(totals.hourlySum[23]).toBe(170);
+    expect(totals.hourlyCount[23]).toBe(2);
+  });
+});
+
+describe('resting heart rate estimate', () => {
+  function hours(values: Record<number, number>): number[] {
+    const hourly = new Array(24).fill(0);
+    for (const [hour, value] of Object.entries(values)) hourly[Number(hour)] = value;
+    return hourly;
+  }
+
+  it('should take the lowest mean among hours with enough readings', () => {
+    const sums = hours({ 3: 290, 9: 400, 14: 100 });
+    const counts = hours({ 3: 5, 9: 5, 14: 2 });
+
+    // Hour 14 averages 50 bpm but has too few readings to count
+    expect(restingHeartRateEstimate(sums, counts)).toBe(58);
+  });
+
+  it('should round to one decimal', () => {
+    expect(restingHeartRateEstimate(hours({ 2: 364 }), hours({ 2: 6 }))).toBe(60.7);
+  });
+
+  it('should be null until an hour has enough readings', () => {
+    expect(restingHeartRateEstimate(hours({ 2: 240 }), hours({ 2: 4 }))).toBeNull();
+  });
+});
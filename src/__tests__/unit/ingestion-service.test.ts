@@ -0,0 +1,168 @@
+import { IngestionService } from '../../services/ingestion-service';
+import { VitalsError } from '../../services/vitals-service';
+import { jobKinds } from '../../queue/queue-config';
+import { z } from 'zod';
+
+jest.mock('../../queue/queue-config', () => ({
+  jobKinds: {
+    heart_rate: { mode: 'async' },
+    blood_pressure: { mode: 'sync' },
+    weight: { mode: 'sync' },
+  },
+}));
+
+describe('IngestionService', () => {
+  let ingestionService: IngestionService;
+  let mockVitalsService: any;
+  let mockQueueService: any;
+
+  beforeEach(() => {
+    mockVitalsService = {
+      assertPatientExists: jest.fn().mockResolvedValue(undefined),
+      checkReadingWindow: jest.fn().mockReturnValue(null),
+      claimIngestion: jest.fn().mockResolvedValue({ dedupKey: 'key', duplicateOf: null }),
+      releaseIngestion: jest.fn().mockResolvedValue(undefined),
+      storeBloodPressureReading: jest.fn().mockResolvedValue({ id: 1 }),
+      storeWeightReading: jest.fn().mockResolvedValue({ id: 1 }),
+      storeMetricReading: jest.fn().mockResolvedValue({ id: 1 }),
+      getMetric: jest.fn().mockReturnValue({
+        type: 'peak_flow',
+        label: 'Peak flow',
+        value: z.object({ litresPerMinute: z.number() }),
+        fields: { litresPerMinute: { unit: 'L/min', min: 50, max: 900 } },
+        aggregation: 'stats',
+      }),
+    };
+    mockQueueService = {
+      addReadingJob: jest.fn().mockResolvedValue({ id: 'receipt' }),
+    };
+
+    ingestionService = new IngestionService(mockVitalsService, mockQueueService);
+  });
+
+  describe('ingestHeartRate', () => {
+    const reading = { patientId: 1, bpm: 72, timestamp: '2024-01-15T10:30:00.000Z' };
+
+    it('should return the original receipt for a duplicate without queueing', async () => {
+      mockVitalsService.claimIngestion.mockResolvedValue({ dedupKey: 'key', duplicateOf: 'receipt-1' });
+
+      const result = await ingestionService.ingestHeartRate(reading, 'idem-1');
+
+      expect(result).toEqual({ duplicate: true, queued: true, receiptId: 'receipt-1' });
+      expect(mockQueueService.addReadingJob).not.toHaveBeenCalled();
+    });
+
+    it('should release the dedup claim when queueing fails', async () => {
+      mockQueueService.addReadingJob.mockRejectedValue(new Error('Redis down'));
+
+      await expect(ingestionService.ingestHeartRate(reading)).rejects.toThrow('Redis down');
+      expect(mockVitalsService.releaseIngestion).toHaveBeenCalled();
+    });
+
+    it('should accept a flagged reading with a warning', async () => {
+      mockVitalsService.checkReadingWindow.mockReturnValue('late');
+
+      const result = await ingestionService.ingestHeartRate(reading);
+
+      expect(result.warning).toMatchObject({ code: 'READING_TOO_OLD' });
+      expect(mockQueueService.addReadingJob).toHaveBeenCalled();
+    });
+
+    it('should queue the flag with the reading, as classified at ingestion', async () => {
+      mockVitalsService.checkReadingWindow.mockReturnValue('future');
+
+      const result = await ingestionService.ingestHeartRate(reading);
+
+      expect(mockQueueService.addReadingJob).toHaveBeenCalledWith(
+        'heart_rate',
+        { ...reading, timestampFlag: 'future' },
+        result.receiptId,
+        'key'
+      );
+    });
+
+    it('should queue a reading inside the window without a flag', async () => {
+      const result = await ingestionService.ingestHeartRate(reading);
+
+      expect(mockQueueService.addReadingJob).toHaveBeenCalledWith('heart_rate', reading, result.receiptId, 'key');
+    });
+  });
+
+  describe('ingestBloodPressure', () => {
+    const reading = { patientId: 1, systolic: 120, diastolic: 80, timestamp: '2024-01-15T10:30:00.000Z' };
+
+    afterEach(() => {
+      jobKinds.blood_pressure.mode = 'sync';
+    });
+
+    it('should store the reading directly in sync mode', async () => {
+      const result = await ingestionService.ingestBloodPressure(reading);
+
+      expect(result).toEqual({ duplicate: false, queued: false });
+      expect(mockVitalsService.storeBloodPressureReading).toHaveBeenCalledWith(reading);
+      expect(mockQueueService.addReadingJob).not.toHaveBeenCalled();
+    });
+
+    it('should buffer the reading and return a receipt in async mode', async () => {
+      jobKinds.blood_pressure.mode = 'async';
+
+      const result = await ingestionService.ingestBloodPressure(reading);
+
+      expect(result).toEqual({ duplicate: false, queued: true, receiptId: expect.any(String) });
+      expect(mockQueueService.addReadingJob).toHaveBeenCalledWith('blood_pressure', reading, result.receiptId, 'key');
+      expect(mockVitalsService.storeBloodPressureReading).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ingestMetric', () => {
+    const reading = { patientId: 1, value: { litresPerMinute: 420 }, timestamp: '2024-01-15T10:30:00.000Z' };
+
+    it('should store a valid reading within the request', async () => {
+      const result = await ingestionService.ingestMetric('peak_flow', reading);
+
+      expect(result).toEqual({ duplicate: false, queued: false });
+      expect(mockVitalsService.claimIngestion).toHaveBeenCalledWith('peak_flow', reading, undefined);
+      expect(mockVitalsService.storeMetricReading).toHaveBeenCalledWith('peak_flow', reading);
+    });
+
+    it('should reject values outside the metric\'s range before claiming them', async () => {
+      const promise = ingestionService.ingestMetric('peak_flow', { ...reading, value: { litresPerMinute: 5 } });
+
+      await expect(promise).rejects.toThrow(VitalsError);
+      await expect(promise).rejects.toMatchObject({ code: 'VALIDATION_ERROR', statusCode: 400 });
+      expect(mockVitalsService.claimIngestion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ingestBatch', () => {
+    it('should report per-item acceptance and rejection in request order', async () => {
+      mockVitalsService.storeWeightReading.mockRejectedValue(
+        new VitalsError('Patient 9 not found', 'PATIENT_NOT_FOUND', 404)
+      );
+
+      const results = await ingestionService.ingestBatch([
+        { type: 'heart_rate', patientId: 1, bpm: 72, timestamp: '2024-01-15T10:30:00.000Z' },
+        { type: 'blood_pressure', patientId: 1, systolic: 20, diastolic: 80, timestamp: '2024-01-15T10:30:00.000Z' },
+        { type: 'weight', patientId: 9, weightKg: 80, timestamp: '2024-01-15T10:30:00.000Z' },
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['accepted', 'rejected', 'rejected']);
+      expect(results[1].error).toMatchObject({ code: 'VALIDATION_ERROR' });
+      expect(results[1].error?.message).toContain('systolic');
+      expect(results[2].error).toEqual({ message: 'Patient 9 not found', code: 'PATIENT_NOT_FOUND' });
+      expect(mockVitalsService.storeBloodPressureReading).not.toHaveBeenCalled();
+    });
+
+    it('should reject batches above the configured limit', async () => {
+      const readings = Array.from({ length: 1001 }, () => ({
+        type: 'weight' as const,
+        patientId: 1,
+        weightKg: 80,
+        timestamp: '2024-01-15T10:30:00.000Z',
+      }));
+
+      await expect(ingestionService.ingestBatch(readings))
+        .rejects.toMatchObject({ code: 'BATCH_TOO_LARGE', statusCode: 400 });
+    });
+  });
+});
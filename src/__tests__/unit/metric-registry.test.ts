@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import {
+  registerMetric,
+  getMetricDefinition,
+  metricReadingSchema,
+  type MetricDefinition,
+} from '../../utils/metric-registry';
+
+describe('metric registry', () => {
+  const peakFlow: MetricDefinition = {
+    type: 'peak_flow',
+    label: 'Peak flow',
+    value: z.object({ litresPerMinute: z.number() }),
+    fields: { litresPerMinute: { unit: 'L/min', min: 50, max: 900 } },
+    aggregation: 'stats',
+  };
+
+  it('should register a metric under its type', () => {
+    registerMetric(peakFlow);
+
+    expect(getMetricDefinition('peak_flow')).toBe(peakFlow);
+    expect(getMetricDefinition('unknown')).toBeUndefined();
+  });
+
+  it('should refuse types taken by registered metrics or the dedicated vitals', () => {
+    expect(() => registerMetric({ ...peakFlow, type: 'weight' })).toThrow('already registered');
+    expect(() => registerMetric({ ...peakFlow, type: 'Peak-Flow' })).toThrow('Invalid metric type');
+  });
+
+  it('should refuse fields missing from the value schema', () => {
+    expect(() => registerMetric({
+      ...peakFlow,
+      type: 'peak_flow_typo',
+      fields: { litersPerMinute: peakFlow.fields.litresPerMinute },
+    })).toThrow('not in its value schema');
+  });
+
+  it('should check readings against the value schema and field ranges', () => {
+    const schema = metricReadingSchema(peakFlow);
+    const reading = { patientId: 1, timestamp: '2024-01-15T10:30:00.000Z' };
+
+    expect(schema.safeParse({ ...reading, value: { litresPerMinute: 420 } }).success).toBe(true);
+
+    const tooHigh = schema.safeParse({ ...reading, value: { litresPerMinute: 1200 } });
+    expect(tooHigh.success).toBe(false);
+    expect(tooHigh.error?.issues[0]).toMatchObject({
+      path: ['value', 'litresPerMinute'],
+      message: 'Peak flow must be between 50 and 900 L/min',
+    });
+
+    expect(schema.safeParse({ ...reading, value: { litresPerMinute: 'high' } }).success).toBe(false);
+  });
+
+  describe('built-in metrics', () => {
+    const reading = { patientId: 1, timestamp: '2024-01-15T10:30:00.000Z' };
+
+    function parse(type: string, value: Record<string, unknown>) {
+      return metricReadingSchema(getMetricDefinition(type)!).safeParse({ ...reading, value });
+    }
+
+    it('should store body temperature in Celsius', () => {
+      expect(parse('body_temperature', { temperature: 98.6, unit: 'F' }).data?.value)
+        .toEqual({ temperature: 37, unit: 'C' });
+      expect(parse('body_temperature', { temperature: 37.2 }).data?.value)
+        .toEqual({ temperature: 37.2, unit: 'C' });
+      // 120 °F is about 49 °C
+      expect(parse('body_temperature', { temperature: 120, unit: 'F' }).success).toBe(false);
+    });
+
+    it('should store blood glucose in mg/dL with its context', () => {
+      expect(parse('blood_glucose', { glucose: 5.5, unit: 'mmol/L', context: 'fasting' }).data?.value)
+        .toEqual({ glucose: 99.1, unit: 'mg/dL', context: 'fasting' });
+      expect(parse('blood_glucose', { glucose: 140, context: 'at_lunch' }).success).toBe(false);
+    });
+
+    it('should range-check oxygen saturation and respiratory rate', () => {
+      expect(parse('spo2', { percent: 97 }).success).toBe(true);
+      expect(parse('spo2', { percent: 101 }).success).toBe(false);
+      expect(parse('respiratory_rate', { breathsPerMinute: 16 }).success).toBe(true);
+      expect(parse('respiratory_rate', { breathsPerMinute: 2 }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { PatientService, PatientError } from '../../services/patient-service';
+import { db } from '../../db/connection';
+import { redisRepository } from '../../db/redis-repository';
+import { patients } from '../../db/schema';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+// Mock the database
+jest.mock('../../db/connection', () => ({
+  db: {
+    insert: jest.fn(),
+    select: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../db/redis-repository', () => ({
+  redisRepository: {
+    forgetPatient: jest.fn(),
+  },
+}));
+
+describe('PatientService', () => {
+  let patientService: PatientService;
+  let mockDb: any;
+
+  const mockPatient = {
+    id: 1,
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    dateOfBirth: '1980-05-01',
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    patientService = new PatientService();
+    mockDb = db as any;
+
+    // Reset all mocks
+    jest.clearAllMocks();
+  });
+
+  describe('createPatient', () => {
+    it('should map email unique violations to a 409 PatientError', async () => {
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          returning: jest.fn().mockRejectedValue({ code: '23505', constraint: 'patients_email_unique' })
+        })
+      });
+
+      await expect(patientService.createPatient({ name: 'Jane Doe', email: 'jane@example.com' }))
+        .rejects.toMatchObject({ code: 'EMAIL_ALREADY_EXISTS', statusCode: 409 });
+    });
+  });
+
+  describe('getPatient', () => {
+    it('should return the patient when it exists', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockResolvedValue([mockPatient])
+        })
+      });
+
+      const result = await patientService.getPatient(1);
+
+      expect(mockDb.select).toHaveBeenCalled();
+      expect(result).toEqual(mockPatient);
+    });
+
+    it('should throw a 404 PatientError when the patient does not exist', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockResolvedValue([])
+        })
+      });
+
+      await expect(patientService.getPatient(99)).rejects.toBeInstanceOf(PatientError);
+      await expect(patientService.getPatient(99))
+        .rejects.toMatchObject({ code: 'PATIENT_NOT_FOUND', statusCode: 404 });
+    });
+  });
+
+  describe('listPatients', () => {
+    it('should return a page of patients with the total count', async () => {
+      const offset = jest.fn().mockResolvedValue([mockPatient]);
+      const limit = jest.fn().mockReturnValue({ offset });
+
+      mockDb.select
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              orderBy: jest.fn().mockReturnValue({ limit })
+            })
+          })
+        })
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockResolvedValue([{ total: 21 }])
+          })
+        });
+
+      const result = await patientService.listPatients({ page: 2, pageSize: 20, search: 'jane' });
+
+      expect(limit).toHaveBeenCalledWith(20);
+      expect(offset).toHaveBeenCalledWith(20);
+      expect(result).toEqual({
+        data: [mockPatient],
+        page: 2,
+        pageSize: 20,
+        total: 21,
+      });
+    });
+
+    it('should match LIKE wildcards in the search literally', async () => {
+      const where = jest.fn().mockReturnValue({
+        orderBy: jest.fn().mockReturnValue({
+          limit: jest.fn().mockReturnValue({ offset: jest.fn().mockResolvedValue([]) })
+        })
+      });
+      mockDb.select
+        .mockReturnValueOnce({ from: jest.fn().mockReturnValue({ where }) })
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockResolvedValue([{ total: 0 }])
+          })
+        });
+
+      await patientService.listPatients({ page: 1, pageSize: 20, search: '50%_off\\' });
+
+      const query = new PgDialect().sqlToQuery(where.mock.calls[0][0]);
+      expect(query.sql).toBe(
+        '("patients"."name" ilike $1 escape \'\\\' or "patients"."email" ilike $2 escape \'\\\')'
+      );
+      expect(query.params).toEqual(['%50\\%\\_off\\\\%', '%50\\%\\_off\\\\%']);
+    });
+  });
+
+  describe('updatePatient', () => {
+    let mockTx: any;
+
+    function mockPatientUpdate(current: any[], updated: any[]) {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue(updated)
+        })
+      });
+      mockTx = {
+        select: jest.fn().mockReturnValue({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              for: jest.fn().mockResolvedValue(current)
+            })
+          })
+        }),
+        update: jest.fn().mockReturnValue({ set }),
+      };
+      mockDb.transaction.mockImplementation((callback: any) => callback(mockTx));
+      return set;
+    }
+
+    it('should update the patient and bump updatedAt', async () => {
+      const set = mockPatientUpdate(
+        [{ timezone: 'UTC' }],
+        [{ ...mockPatient, name: 'Jane Smith', timezone: 'UTC' }]
+      );
+
+      const result = await patientService.updatePatient(1, { name: 'Jane Smith' });
+
+      expect(mockTx.update).toHaveBeenCalledWith(patients);
+      expect(set).toHaveBeenCalledWith({
+        name: 'Jane Smith',
+        updatedAt: expect.any(Date),
+      });
+      expect(result.patient.name).toBe('Jane Smith');
+      expect(result.timezoneChanged).toBe(false);
+    });
+
+    it('should report a change to another time zone', async () => {
+      mockPatientUpdate([{ timezone: 'UTC' }], [{ ...mockPatient, timezone: 'Europe/Paris' }]);
+
+      const result = await patientService.updatePatient(1, { timezone: 'Europe/Paris' });
+
+      expect(result.timezoneChanged).toBe(true);
+    });
+
+    it('should not report a time zone set to its current value', async () => {
+      mockPatientUpdate([{ timezone: 'Europe/Paris' }], [{ ...mockPatient, timezone: 'Europe/Paris' }]);
+
+      const result = await patientService.updatePatient(1, { timezone: 'Europe/Paris' });
+
+      expect(result.timezoneChanged).toBe(false);
+    });
+
+    it('should return the committed update when the cache eviction fails', async () => {
+      mockPatientUpdate([{ timezone: 'UTC' }], [{ ...mockPatient, timezone: 'Europe/Paris' }]);
+      (redisRepository.forgetPatient as jest.Mock).mockRejectedValueOnce(new Error('Connection is closed.'));
+
+      const result = await patientService.updatePatient(1, { timezone: 'Europe/Paris' });
+
+      expect(result.timezoneChanged).toBe(true);
+      expect(redisRepository.forgetPatient).toHaveBeenCalledWith(1);
+    });
+
+    it('should reject an empty update with a 400 PatientError', async () => {
+      await expect(patientService.updatePatient(1, {}))
+        .rejects.toMatchObject({ code: 'NO_FIELDS_TO_UPDATE', statusCode: 400 });
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should throw a 404 PatientError when the patient does not exist', async () => {
+      mockPatientUpdate([], []);
+
+      await expect(patientService.updatePatient(99, { name: 'Nobody' }))
+        .rejects.toMatchObject({ code: 'PATIENT_NOT_FOUND', statusCode: 404 });
+      expect(mockTx.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deletePatient', () => {
+    it('should delete the patient when the cache eviction fails', async () => {
+      mockDb.delete.mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([{ id: 1 }])
+        })
+      });
+      (redisRepository.forgetPatient as jest.Mock).mockRejectedValueOnce(new Error('Connection is closed.'));
+
+      await expect(patientService.deletePatient(1)).resolves.toBeUndefined();
+      expect(redisRepository.forgetPatient).toHaveBeenCalledWith(1);
+    });
+
+    it('should throw a 404 PatientError when the patient does not exist', async () => {
+      mockDb.delete.mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([])
+        })
+      });
+
+      await expect(patientService.deletePatient(99))
+        .rejects.toMatchObject({ code: 'PATIENT_NOT_FOUND', statusCode: 404 });
+    });
+  });
+});
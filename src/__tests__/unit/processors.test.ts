@@ -0,0 +1,219 @@
+import { processHeartRateBatch, processBloodPressureBatch } from '../../queue/processors';
+import { VitalsService } from '../../services/vitals-service';
+import { DeadLetterService } from '../../services/dead-letter-service';
+import { redisRepository } from '../../db/redis-repository';
+
+jest.mock('../../services/vitals-service', () => {
+  const service = {
+    processHeartRateBatch: jest.fn(),
+    storeBloodPressureBatch: jest.fn(),
+    storeWeightBatch: jest.fn(),
+  };
+  return { VitalsService: jest.fn(() => service) };
+});
+
+jest.mock('../../services/dead-letter-service', () => {
+  const service = { recordHeartRateFailures: jest.fn() };
+  return { DeadLetterService: jest.fn(() => service) };
+});
+
+jest.mock('../../services/aggregate-service', () => ({
+  AggregateService: jest.fn(),
+}));
+
+jest.mock('../../db/redis-repository', () => ({
+  redisRepository: {
+    getCompletedBatchGroups: jest.fn(),
+    getSettledBatchReceipts: jest.fn(),
+    markBatchGroupCompleted: jest.fn(),
+    clearCompletedBatchGroups: jest.fn(),
+    setIngestionReceipts: jest.fn(),
+    releaseIngestionKey: jest.fn(),
+  },
+}));
+
+describe('batch processors', () => {
+  // The processors module builds its services once, on import
+  const mockVitalsService = (VitalsService as unknown as jest.Mock).mock.results[0].value;
+  const mockDeadLetterService = (DeadLetterService as unknown as jest.Mock).mock.results[0].value;
+  let mockRedis: any;
+
+  const heartRateReadings = [
+    { patientId: 1, bpm: 72, timestamp: '2024-01-15T10:30:00.000Z', receiptId: 'receipt-1' },
+    { patientId: 1, bpm: 400, timestamp: '2024-01-15T10:31:00.000Z', receiptId: 'receipt-2', dedupKey: 'heart_rate:1:key:r2' },
+  ];
+
+  function mockJob<T>(data: T[], attemptsMade = 0): any {
+    return { id: 'hr_batch_1', data, attemptsMade, opts: { attempts: 3 } };
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRedis = redisRepository as any;
+    mockRedis.getCompletedBatchGroups.mockResolvedValue(new Set());
+    mockRedis.getSettledBatchReceipts.mockResolvedValue(new Set());
+  });
+
+  describe('processHeartRateBatch', () => {
+    it('should mark stored readings processed and rejected ones failed with their error', async () => {
+      mockVitalsService.processHeartRateBatch.mockResolvedValue({
+        processed: [heartRateReadings[0]],
+        failed: [{ reading: heartRateReadings[1], error: 'BPM out of range', code: 'VALIDATION_ERROR' }],
+      });
+
+      await processHeartRateBatch(mockJob(heartRateReadings));
+
+      expect(mockDeadLetterService.recordHeartRateFailures).toHaveBeenCalledWith(
+        [expect.objectContaining({ reading: heartRateReadings[1] })],
+        'hr_batch_1'
+      );
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-2'],
+        'failed',
+        { jobId: 'hr_batch_1', error: 'BPM out of range' }
+      );
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-1'],
+        'processed',
+        { jobId: 'hr_batch_1' }
+      );
+      expect(mockRedis.clearCompletedBatchGroups).toHaveBeenCalledWith('hr_batch_1');
+    });
+
+    it('should release the dedup claim of a dead-lettered reading only', async () => {
+      mockVitalsService.processHeartRateBatch.mockResolvedValue({
+        processed: [{ ...heartRateReadings[0], dedupKey: 'heart_rate:1:key:r1' }],
+        failed: [{ reading: heartRateReadings[1], error: 'BPM out of range', code: 'VALIDATION_ERROR' }],
+      });
+
+      await processHeartRateBatch(mockJob(heartRateReadings));
+
+      expect(mockRedis.releaseIngestionKey).toHaveBeenCalledTimes(1);
+      expect(mockRedis.releaseIngestionKey).toHaveBeenCalledWith('heart_rate:1:key:r2');
+    });
+
+    it('should keep the dedup claims of a failed job, which an administrator can retry', async () => {
+      mockVitalsService.processHeartRateBatch.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(processHeartRateBatch(mockJob(heartRateReadings, 2))).rejects.toThrow('Database unavailable');
+
+      expect(mockRedis.releaseIngestionKey).not.toHaveBeenCalled();
+    });
+
+    describe('when a group is committed', () => {
+      const groupOutcome = {
+        processed: [heartRateReadings[0]],
+        failed: [{ reading: heartRateReadings[1], error: 'BPM out of range', code: 'VALIDATION_ERROR' }],
+      };
+
+      beforeEach(() => {
+        // Completed groups persist across attempts, like the Redis sets do
+        const completed = new Set<string>();
+        const settled = new Set<string>();
+        mockRedis.getCompletedBatchGroups.mockImplementation(async () => new Set(completed));
+        mockRedis.getSettledBatchReceipts.mockImplementation(async () => new Set(settled));
+        mockRedis.markBatchGroupCompleted.mockImplementation(async (_jobId: string, groupKey: string, receiptIds: string[]) => {
+          completed.add(groupKey);
+          receiptIds.forEach(receiptId => settled.add(receiptId));
+        });
+        mockVitalsService.processHeartRateBatch.mockImplementation(async (_readings: any, options: any) => {
+          if (options.completedGroups.has('1_2024-01-15')) return { processed: [], failed: [] };
+          await options.onGroupCommitted('1_2024-01-15', groupOutcome);
+          return groupOutcome;
+        });
+      });
+
+      it('should dead-letter its failures and settle its receipts only once', async () => {
+        await processHeartRateBatch(mockJob(heartRateReadings));
+
+        expect(mockDeadLetterService.recordHeartRateFailures).toHaveBeenCalledWith(groupOutcome.failed, 'hr_batch_1');
+        expect(mockDeadLetterService.recordHeartRateFailures).toHaveBeenCalledWith([], 'hr_batch_1');
+        expect(mockRedis.markBatchGroupCompleted).toHaveBeenCalledWith('hr_batch_1', '1_2024-01-15', ['receipt-1', 'receipt-2']);
+        expect(mockRedis.releaseIngestionKey).toHaveBeenCalledTimes(1);
+        expect(mockRedis.setIngestionReceipts).not.toHaveBeenCalledWith(['receipt-1', 'receipt-2'], 'processed', expect.anything());
+      });
+
+      it('should not mark the group completed until its failures are saved, so a retry saves them', async () => {
+        mockDeadLetterService.recordHeartRateFailures.mockRejectedValueOnce(new Error('Database unavailable'));
+
+        await expect(processHeartRateBatch(mockJob(heartRateReadings, 0))).rejects.toThrow('Database unavailable');
+        expect(mockRedis.markBatchGroupCompleted).not.toHaveBeenCalled();
+
+        await processHeartRateBatch(mockJob(heartRateReadings, 1));
+
+        expect(mockDeadLetterService.recordHeartRateFailures).toHaveBeenCalledTimes(3);
+        expect(mockDeadLetterService.recordHeartRateFailures).toHaveBeenLastCalledWith([], 'hr_batch_1');
+        expect(mockDeadLetterService.recordHeartRateFailures.mock.calls[1]).toEqual([groupOutcome.failed, 'hr_batch_1']);
+        expect(mockRedis.setIngestionReceipts).toHaveBeenLastCalledWith([], 'processed', { jobId: 'hr_batch_1' });
+        expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+          ['receipt-2'],
+          'failed',
+          { jobId: 'hr_batch_1', error: 'BPM out of range' }
+        );
+        expect(mockRedis.setIngestionReceipts).not.toHaveBeenCalledWith(['receipt-2'], 'processed', expect.anything());
+      });
+
+      it('should keep the settled receipts of the group when a later step fails', async () => {
+        mockRedis.clearCompletedBatchGroups.mockRejectedValueOnce(new Error('Connection is closed.'));
+
+        await expect(processHeartRateBatch(mockJob(heartRateReadings, 0))).rejects.toThrow('Connection is closed.');
+        expect(mockRedis.setIngestionReceipts).toHaveBeenLastCalledWith(
+          [],
+          'queued',
+          { jobId: 'hr_batch_1', error: 'Connection is closed.' }
+        );
+
+        jest.clearAllMocks();
+        await processHeartRateBatch(mockJob(heartRateReadings, 1));
+
+        // The retry skips the group instead of reporting its rejected reading processed
+        expect(mockDeadLetterService.recordHeartRateFailures).toHaveBeenCalledTimes(1);
+        expect(mockDeadLetterService.recordHeartRateFailures).toHaveBeenCalledWith([], 'hr_batch_1');
+        expect(mockRedis.setIngestionReceipts).toHaveBeenCalledTimes(1);
+        expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith([], 'processed', { jobId: 'hr_batch_1' });
+      });
+    });
+
+    it('should keep the receipts queued while the job has attempts left', async () => {
+      mockVitalsService.processHeartRateBatch.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(processHeartRateBatch(mockJob(heartRateReadings, 1))).rejects.toThrow('Database unavailable');
+
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledTimes(1);
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-1', 'receipt-2'],
+        'queued',
+        { jobId: 'hr_batch_1', error: 'Database unavailable' }
+      );
+    });
+
+    it('should fail the receipts on the final attempt', async () => {
+      mockVitalsService.processHeartRateBatch.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(processHeartRateBatch(mockJob(heartRateReadings, 2))).rejects.toThrow('Database unavailable');
+
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-1', 'receipt-2'],
+        'failed',
+        { jobId: 'hr_batch_1', error: 'Database unavailable' }
+      );
+    });
+  });
+
+  describe('processBloodPressureBatch', () => {
+    it('should mark the stored readings processed', async () => {
+      const readings = [
+        { patientId: 1, systolic: 120, diastolic: 80, timestamp: '2024-01-15T10:30:00.000Z', receiptId: 'receipt-3' },
+      ];
+      mockVitalsService.storeBloodPressureBatch.mockResolvedValue({ processed: readings, failed: [] });
+
+      await processBloodPressureBatch(mockJob(readings));
+
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-3'],
+        'processed',
+        { jobId: 'hr_batch_1' }
+      );
+    });
+  });
+});
@@ -0,0 +1,404 @@
+import { QueueService } from '../../queue/queue-service';
+import { queues } from '../../queue/queue-config';
+import { redisRepository } from '../../db/redis-repository';
+
+jest.mock('../../queue/queue-config', () => {
+  const kinds = {
+    heart_rate: { label: 'Heart rate', responseKey: 'heartRate', jobName: 'heart-rate-batch', jobIdPrefix: 'hr_batch', bufferName: 'hr_buffer', mode: 'async', batchSize: 200 },
+    blood_pressure: { label: 'Blood pressure', responseKey: 'bloodPressure', jobName: 'blood-pressure-batch', jobIdPrefix: 'bp_batch', bufferName: 'bp_buffer', mode: 'sync', batchSize: 100 },
+    weight: { label: 'Weight', responseKey: 'weight', jobName: 'weight-batch', jobIdPrefix: 'weight_batch', bufferName: 'weight_buffer', mode: 'sync', batchSize: 100 },
+  };
+  const kindNames = Object.keys(kinds) as (keyof typeof kinds)[];
+  const queue = () => ({ add: jest.fn(), getJob: jest.fn(), getFailed: jest.fn(), getJobCounts: jest.fn() });
+
+  return {
+    jobKinds: kinds,
+    VITALS_JOB_KINDS: kindNames,
+    queues: { heart_rate: queue(), blood_pressure: queue(), weight: queue() },
+    aggregateRebuildQueue: queue(),
+    mapJobKinds: async (fn: (kind: string) => Promise<unknown>) => Object.fromEntries(
+      await Promise.all(kindNames.map(async kind => [kinds[kind].responseKey, await fn(kind)]))
+    ),
+    jobKindOf: (jobId: string) => kindNames.find(kind => jobId.startsWith(`${kinds[kind].jobIdPrefix}_`)),
+  };
+});
+
+jest.mock('../../services/dead-letter-service', () => ({
+  DeadLetterService: jest.fn(),
+}));
+
+// An in-memory stand-in for the Redis lists and heartbeats behind the
+// durable buffers, so drains and orphan claims run against shared state
+jest.mock('../../db/redis-repository', () => {
+  const lists = new Map<string, string[]>();
+  const heartbeats = new Set<string>();
+  const claims = new Map<string, string>();
+
+  return {
+    redisRepository: {
+      lists,
+      heartbeats,
+      claims,
+      bufferKey: (bufferName: string, ownerId: string) => `${bufferName}:${ownerId}`,
+      bufferReading: jest.fn(async (bufferName: string, ownerId: string, _receiptId: string, reading: object) => {
+        const key = `${bufferName}:${ownerId}`;
+        const list = [...(lists.get(key) ?? []), JSON.stringify(reading)];
+        lists.set(key, list);
+        return list.length;
+      }),
+      peekBuffer: jest.fn(async (bufferKey: string, count: number) =>
+        (lists.get(bufferKey) ?? []).slice(0, count).map(item => JSON.parse(item))
+      ),
+      trimBuffer: jest.fn(async (bufferKey: string, count: number) => {
+        const rest = (lists.get(bufferKey) ?? []).slice(count);
+        if (rest.length > 0) lists.set(bufferKey, rest);
+        else lists.delete(bufferKey);
+      }),
+      getBufferLength: jest.fn(async (bufferKey: string) => lists.get(bufferKey)?.length ?? 0),
+      refreshBufferHeartbeat: jest.fn(async (ownerId: string) => {
+        heartbeats.add(ownerId);
+      }),
+      clearBufferHeartbeat: jest.fn(async (ownerId: string) => {
+        heartbeats.delete(ownerId);
+      }),
+      findOrphanedBuffers: jest.fn(async (bufferName: string) =>
+        [...lists.keys()].filter(key =>
+          key.startsWith(`${bufferName}:`) &&
+          !heartbeats.has(key.slice(bufferName.length + 1).split(':')[0])
+        )
+      ),
+      claimBuffer: jest.fn(async (bufferName: string, orphanKey: string, ownerId: string) => {
+        const list = lists.get(orphanKey);
+        if (!list) return null;
+
+        const claimedKey = `${bufferName}:${ownerId}:recovered_${orphanKey.slice(bufferName.length + 1)}`;
+        lists.delete(orphanKey);
+        lists.set(claimedKey, list);
+        return claimedKey;
+      }),
+      setIngestionReceipts: jest.fn(async () => undefined),
+      claimIngestionKey: jest.fn(async (dedupKey: string, reference: string) => {
+        const existing = claims.get(dedupKey);
+        if (existing) return existing;
+        claims.set(dedupKey, reference);
+        return null;
+      }),
+      releaseIngestionKey: jest.fn(async (dedupKey: string) => {
+        claims.delete(dedupKey);
+      }),
+    },
+  };
+});
+
+describe('QueueService', () => {
+  let mockRedis: any;
+  let mockQueues: any;
+  let jobCounter: number;
+
+  const reading = (bpm: number) => ({
+    patientId: 1,
+    bpm,
+    timestamp: '2024-01-15T10:30:00.000Z',
+  });
+
+  function instanceIdOf(service: QueueService): string {
+    return (service as any).instanceId;
+  }
+
+  // A crashed instance stops without draining, and its heartbeat lapses
+  function crash(service: QueueService) {
+    clearInterval((service as any).flushInterval);
+    clearInterval((service as any).heartbeatInterval);
+    for (const state of Object.values((service as any).buffers) as any[]) {
+      if (state.batchTimeout) clearTimeout(state.batchTimeout);
+    }
+    mockRedis.heartbeats.delete(instanceIdOf(service));
+  }
+
+  function queuedBpms(): number[] {
+    return mockQueues.heart_rate.add.mock.calls.flatMap(([, readings]: any[]) =>
+      readings.map((queued: any) => queued.bpm)
+    );
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+
+    mockRedis = redisRepository as any;
+    mockRedis.lists.clear();
+    mockRedis.heartbeats.clear();
+    mockRedis.claims.clear();
+
+    mockQueues = queues as any;
+    jobCounter = 0;
+    for (const queue of Object.values(mockQueues) as any[]) {
+      queue.add.mockImplementation(async () => ({ id: `job_${++jobCounter}` }));
+    }
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  describe('flushing the buffer', () => {
+    it('should trim a batch from the buffer only after its job is queued', async () => {
+      const service = new QueueService();
+      await service.addReadingJob('heart_rate', reading(70), 'receipt-1');
+      await service.addReadingJob('heart_rate', reading(71), 'receipt-2');
+
+      await service.forceFlushBatch('heart_rate');
+
+      const peekOrder = mockRedis.peekBuffer.mock.invocationCallOrder[0];
+      const addOrder = mockQueues.heart_rate.add.mock.invocationCallOrder[0];
+      const trimOrder = mockRedis.trimBuffer.mock.invocationCallOrder[0];
+      expect(peekOrder).toBeLessThan(addOrder);
+      expect(addOrder).toBeLessThan(trimOrder);
+
+      expect(queuedBpms()).toEqual([70, 71]);
+      expect(await service.getBatchStatus('heart_rate')).toMatchObject({ currentBatchSize: 0 });
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-1', 'receipt-2'],
+        'queued',
+        { jobId: 'job_1' }
+      );
+    });
+
+    it('should queue a full buffer in batches of the configured size', async () => {
+      const service = new QueueService();
+      for (const bpm of [70, 71, 72]) {
+        await service.addReadingJob('heart_rate', reading(bpm));
+      }
+
+      await service.updateBatchSize(2, 'heart_rate');
+      await service.forceFlushBatch('heart_rate');
+
+      expect(mockQueues.heart_rate.add.mock.calls.map(([, readings]: any[]) => readings.length)).toEqual([2, 1]);
+      expect(queuedBpms()).toEqual([70, 71, 72]);
+    });
+
+    it('should keep the readings buffered when the job cannot be queued', async () => {
+      const service = new QueueService();
+      await service.addReadingJob('heart_rate', reading(70), 'receipt-1');
+      mockQueues.heart_rate.add.mockRejectedValueOnce(new Error('Redis down'));
+
+      await service.forceFlushBatch('heart_rate');
+
+      expect(mockRedis.trimBuffer).not.toHaveBeenCalled();
+      expect(mockRedis.setIngestionReceipts).not.toHaveBeenCalled();
+      expect(await service.getBatchStatus('heart_rate')).toMatchObject({ currentBatchSize: 1 });
+
+      await service.forceFlushBatch('heart_rate');
+
+      expect(mockQueues.heart_rate.add).toHaveBeenCalledTimes(2);
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(['receipt-1'], 'queued', { jobId: 'job_1' });
+      expect(await service.getBatchStatus('heart_rate')).toMatchObject({ currentBatchSize: 0 });
+    });
+  });
+
+  describe('recoverOrphanedBuffers', () => {
+    it('should claim and drain the buffer of an instance whose heartbeat expired', async () => {
+      const crashed = new QueueService();
+      await crashed.addReadingJob('heart_rate', reading(70), 'receipt-1');
+      await crashed.addReadingJob('heart_rate', reading(71), 'receipt-2');
+      crash(crashed);
+
+      const survivor = new QueueService();
+      await survivor.recoverOrphanedBuffers();
+
+      const orphanKey = `hr_buffer:${instanceIdOf(crashed)}`;
+      expect(mockRedis.claimBuffer).toHaveBeenCalledWith('hr_buffer', orphanKey, instanceIdOf(survivor));
+      expect(queuedBpms()).toEqual([70, 71]);
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-1', 'receipt-2'],
+        'queued',
+        { jobId: 'job_1' }
+      );
+      expect([...mockRedis.lists.keys()]).toEqual([]);
+    });
+
+    it('should leave the buffers of live instances alone', async () => {
+      const live = new QueueService();
+      await live.addReadingJob('heart_rate', reading(70));
+
+      await new QueueService().recoverOrphanedBuffers();
+
+      expect(mockRedis.claimBuffer).not.toHaveBeenCalled();
+      expect(mockQueues.heart_rate.add).not.toHaveBeenCalled();
+    });
+
+    it('should queue an orphaned buffer once when two instances recover it at the same time', async () => {
+      const crashed = new QueueService();
+      await crashed.addReadingJob('heart_rate', reading(70));
+      await crashed.addReadingJob('heart_rate', reading(71));
+      crash(crashed);
+
+      const first = new QueueService();
+      const second = new QueueService();
+      await Promise.all([first.recoverOrphanedBuffers(), second.recoverOrphanedBuffers()]);
+
+      const orphanKey = `hr_buffer:${instanceIdOf(crashed)}`;
+      const claims = mockRedis.claimBuffer.mock.calls.filter(([, key]: any[]) => key === orphanKey);
+      expect(claims).toHaveLength(2);
+      expect(await Promise.all(mockRedis.claimBuffer.mock.results.map((result: any) => result.value)))
+        .toContain(null);
+      expect(mockQueues.heart_rate.add).toHaveBeenCalledTimes(1);
+      expect(queuedBpms()).toEqual([70, 71]);
+    });
+  });
+
+  describe('shutdown', () => {
+    it('should drain every buffer, stop the timers and clear the heartbeat', async () => {
+      const service = new QueueService();
+      await service.addReadingJob('heart_rate', reading(70));
+      await service.addReadingJob('weight', { patientId: 1, weightKg: 80, timestamp: '2024-01-15T10:30:00.000Z' });
+
+      await service.shutdown();
+
+      expect(queuedBpms()).toEqual([70]);
+      expect(mockQueues.weight.add).toHaveBeenCalledTimes(1);
+      expect([...mockRedis.lists.keys()]).toEqual([]);
+      expect(mockRedis.clearBufferHeartbeat).toHaveBeenCalledWith(instanceIdOf(service));
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should wait for a flush already in progress before draining', async () => {
+      const service = new QueueService();
+      await service.addReadingJob('heart_rate', reading(70));
+
+      let releaseAdd!: () => void;
+      mockQueues.heart_rate.add.mockImplementationOnce(() =>
+        new Promise(resolve => { releaseAdd = () => resolve({ id: 'job_slow' }); })
+      );
+      const inFlight = service.forceFlushBatch('heart_rate');
+      await service.addReadingJob('heart_rate', reading(71));
+
+      const shutdown = service.shutdown();
+      await Promise.resolve();
+      releaseAdd();
+      await Promise.all([inFlight, shutdown]);
+
+      expect(queuedBpms()).toEqual([70, 71]);
+      expect([...mockRedis.lists.keys()]).toEqual([]);
+    });
+  });
+
+  describe('getBatchStatus', () => {
+    it('should estimate the flush from when the batch timeout was set', async () => {
+      const service = new QueueService();
+      expect(await service.getBatchStatus('heart_rate')).toMatchObject({ estimatedTimeToFlush: 'immediate' });
+
+      await service.addReadingJob('heart_rate', reading(70));
+      jest.advanceTimersByTime(500);
+
+      expect(await service.getBatchStatus('heart_rate')).toMatchObject({
+        isTimeoutActive: true,
+        estimatedTimeToFlush: '1500ms',
+      });
+    });
+  });
+
+  describe('failed jobs', () => {
+    let service: QueueService;
+
+    function mockJob(overrides: Record<string, unknown> = {}) {
+      return {
+        id: 'hr_batch_1',
+        data: [{ ...reading(70), receiptId: 'receipt-1' }],
+        attemptsMade: 3,
+        opts: { attempts: 3 },
+        failedReason: 'Database unavailable',
+        timestamp: Date.parse('2024-01-15T10:30:00.000Z'),
+        getState: jest.fn().mockResolvedValue('failed'),
+        isFailed: jest.fn().mockResolvedValue(true),
+        isActive: jest.fn().mockResolvedValue(false),
+        retry: jest.fn().mockResolvedValue(undefined),
+        remove: jest.fn().mockResolvedValue(undefined),
+        ...overrides,
+      };
+    }
+
+    beforeEach(() => {
+      service = new QueueService();
+      for (const queue of Object.values(mockQueues) as any[]) {
+        queue.getJob.mockResolvedValue(null);
+      }
+    });
+
+    it('should look a job up in the queue its id prefix names', async () => {
+      mockQueues.heart_rate.getJob.mockResolvedValue(mockJob());
+
+      const summary = await service.getJob('hr_batch_1');
+
+      expect(summary).toMatchObject({ id: 'hr_batch_1', kind: 'heart_rate', state: 'failed', readingsCount: 1 });
+      expect(mockQueues.blood_pressure.getJob).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['getJob', (service: QueueService) => service.getJob('hr_batch_missing')],
+      ['retryFailedJob', (service: QueueService) => service.retryFailedJob('hr_batch_missing')],
+      ['discardJob', (service: QueueService) => service.discardJob('unprefixed')],
+    ])('%s should answer 404 for an unknown job', async (_name, call) => {
+      await expect(call(service)).rejects.toMatchObject({ code: 'JOB_NOT_FOUND', statusCode: 404 });
+    });
+
+    it('should retry a failed job and mark its readings queued again', async () => {
+      const job = mockJob();
+      mockQueues.heart_rate.getJob.mockResolvedValue(job);
+
+      await service.retryFailedJob('hr_batch_1');
+
+      expect(job.retry).toHaveBeenCalled();
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(['receipt-1'], 'queued', { jobId: 'hr_batch_1' });
+    });
+
+    it('should refuse to retry a job that has not failed', async () => {
+      const job = mockJob({ isFailed: jest.fn().mockResolvedValue(false) });
+      mockQueues.heart_rate.getJob.mockResolvedValue(job);
+
+      await expect(service.retryFailedJob('hr_batch_1'))
+        .rejects.toMatchObject({ code: 'JOB_NOT_FAILED', statusCode: 409 });
+      expect(job.retry).not.toHaveBeenCalled();
+      expect(mockRedis.setIngestionReceipts).not.toHaveBeenCalled();
+    });
+
+    it('should discard a job and fail its readings', async () => {
+      const job = mockJob();
+      mockQueues.heart_rate.getJob.mockResolvedValue(job);
+
+      await service.discardJob('hr_batch_1');
+
+      expect(job.remove).toHaveBeenCalled();
+      expect(mockRedis.setIngestionReceipts).toHaveBeenCalledWith(
+        ['receipt-1'],
+        'failed',
+        { jobId: 'hr_batch_1', error: 'Batch discarded by an administrator' }
+      );
+    });
+
+    it('should accept a resend of a discarded reading instead of calling it a duplicate', async () => {
+      const dedupKey = 'heart_rate:1:key:idem-1';
+      await redisRepository.claimIngestionKey(dedupKey, 'receipt-1');
+      mockQueues.heart_rate.getJob.mockResolvedValue(mockJob({
+        data: [{ ...reading(70), receiptId: 'receipt-1', dedupKey }],
+      }));
+
+      await service.discardJob('hr_batch_1');
+
+      expect(mockRedis.releaseIngestionKey).toHaveBeenCalledWith(dedupKey);
+      expect(mockRedis.releaseIngestionKey.mock.invocationCallOrder[0])
+        .toBeLessThan(mockRedis.setIngestionReceipts.mock.invocationCallOrder[0]);
+      await expect(redisRepository.claimIngestionKey(dedupKey, 'receipt-2')).resolves.toBeNull();
+    });
+
+    it('should refuse to discard a job that is being processed', async () => {
+      const job = mockJob({ isActive: jest.fn().mockResolvedValue(true) });
+      mockQueues.heart_rate.getJob.mockResolvedValue(job);
+
+      await expect(service.discardJob('hr_batch_1'))
+        .rejects.toMatchObject({ code: 'JOB_ACTIVE', statusCode: 409 });
+      expect(job.remove).not.toHaveBeenCalled();
+    });
+  });
+});
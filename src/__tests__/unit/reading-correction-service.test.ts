@@ -0,0 +1,157 @@
+import { ReadingCorrectionService } from '../../services/reading-correction-service';
+import { VitalsError } from '../../services/vitals-service';
+import { db } from '../../db/connection';
+
+// Mock the database
+jest.mock('../../db/connection', () => ({
+  db: {
+    select: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../db/redis-repository', () => ({
+  redisRepository: {},
+}));
+
+describe('ReadingCorrectionService', () => {
+  let readingCorrectionService: ReadingCorrectionService;
+  let mockAggregateService: any;
+  let mockDb: any;
+  let mockTx: any;
+
+  const change = { changedBy: 'dr.smith', reason: 'Entered in pounds' };
+
+  const heartRateReading = {
+    id: 7,
+    patientId: 1,
+    bpm: 190,
+    recordedAt: new Date('2024-01-15T10:30:00.000Z'),
+    voidedAt: null,
+  };
+
+  function mockLockedReading(reading: any) {
+    mockTx.select.mockReturnValue({
+      from: jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          for: jest.fn().mockResolvedValue(reading ? [reading] : [])
+        })
+      })
+    });
+  }
+
+  beforeEach(() => {
+    mockDb = db as any;
+    jest.clearAllMocks();
+
+    mockAggregateService = {
+      rebuildHeartRateDay: jest.fn().mockResolvedValue({}),
+    };
+    readingCorrectionService = new ReadingCorrectionService(mockAggregateService);
+
+    mockTx = {
+      select: jest.fn(),
+      update: jest.fn().mockReturnValue({
+        set: jest.fn().mockReturnValue({
+          where: jest.fn().mockResolvedValue(undefined)
+        })
+      }),
+      insert: jest.fn().mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([{ id: 1 }])
+        })
+      }),
+    };
+    mockDb.transaction.mockImplementation((callback: any) => callback(mockTx));
+  });
+
+  describe('voidReading', () => {
+    it('should void the reading, audit it and recompute its day', async () => {
+      mockLockedReading(heartRateReading);
+
+      await readingCorrectionService.voidReading('heart_rate', 7, change);
+
+      const update = mockTx.update.mock.results[0].value.set;
+      expect(update).toHaveBeenCalledWith({ voidedAt: expect.any(Date) });
+
+      const audit = mockTx.insert.mock.results[0].value.values.mock.calls[0][0];
+      expect(audit).toMatchObject({
+        type: 'heart_rate',
+        recordId: 7,
+        patientId: 1,
+        action: 'void',
+        previousValue: { bpm: 190 },
+        newValue: null,
+        changedBy: 'dr.smith',
+        reason: 'Entered in pounds',
+      });
+
+      expect(mockAggregateService.rebuildHeartRateDay).toHaveBeenCalledWith(
+        1,
+        new Date('2024-01-15T10:30:00.000Z')
+      );
+    });
+
+    it('should return the audit row when the day rebuild fails after the commit', async () => {
+      mockLockedReading(heartRateReading);
+      mockAggregateService.rebuildHeartRateDay.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await expect(readingCorrectionService.voidReading('heart_rate', 7, change)).resolves.toEqual({ id: 1 });
+    });
+
+    it('should refuse a reading that is already voided', async () => {
+      mockLockedReading({ ...heartRateReading, voidedAt: new Date() });
+
+      const promise = readingCorrectionService.voidReading('heart_rate', 7, change);
+
+      await expect(promise).rejects.toThrow(VitalsError);
+      await expect(promise).rejects.toMatchObject({ code: 'READING_VOIDED', statusCode: 409 });
+      expect(mockTx.update).not.toHaveBeenCalled();
+      expect(mockAggregateService.rebuildHeartRateDay).not.toHaveBeenCalled();
+    });
+
+    it('should throw READING_NOT_FOUND for an unknown record', async () => {
+      mockLockedReading(null);
+
+      await expect(readingCorrectionService.voidReading('weight', 99, change))
+        .rejects.toMatchObject({ code: 'READING_NOT_FOUND', statusCode: 404 });
+    });
+  });
+
+  describe('amendReading', () => {
+    it('should keep the original value in the audit trail', async () => {
+      mockLockedReading({
+        id: 3,
+        patientId: 1,
+        weightKg: 176,
+        recordedAt: new Date('2024-01-15T10:30:00.000Z'),
+        voidedAt: null,
+      });
+
+      await readingCorrectionService.amendReading('weight', 3, { weightKg: 80 }, change);
+
+      expect(mockTx.update.mock.results[0].value.set).toHaveBeenCalledWith({ weightKg: 80 });
+      const audit = mockTx.insert.mock.results[0].value.values.mock.calls[0][0];
+      expect(audit).toMatchObject({
+        action: 'amend',
+        previousValue: { weightKg: 176 },
+        newValue: { weightKg: 80 },
+      });
+      // Only heart rate has aggregates to recompute
+      expect(mockAggregateService.rebuildHeartRateDay).not.toHaveBeenCalled();
+    });
+
+    it('should report DUPLICATE_READING when the amended value collides with another reading', async () => {
+      mockLockedReading(heartRateReading);
+      mockTx.update.mockReturnValue({
+        set: jest.fn().mockReturnValue({
+          where: jest.fn().mockRejectedValue({ code: '23505' })
+        })
+      });
+
+      await expect(readingCorrectionService.amendReading('heart_rate', 7, { bpm: 72 }, change))
+        .rejects.toMatchObject({ code: 'DUPLICATE_READING', statusCode: 409 });
+      expect(mockTx.insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { redisRepository } from '../../db/redis-repository';
+
+jest.mock('ioredis', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    on: jest.fn(),
+    multi: jest.fn(),
+    scan: jest.fn(),
+    exists: jest.fn(),
+    rename: jest.fn(),
+    hgetall: jest.fn(),
+    pipeline: jest.fn(),
+  })),
+}));
+
+describe('RedisRepository', () => {
+  let mockRedis: any;
+
+  beforeEach(() => {
+    mockRedis = (redisRepository as any).redis;
+    jest.clearAllMocks();
+  });
+
+  describe('ingestion receipts', () => {
+    function mockPipeline() {
+      const pipeline: any = {};
+      for (const command of ['hset', 'hdel', 'expire']) {
+        pipeline[command] = jest.fn().mockReturnValue(pipeline);
+      }
+      pipeline.exec = jest.fn().mockResolvedValue([]);
+      mockRedis.pipeline.mockReturnValue(pipeline);
+      return pipeline;
+    }
+
+    it('should look a receipt up by id', async () => {
+      mockRedis.hgetall.mockResolvedValue({
+        status: 'failed',
+        jobId: 'hr_batch_1',
+        error: 'BPM out of range',
+        updatedAt: '2024-01-15T10:30:00.000Z',
+      });
+
+      const receipt = await redisRepository.getIngestionReceipt('receipt-1');
+
+      expect(mockRedis.hgetall).toHaveBeenCalledWith(expect.stringMatching(/:receipt-1$/));
+      expect(receipt).toEqual({
+        receiptId: 'receipt-1',
+        status: 'failed',
+        jobId: 'hr_batch_1',
+        error: 'BPM out of range',
+        updatedAt: '2024-01-15T10:30:00.000Z',
+      });
+    });
+
+    it('should return null for an unknown or expired receipt', async () => {
+      mockRedis.hgetall.mockResolvedValue({});
+
+      await expect(redisRepository.getIngestionReceipt('receipt-missing')).resolves.toBeNull();
+    });
+
+    it('should record the job and status of each receipt and refresh its expiry', async () => {
+      const pipeline = mockPipeline();
+
+      await redisRepository.setIngestionReceipts(['receipt-1', 'receipt-2'], 'queued', { jobId: 'hr_batch_1' });
+
+      expect(pipeline.hset).toHaveBeenCalledTimes(2);
+      expect(pipeline.hset).toHaveBeenCalledWith(
+        expect.stringMatching(/:receipt-2$/),
+        { status: 'queued', jobId: 'hr_batch_1', updatedAt: expect.any(String) }
+      );
+      expect(pipeline.expire).toHaveBeenCalledTimes(2);
+      expect(pipeline.exec).toHaveBeenCalled();
+    });
+
+    it('should clear the error of an earlier attempt once a receipt moves on without one', async () => {
+      const pipeline = mockPipeline();
+
+      await redisRepository.setIngestionReceipts(['receipt-1'], 'processed', { jobId: 'hr_batch_1' });
+
+      expect(pipeline.hdel).toHaveBeenCalledWith(expect.stringMatching(/:receipt-1$/), 'error');
+    });
+
+    it('should keep the error on a failed receipt', async () => {
+      const pipeline = mockPipeline();
+
+      await redisRepository.setIngestionReceipts(['receipt-1'], 'failed', { jobId: 'hr_batch_1', error: 'boom' });
+
+      expect(pipeline.hset).toHaveBeenCalledWith(
+        expect.stringMatching(/:receipt-1$/),
+        expect.objectContaining({ status: 'failed', error: 'boom' })
+      );
+      expect(pipeline.hdel).not.toHaveBeenCalled();
+    });
+
+    it('should skip Redis when there are no receipts', async () => {
+      await redisRepository.setIngestionReceipts([], 'processed');
+
+      expect(mockRedis.pipeline).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bufferReading', () => {
+    function mockMulti(results: any) {
+      const chain: any = {};
+      for (const command of ['hset', 'expire', 'rpush']) {
+        chain[command] = jest.fn().mockReturnValue(chain);
+      }
+      chain.exec = jest.fn().mockResolvedValue(results);
+      mockRedis.multi.mockReturnValue(chain);
+      return chain;
+    }
+
+    it('should mark the receipt buffered and append the reading in one transaction', async () => {
+      const chain = mockMulti([[null, 2], [null, 1], [null, 5]]);
+
+      const length = await redisRepository.bufferReading('hr_buffer', 'owner-1', 'receipt-1', { bpm: 72 });
+
+      expect(length).toBe(5);
+      expect(chain.hset).toHaveBeenCalledWith(
+        expect.stringContaining('receipt-1'),
+        expect.objectContaining({ status: 'buffered' })
+      );
+      expect(chain.rpush).toHaveBeenCalledWith('hr_buffer:owner-1', JSON.stringify({ bpm: 72 }));
+    });
+
+    it('should throw when the transaction is aborted', async () => {
+      mockMulti(null);
+
+      await expect(redisRepository.bufferReading('hr_buffer', 'owner-1', 'receipt-1', { bpm: 72 }))
+        .rejects.toThrow('Buffer transaction aborted');
+    });
+  });
+
+  describe('findOrphanedBuffers', () => {
+    it('should return only the buffers whose owner has no heartbeat, across scan pages', async () => {
+      mockRedis.scan
+        .mockResolvedValueOnce(['17', ['hr_buffer:live', 'hr_buffer:dead']])
+        .mockResolvedValueOnce(['0', ['hr_buffer:live:recovered_gone']]);
+      mockRedis.exists.mockImplementation(async (key: string) => (key.endsWith(':live') ? 1 : 0));
+
+      const orphaned = await redisRepository.findOrphanedBuffers('hr_buffer');
+
+      expect(orphaned).toEqual(['hr_buffer:dead']);
+      expect(mockRedis.scan).toHaveBeenCalledWith('17', 'MATCH', 'hr_buffer:*', 'COUNT', 100);
+    });
+  });
+
+  describe('claimBuffer', () => {
+    it('should rename the orphaned buffer under the claiming owner', async () => {
+      mockRedis.rename.mockResolvedValue('OK');
+
+      const claimedKey = await redisRepository.claimBuffer('hr_buffer', 'hr_buffer:dead', 'owner-1');
+
+      expect(claimedKey).toBe('hr_buffer:owner-1:recovered_dead');
+      expect(mockRedis.rename).toHaveBeenCalledWith('hr_buffer:dead', 'hr_buffer:owner-1:recovered_dead');
+    });
+
+    it('should return null when another instance claimed the buffer first', async () => {
+      mockRedis.rename.mockRejectedValue(new Error('ERR no such key'));
+
+      await expect(redisRepository.claimBuffer('hr_buffer', 'hr_buffer:dead', 'owner-2')).resolves.toBeNull();
+    });
+
+    it('should rethrow other Redis errors', async () => {
+      mockRedis.rename.mockRejectedValue(new Error('Connection is closed.'));
+
+      await expect(redisRepository.claimBuffer('hr_buffer', 'hr_buffer:dead', 'owner-2'))
+        .rejects.toThrow('Connection is closed.');
+    });
+  });
+});
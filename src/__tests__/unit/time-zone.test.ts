@@ -0,0 +1,23 @@
+import { localDate, startOfLocalDay, addMonths, isValidTimeZone } from '../../utils/time-zone';
+
+describe('time zone helpers', () => {
+  it('should put evening readings in the US on their local day', () => {
+    expect(localDate('2024-01-16T02:00:00.000Z', 'America/New_York')).toBe('2024-01-15');
+    expect(localDate('2024-01-16T02:00:00.000Z', 'UTC')).toBe('2024-01-16');
+  });
+
+  it('should find local midnight across DST changes', () => {
+    expect(startOfLocalDay('2024-03-10', 'America/New_York')).toEqual(new Date('2024-03-10T05:00:00.000Z'));
+    expect(startOfLocalDay('2024-03-11', 'America/New_York')).toEqual(new Date('2024-03-11T04:00:00.000Z'));
+    expect(startOfLocalDay('2024-01-15', 'Asia/Kolkata')).toEqual(new Date('2024-01-14T18:30:00.000Z'));
+  });
+
+  it('should validate IANA zone names', () => {
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('should add calendar months', () => {
+    expect(addMonths('2024-01-15', -12)).toBe('2023-01-15');
+  });
+});
@@ -0,0 +1,30 @@
+import { postWeightDataSchema } from '../../db/schema';
+import { convertGlucose, convertTemperature, convertWeight, roundTo } from '../../utils/units';
+
+describe('unit conversions', () => {
+  it('should convert weight between kg, lb and st', () => {
+    expect(roundTo(convertWeight(150, 'lb', 'kg'), 2)).toBe(68.04);
+    expect(roundTo(convertWeight(70, 'kg', 'st'), 2)).toBe(11.02);
+    expect(convertWeight(70, 'kg', 'kg')).toBe(70);
+  });
+
+  it('should convert glucose and temperature', () => {
+    expect(roundTo(convertGlucose(99, 'mg/dL', 'mmol/L'), 1)).toBe(5.5);
+    expect(convertTemperature(37, 'C', 'F')).toBeCloseTo(98.6);
+  });
+});
+
+describe('weight readings', () => {
+  const reading = { patientId: 1, timestamp: '2024-01-15T08:00:00.000Z' };
+
+  it('should store a weight in another unit as kg', () => {
+    expect(postWeightDataSchema.parse({ ...reading, weight: 165, unit: 'lb' }).weightKg).toBe(74.84);
+    expect(postWeightDataSchema.parse({ ...reading, weightKg: 74.8 }).weightKg).toBe(74.8);
+  });
+
+  it('should require exactly one of weightKg and weight', () => {
+    expect(postWeightDataSchema.safeParse({ ...reading, weightKg: 74.8, weight: 165 }).success).toBe(false);
+    expect(postWeightDataSchema.safeParse(reading).success).toBe(false);
+    expect(postWeightDataSchema.safeParse({ ...reading, weightKg: 74.8, unit: 'lb' }).success).toBe(false);
+  });
+});
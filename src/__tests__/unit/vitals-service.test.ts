@@ -1,4 +1,4 @@
-import { VitalsService } from '../../services/vitals-service';
+import { VitalsService, VitalsError, readingWindowConfig } from '../../services/vitals-service';
 import { redisRepository } from '../../db/redis-repository';
 import { db } from '../../db/connection';
 import { 
@@ -6,8 +6,12 @@ import {
   heartRateAggregates, 
   bloodPressureRecords, 
   weightRecords,
-
+  healthMetrics,
+  bloodPressureChartDataSchema,
 } from '../../db/schema';
+import { heartRateTotals } from '../../utils/heart-rate';
+import { registerMetric } from '../../utils/metric-registry';
+import { z } from 'zod';
 
 // Mock the database and Redis services
 jest.mock('../../db/connection', () => ({
@@ -15,15 +19,21 @@ jest.mock('../../db/connection', () => ({
     insert: jest.fn(),
     select: jest.fn(),
     update: jest.fn(),
+    transaction: jest.fn(),
   },
 }));
 
 jest.mock('../../db/redis-repository', () => ({
   redisRepository: {
-    getDailyMinMax: jest.fn(),
-    setDailyMinMax: jest.fn(),
-    updateDailyMin: jest.fn(),
-    updateDailyMax: jest.fn(),
+    mergeDailyMinMax: jest.fn(),
+    clearDailyMinMax: jest.fn(),
+    // Inside the cache window unless a test says otherwise
+    getDailyMinMaxTtlSeconds: jest.fn().mockReturnValue(86400),
+    claimIngestionKey: jest.fn(),
+    isKnownPatient: jest.fn(),
+    markPatientKnown: jest.fn(),
+    // Every patient is cached with UTC unless a test says otherwise
+    getKnownPatientTimeZones: jest.fn(async (patientIds: number[]) => new Map(patientIds.map(id => [id, 'UTC']))),
   },
 }));
 
@@ -39,6 +49,8 @@ describe('VitalsService', () => {
     
     // Reset all mocks
     jest.clearAllMocks();
+    // Statements run inside a transaction land on the mocked db
+    mockDb.transaction.mockImplementation((callback: any) => callback(mockDb));
   });
 
   describe('processHeartRateReading', () => {
@@ -47,31 +59,48 @@ describe('VitalsService', () => {
       bpm: 72,
       timestamp: '2024-01-15T10:30:00.000Z'
     };
+    const readingTotals = expect.objectContaining({ sum: 72, count: 1 });
 
     it('should store individual heart rate reading in database', async () => {
       // Mock database insert
       mockDb.insert.mockReturnValue({
-        values: jest.fn().mockReturnValue(undefined)
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([{ id: 1 }])
+          })
+        })
       });
 
-      // Mock Redis operations - no updates needed
-      const mockUpdateDailyMinMaxCache = jest.spyOn(vitalsService as any, 'updateDailyMinMaxCache');
-      mockUpdateDailyMinMaxCache.mockResolvedValue(null);
+      jest.spyOn(vitalsService as any, 'updateDailyMinMaxCache').mockResolvedValue({
+        min: 72,
+        max: 72,
+        minTime: '2024-01-15T10:30:00.000Z',
+        maxTime: '2024-01-15T10:30:00.000Z'
+      });
+      jest.spyOn(vitalsService, 'upsertHeartRateAggregates').mockResolvedValue([]);
 
-      await vitalsService.processHeartRateReading(mockHeartRateData);
+      await vitalsService.processHeartRateReading({ ...mockHeartRateData, timestampFlag: 'late' });
 
       expect(mockDb.insert).toHaveBeenCalledWith(heartRateRecords);
       expect(mockDb.insert().values).toHaveBeenCalledWith({
         patientId: 1,
         bpm: 72,
         recordedAt: new Date('2024-01-15T10:30:00.000Z'),
+        // Stored as classified at ingestion, not against the processing time
+        timestampFlag: 'late',
+        context: null,
+        deviceId: null,
         createdAt: expect.any(Date)
       });
     });
 
     it('should update daily min/max when it is the first reading of the day', async () => {
       mockDb.insert.mockReturnValue({
-        values: jest.fn().mockReturnValue(undefined)
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([{ id: 1 }])
+          })
+        })
       });
 
       // Mock the updateDailyMinMaxCache method to return the expected result
@@ -83,32 +112,42 @@ describe('VitalsService', () => {
         maxTime: '2024-01-15T10:30:00.000Z'
       });
 
-      // Mock upsertHeartRateAggregate
-      const mockUpsert = jest.spyOn(vitalsService as any, 'upsertHeartRateAggregate');
-      mockUpsert.mockResolvedValue({});
+      // Mock upsertHeartRateAggregates
+      const mockUpsert = jest.spyOn(vitalsService, 'upsertHeartRateAggregates');
+      mockUpsert.mockResolvedValue([]);
 
       await vitalsService.processHeartRateReading(mockHeartRateData);
 
       expect(mockUpdateDailyMinMaxCache).toHaveBeenCalledWith(
         1,
         '2024-01-15',
+        'UTC',
         72,
-        '2024-01-15T10:30:00.000Z'
+        '2024-01-15T10:30:00.000Z',
+        readingTotals
       );
 
-      expect(mockUpsert).toHaveBeenCalledWith(
-        1,
-        '2024-01-15',
-        72,
-        new Date('2024-01-15T10:30:00.000Z'),
-        72,
-        new Date('2024-01-15T10:30:00.000Z')
-      );
+      expect(mockUpsert).toHaveBeenCalledWith([{
+        patientId: 1,
+        date: '2024-01-15',
+        bpmMin: 72,
+        bpmMinRecordedAt: new Date('2024-01-15T10:30:00.000Z'),
+        bpmMax: 72,
+        bpmMaxRecordedAt: new Date('2024-01-15T10:30:00.000Z'),
+        bpmSum: 72,
+        bpmCount: 1,
+        hourlyBpmSum: expect.any(Array),
+        hourlyBpmCount: expect.any(Array),
+      }], mockDb);
     });
 
     it('should update daily min/max when new minimum is recorded', async () => {
       mockDb.insert.mockReturnValue({
-        values: jest.fn().mockReturnValue(undefined)
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([{ id: 1 }])
+          })
+        })
       });
 
       // Mock the updateDailyMinMaxCache method to return the expected result
@@ -120,31 +159,41 @@ describe('VitalsService', () => {
         maxTime: '2024-01-15T09:00:00.000Z'
       });
 
-      const mockUpsert = jest.spyOn(vitalsService as any, 'upsertHeartRateAggregate');
-      mockUpsert.mockResolvedValue({});
+      const mockUpsert = jest.spyOn(vitalsService, 'upsertHeartRateAggregates');
+      mockUpsert.mockResolvedValue([]);
 
       await vitalsService.processHeartRateReading(mockHeartRateData);
 
       expect(mockUpdateDailyMinMaxCache).toHaveBeenCalledWith(
         1,
         '2024-01-15',
+        'UTC',
         72,
-        '2024-01-15T10:30:00.000Z'
+        '2024-01-15T10:30:00.000Z',
+        readingTotals
       );
 
-      expect(mockUpsert).toHaveBeenCalledWith(
-        1,
-        '2024-01-15',
-        70,
-        new Date('2024-01-15T10:30:00.000Z'),
-        85,
-        new Date('2024-01-15T09:00:00.000Z')
-      );
+      expect(mockUpsert).toHaveBeenCalledWith([{
+        patientId: 1,
+        date: '2024-01-15',
+        bpmMin: 70,
+        bpmMinRecordedAt: new Date('2024-01-15T10:30:00.000Z'),
+        bpmMax: 85,
+        bpmMaxRecordedAt: new Date('2024-01-15T09:00:00.000Z'),
+        bpmSum: 72,
+        bpmCount: 1,
+        hourlyBpmSum: expect.any(Array),
+        hourlyBpmCount: expect.any(Array),
+      }], mockDb);
     });
 
     it('should update daily min/max when new maximum is recorded', async () => {
       mockDb.insert.mockReturnValue({
-        values: jest.fn().mockReturnValue(undefined)
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([{ id: 1 }])
+          })
+        })
       });
 
       // Mock the updateDailyMinMaxCache method to return the expected result
@@ -156,200 +205,479 @@ describe('VitalsService', () => {
         maxTime: '2024-01-15T10:30:00.000Z'
       });
 
-      const mockUpsert = jest.spyOn(vitalsService as any, 'upsertHeartRateAggregate');
-      mockUpsert.mockResolvedValue({});
+      const mockUpsert = jest.spyOn(vitalsService, 'upsertHeartRateAggregates');
+      mockUpsert.mockResolvedValue([]);
 
       await vitalsService.processHeartRateReading(mockHeartRateData);
 
       expect(mockUpdateDailyMinMaxCache).toHaveBeenCalledWith(
         1,
         '2024-01-15',
+        'UTC',
         72,
-        '2024-01-15T10:30:00.000Z'
+        '2024-01-15T10:30:00.000Z',
+        readingTotals
       );
 
-      expect(mockUpsert).toHaveBeenCalledWith(
-        1,
-        '2024-01-15',
-        65,
-        new Date('2024-01-15T09:00:00.000Z'),
-        72,
-        new Date('2024-01-15T10:30:00.000Z')
-      );
+      expect(mockUpsert).toHaveBeenCalledWith([{
+        patientId: 1,
+        date: '2024-01-15',
+        bpmMin: 65,
+        bpmMinRecordedAt: new Date('2024-01-15T09:00:00.000Z'),
+        bpmMax: 72,
+        bpmMaxRecordedAt: new Date('2024-01-15T10:30:00.000Z'),
+        bpmSum: 72,
+        bpmCount: 1,
+        hourlyBpmSum: expect.any(Array),
+        hourlyBpmCount: expect.any(Array),
+      }], mockDb);
     });
 
-    it('should not update database when no new min/max is recorded', async () => {
+    it('should store the reading and its aggregate in one transaction', async () => {
       mockDb.insert.mockReturnValue({
-        values: jest.fn().mockReturnValue(undefined)
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([{ id: 1 }])
+          })
+        })
       });
+      jest.spyOn(vitalsService as any, 'updateDailyMinMaxCache').mockResolvedValue({
+        min: 72,
+        max: 72,
+        minTime: '2024-01-15T10:30:00.000Z',
+        maxTime: '2024-01-15T10:30:00.000Z'
+      });
+      const mockTx = { insert: mockDb.insert };
+      mockDb.transaction.mockImplementation((callback: any) => callback(mockTx));
+      const mockUpsert = jest.spyOn(vitalsService, 'upsertHeartRateAggregates').mockResolvedValue([]);
 
-      // Mock updateDailyMinMaxCache to return null (no updates needed)
-      const mockUpdateDailyMinMaxCache = jest.spyOn(vitalsService as any, 'updateDailyMinMaxCache');
-      mockUpdateDailyMinMaxCache.mockResolvedValue(null);
+      await expect(vitalsService.processHeartRateReading(mockHeartRateData)).resolves.toBe(true);
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(mockUpsert).toHaveBeenCalledWith(expect.any(Array), mockTx);
+    });
+
+    it('should roll the reading back and drop the day\'s cache when the aggregate upsert fails', async () => {
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([{ id: 1 }])
+          })
+        })
+      });
+      jest.spyOn(vitalsService as any, 'updateDailyMinMaxCache').mockResolvedValue({
+        min: 72,
+        max: 72,
+        minTime: '2024-01-15T10:30:00.000Z',
+        maxTime: '2024-01-15T10:30:00.000Z'
+      });
+      jest.spyOn(vitalsService, 'upsertHeartRateAggregates').mockRejectedValue(new Error('Deadlock detected'));
+      mockRedisRepository.clearDailyMinMax.mockResolvedValue(undefined);
+
+      // The rejection escapes the transaction callback, which rolls the insert back
+      await expect(vitalsService.processHeartRateReading(mockHeartRateData)).rejects.toThrow('Deadlock detected');
+
+      expect(mockRedisRepository.clearDailyMinMax).toHaveBeenCalledWith(1, '2024-01-15');
+    });
+
+    it('should add the reading to the day totals when the extremes are unchanged', async () => {
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([{ id: 1 }])
+          })
+        })
+      });
+      mockRedisRepository.mergeDailyMinMax.mockResolvedValue({
+        aggregate: {
+          min: 65,
+          max: 85,
+          minTime: '2024-01-15T09:00:00.000Z',
+          maxTime: '2024-01-15T09:00:00.000Z',
+          sum: 222,
+          count: 3,
+        },
+        changed: false,
+        created: false,
+      });
 
-      const mockUpsert = jest.spyOn(vitalsService as any, 'upsertHeartRateAggregate');
-      mockUpsert.mockResolvedValue({});
+      const mockUpsert = jest.spyOn(vitalsService, 'upsertHeartRateAggregates');
+      mockUpsert.mockResolvedValue([]);
 
       await vitalsService.processHeartRateReading(mockHeartRateData);
 
-      expect(mockUpdateDailyMinMaxCache).toHaveBeenCalledWith(
-        1,
-        '2024-01-15',
-        72,
-        '2024-01-15T10:30:00.000Z'
-      );
-      expect(mockUpsert).not.toHaveBeenCalled();
+      const [[row]] = mockUpsert.mock.calls[0];
+      expect(row).toMatchObject({ bpmMin: 65, bpmMax: 85, bpmSum: 72, bpmCount: 1 });
+      expect(row.hourlyBpmCount[10]).toBe(1);
+      expect(row.hourlyBpmSum[10]).toBe(72);
     });
   });
 
-  describe('updateDailyMinMaxCache', () => {
-    it('should create new daily min/max for first reading of the day', async () => {
-      mockRedisRepository.getDailyMinMax.mockResolvedValue(null);
-      mockRedisRepository.setDailyMinMax.mockResolvedValue(undefined);
+  describe('processHeartRateBatch', () => {
+    const readings = [
+      { patientId: 1, bpm: 70, timestamp: '2024-01-15T10:00:00.000Z' },
+      { patientId: 2, bpm: 80, timestamp: '2024-01-15T10:00:00.000Z' },
+      { patientId: 2, bpm: 85, timestamp: '2024-01-15T11:00:00.000Z' },
+    ];
 
-      const result = await vitalsService['updateDailyMinMaxCache'](
-        1,
-        '2024-01-15',
-        72,
-        '2024-01-15T10:30:00.000Z'
-      );
+    beforeEach(() => {
+      jest.spyOn(vitalsService as any, 'updateDailyMinMaxCacheForBatch').mockResolvedValue(undefined);
+    });
 
-      expect(result).toEqual({
-        min: 72,
-        max: 72,
-        minTime: '2024-01-15T10:30:00.000Z',
-        maxTime: '2024-01-15T10:30:00.000Z'
+    it('should set aside readings for deleted patients and commit the other groups', async () => {
+      const fkViolation = { code: '23503', message: 'violates foreign key constraint' };
+      const values = jest.fn().mockImplementation((rows: any) => {
+        const list = Array.isArray(rows) ? rows : [rows];
+        return {
+          onConflictDoNothing: () => ({
+            returning: () => list.some((row: any) => row.patientId === 2)
+              ? Promise.reject(fkViolation)
+              : Promise.resolve(list.map((row: any) => ({ bpm: row.bpm, recordedAt: row.recordedAt }))),
+          }),
+        };
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const onGroupCommitted = jest.fn().mockResolvedValue(undefined);
+      const result = await vitalsService.processHeartRateBatch(readings, { onGroupCommitted });
+
+      expect(result.processed).toEqual([readings[0]]);
+      expect(result.failed).toHaveLength(2);
+      expect(result.failed[0]).toMatchObject({ reading: readings[1], code: 'PATIENT_NOT_FOUND' });
+      expect(onGroupCommitted).toHaveBeenCalledWith('1_2024-01-15', { processed: [readings[0]], failed: [] });
+      expect(onGroupCommitted).toHaveBeenCalledWith('2_2024-01-15', {
+        processed: [],
+        failed: [
+          expect.objectContaining({ reading: readings[1] }),
+          expect.objectContaining({ reading: readings[2] }),
+        ],
       });
+    });
 
-      expect(mockRedisRepository.setDailyMinMax).toHaveBeenCalledWith(
-        1,
-        '2024-01-15',
-        72,
-        72,
-        '2024-01-15T10:30:00.000Z',
-        '2024-01-15T10:30:00.000Z',
-        expect.any(Number)
-      );
+    it('should upsert all touched days in one statement before marking groups committed', async () => {
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([])
+          })
+        })
+      });
+      jest.spyOn(vitalsService as any, 'updateDailyMinMaxCacheForBatch')
+        .mockImplementation(async (patientId: any, date: any) => ({ patientId, date }));
+      const calls: string[] = [];
+      jest.spyOn(vitalsService, 'upsertHeartRateAggregates').mockImplementation(async (rows) => {
+        calls.push(`upsert:${rows.length}`);
+        return [];
+      });
+      const onGroupCommitted = jest.fn().mockImplementation(async (key: string) => {
+        calls.push(`commit:${key}`);
+      });
+
+      await vitalsService.processHeartRateBatch(readings, { onGroupCommitted });
+
+      expect(calls).toEqual(['upsert:2', 'commit:1_2024-01-15', 'commit:2_2024-01-15']);
     });
 
-    it('should update min when new reading is lower', async () => {
-      mockRedisRepository.getDailyMinMax.mockResolvedValue({
-        min: 75,
-        max: 85,
-        minTime: '2024-01-15T09:00:00.000Z',
-        maxTime: '2024-01-15T09:00:00.000Z'
+    it('should group readings by the patient\'s local day', async () => {
+      mockRedisRepository.getKnownPatientTimeZones.mockResolvedValueOnce(new Map([
+        [1, 'America/New_York'],
+        [2, 'UTC'],
+      ]));
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue([])
+          })
+        })
+      });
+      jest.spyOn(vitalsService, 'upsertHeartRateAggregates').mockResolvedValue([]);
+      const onGroupCommitted = jest.fn().mockResolvedValue(undefined);
+
+      await vitalsService.processHeartRateBatch([
+        // 9pm on the 14th in New York
+        { patientId: 1, bpm: 70, timestamp: '2024-01-15T02:00:00.000Z' },
+        { patientId: 2, bpm: 80, timestamp: '2024-01-15T02:00:00.000Z' },
+      ], { onGroupCommitted });
+
+      expect(onGroupCommitted).toHaveBeenCalledWith('1_2024-01-14', expect.anything());
+      expect(onGroupCommitted).toHaveBeenCalledWith('2_2024-01-15', expect.anything());
+    });
+
+    it('should neither insert nor report groups committed by a previous attempt', async () => {
+      const values = jest.fn().mockReturnValue({
+        onConflictDoNothing: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([])
+        })
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const result = await vitalsService.processHeartRateBatch(readings, {
+        completedGroups: new Set(['2_2024-01-15']),
+      });
+
+      expect(values).toHaveBeenCalledTimes(1);
+      expect(result.processed).toEqual([readings[0]]);
+      expect(result.failed).toHaveLength(0);
+    });
+
+    it('should collapse exact duplicates within a batch', async () => {
+      const values = jest.fn().mockReturnValue({
+        onConflictDoNothing: jest.fn().mockReturnValue({
+          returning: jest.fn().mockResolvedValue([])
+        })
+      });
+      mockDb.insert.mockReturnValue({ values });
+
+      const result = await vitalsService.processHeartRateBatch([readings[0], { ...readings[0] }]);
+
+      expect(values).toHaveBeenCalledWith([expect.objectContaining({ patientId: 1, bpm: 70 })]);
+      expect(result.processed).toHaveLength(2);
+    });
+
+    it('should rethrow infrastructure errors so the job is retried', async () => {
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockRejectedValue(new Error('Connection terminated'))
+          })
+        })
       });
 
-      mockRedisRepository.updateDailyMin.mockResolvedValue(undefined);
+      await expect(vitalsService.processHeartRateBatch(readings)).rejects.toThrow('Connection terminated');
+    });
+  });
+
+  describe('updateDailyMinMaxCache', () => {
+    const totals = heartRateTotals([{ bpm: 70, recordedAt: new Date('2024-01-15T10:30:00.000Z') }], 'UTC');
+    it('should merge the reading atomically and return the day extremes when they change', async () => {
+      mockRedisRepository.mergeDailyMinMax.mockResolvedValue({
+        aggregate: {
+          min: 70,
+          max: 85,
+          minTime: '2024-01-15T10:30:00.000Z',
+          maxTime: '2024-01-15T09:00:00.000Z'
+        },
+        changed: true,
+      });
 
       const result = await vitalsService['updateDailyMinMaxCache'](
         1,
         '2024-01-15',
+        'UTC',
         70,
-        '2024-01-15T10:30:00.000Z'
+        '2024-01-15T10:30:00.000Z',
+        totals
       );
 
+      expect(mockRedisRepository.mergeDailyMinMax).toHaveBeenCalledWith(
+        1,
+        '2024-01-15',
+        {
+          min: 70,
+          max: 70,
+          minTime: '2024-01-15T10:30:00.000Z',
+          maxTime: '2024-01-15T10:30:00.000Z',
+          ...totals
+        },
+        expect.any(Number)
+      );
       expect(result).toEqual({
         min: 70,
         max: 85,
         minTime: '2024-01-15T10:30:00.000Z',
         maxTime: '2024-01-15T09:00:00.000Z'
       });
+    });
 
-      expect(mockRedisRepository.updateDailyMin).toHaveBeenCalledWith(
+    it('should return the cached day extremes when the reading is within them', async () => {
+      mockRedisRepository.mergeDailyMinMax.mockResolvedValue({
+        aggregate: {
+          min: 65,
+          max: 85,
+          minTime: '2024-01-15T09:00:00.000Z',
+          maxTime: '2024-01-15T09:00:00.000Z'
+        },
+        changed: false,
+      });
+
+      const result = await vitalsService['updateDailyMinMaxCache'](
         1,
         '2024-01-15',
-        70,
+        'UTC',
+        75,
         '2024-01-15T10:30:00.000Z',
-        expect.any(Number)
+        totals
       );
-    });
 
-    it('should update max when new reading is higher', async () => {
-      mockRedisRepository.getDailyMinMax.mockResolvedValue({
+      expect(result).toEqual({
         min: 65,
-        max: 80,
+        max: 85,
         minTime: '2024-01-15T09:00:00.000Z',
         maxTime: '2024-01-15T09:00:00.000Z'
       });
+    });
 
-      mockRedisRepository.updateDailyMax.mockResolvedValue(undefined);
+    it('should seed an expired day from the persisted aggregate before merging', async () => {
+      const persistedHours = { hourlySum: [...totals.hourlySum], hourlyCount: [...totals.hourlyCount] };
+      mockRedisRepository.mergeDailyMinMax
+        .mockResolvedValueOnce({
+          aggregate: {
+            min: 75,
+            max: 75,
+            minTime: '2024-01-15T10:30:00.000Z',
+            maxTime: '2024-01-15T10:30:00.000Z'
+          },
+          changed: true,
+          created: true,
+        })
+        .mockResolvedValueOnce({
+          aggregate: {
+            min: 60,
+            max: 110,
+            minTime: '2024-01-15T03:00:00.000Z',
+            maxTime: '2024-01-15T08:00:00.000Z'
+          },
+          changed: true,
+          created: false,
+        });
+      jest.spyOn(vitalsService, 'getExistingHeartRateAggregate').mockResolvedValue({
+        bpmMin: 60,
+        bpmMinRecordedAt: new Date('2024-01-15T03:00:00.000Z'),
+        bpmMax: 110,
+        bpmMaxRecordedAt: new Date('2024-01-15T08:00:00.000Z'),
+        bpmSum: 420,
+        bpmCount: 5,
+        hourlyBpmSum: persistedHours.hourlySum,
+        hourlyBpmCount: persistedHours.hourlyCount,
+      } as any);
 
       const result = await vitalsService['updateDailyMinMaxCache'](
         1,
         '2024-01-15',
-        85,
-        '2024-01-15T10:30:00.000Z'
+        'UTC',
+        75,
+        '2024-01-15T10:30:00.000Z',
+        totals
       );
 
-      expect(result).toEqual({
-        min: 65,
-        max: 85,
-        minTime: '2024-01-15T09:00:00.000Z',
-        maxTime: '2024-01-15T10:30:00.000Z'
-      });
-
-      expect(mockRedisRepository.updateDailyMax).toHaveBeenCalledWith(
+      expect(mockRedisRepository.mergeDailyMinMax).toHaveBeenLastCalledWith(
         1,
         '2024-01-15',
-        85,
-        '2024-01-15T10:30:00.000Z',
+        {
+          min: 60,
+          max: 110,
+          minTime: '2024-01-15T03:00:00.000Z',
+          maxTime: '2024-01-15T08:00:00.000Z',
+          sum: 420,
+          count: 5,
+          ...persistedHours
+        },
         expect.any(Number)
       );
+      expect(result).toEqual({
+        min: 60,
+        max: 110,
+        minTime: '2024-01-15T03:00:00.000Z',
+        maxTime: '2024-01-15T08:00:00.000Z'
+      });
     });
 
-    it('should return null when reading is within existing range', async () => {
-      mockRedisRepository.getDailyMinMax.mockResolvedValue({
-        min: 65,
-        max: 85,
-        minTime: '2024-01-15T09:00:00.000Z',
-        maxTime: '2024-01-15T09:00:00.000Z'
-      });
+    it('should skip the cache for days past its window and leave merging to the upsert', async () => {
+      mockRedisRepository.getDailyMinMaxTtlSeconds.mockReturnValueOnce(0);
 
       const result = await vitalsService['updateDailyMinMaxCache'](
         1,
         '2024-01-15',
+        'UTC',
         75,
-        '2024-01-15T10:30:00.000Z'
+        '2024-01-15T10:30:00.000Z',
+        totals
       );
 
-      expect(result).toBeNull();
-      expect(mockRedisRepository.updateDailyMin).not.toHaveBeenCalled();
-      expect(mockRedisRepository.updateDailyMax).not.toHaveBeenCalled();
+      expect(mockRedisRepository.mergeDailyMinMax).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        min: 75,
+        max: 75,
+        minTime: '2024-01-15T10:30:00.000Z',
+        maxTime: '2024-01-15T10:30:00.000Z'
+      });
     });
+  });
 
-    it('should update both min and max when reading is both lower and higher than current range', async () => {
-      mockRedisRepository.getDailyMinMax.mockResolvedValue({
-        min: 70,
-        max: 80,
-        minTime: '2024-01-15T09:00:00.000Z',
-        maxTime: '2024-01-15T09:00:00.000Z'
-      });
+  describe('checkReadingWindow', () => {
+    const now = new Date('2024-03-01T12:00:00.000Z');
+    const originalPolicy = readingWindowConfig.policy;
 
-      mockRedisRepository.updateDailyMin.mockResolvedValue(undefined);
-      mockRedisRepository.updateDailyMax.mockResolvedValue(undefined);
+    afterEach(() => {
+      readingWindowConfig.policy = originalPolicy;
+    });
 
-      const result = await vitalsService['updateDailyMinMaxCache'](
-        1,
-        '2024-01-15',
-        65, // Lower than current min
-        '2024-01-15T10:30:00.000Z'
-      );
+    it('should flag old and future readings under the flag policy', () => {
+      readingWindowConfig.policy = 'flag';
 
-      expect(result).toEqual({
-        min: 65,
-        max: 80,
-        minTime: '2024-01-15T10:30:00.000Z',
-        maxTime: '2024-01-15T09:00:00.000Z'
+      expect(vitalsService.checkReadingWindow('2024-01-15T10:00:00.000Z', now)).toBe('late');
+      expect(vitalsService.checkReadingWindow('2024-03-01T13:00:00.000Z', now)).toBe('future');
+      expect(vitalsService.checkReadingWindow('2024-02-28T10:00:00.000Z', now)).toBeNull();
+    });
+
+    it('should reject readings outside the window with a specific error code', () => {
+      readingWindowConfig.policy = 'reject';
+
+      expect(() => vitalsService.checkReadingWindow('2024-01-15T10:00:00.000Z', now))
+        .toThrow(expect.objectContaining({ code: 'READING_TOO_OLD', statusCode: 400 }));
+      expect(() => vitalsService.checkReadingWindow('2024-03-01T13:00:00.000Z', now))
+        .toThrow(expect.objectContaining({ code: 'READING_IN_FUTURE', statusCode: 400 }));
+    });
+  });
+
+  describe('updateDailyMinMaxCacheForBatch', () => {
+    it('should return the merged day extremes rather than the batch extremes', async () => {
+      mockRedisRepository.mergeDailyMinMax.mockResolvedValue({
+        aggregate: {
+          min: 60,
+          max: 90,
+          minTime: '2024-01-15T08:00:00.000Z',
+          maxTime: '2024-01-15T11:00:00.000Z'
+        },
+        changed: true,
       });
 
-      expect(mockRedisRepository.updateDailyMin).toHaveBeenCalledWith(
+      const readings = [
+        { patientId: 1, bpm: 75, timestamp: '2024-01-15T10:00:00.000Z' },
+        { patientId: 1, bpm: 90, timestamp: '2024-01-15T11:00:00.000Z' },
+      ];
+      const totals = heartRateTotals(
+        readings.map(reading => ({ bpm: reading.bpm, recordedAt: new Date(reading.timestamp) })),
+        'UTC'
+      );
+
+      const result = await vitalsService['updateDailyMinMaxCacheForBatch'](1, '2024-01-15', 'UTC', readings, totals);
+
+      expect(mockRedisRepository.mergeDailyMinMax).toHaveBeenCalledWith(
         1,
         '2024-01-15',
-        65,
-        '2024-01-15T10:30:00.000Z',
+        {
+          min: 75,
+          max: 90,
+          minTime: '2024-01-15T10:00:00.000Z',
+          maxTime: '2024-01-15T11:00:00.000Z',
+          ...totals
+        },
         expect.any(Number)
       );
+      // Totals are the batch's own, added to the stored ones by the upsert
+      expect(result).toEqual({
+        patientId: 1,
+        date: '2024-01-15',
+        bpmMin: 60,
+        bpmMinRecordedAt: new Date('2024-01-15T08:00:00.000Z'),
+        bpmMax: 90,
+        bpmMaxRecordedAt: new Date('2024-01-15T11:00:00.000Z'),
+        bpmSum: 165,
+        bpmCount: 2,
+        hourlyBpmSum: totals.hourlySum,
+        hourlyBpmCount: totals.hourlyCount,
+      });
     });
   });
 
@@ -361,7 +689,7 @@ describe('VitalsService', () => {
       timestamp: '2024-01-15T08:00:00.000Z'
     };
 
-    it('should store blood pressure reading in database', async () => {
+    it('should store blood pressure reading with its measurement context and device', async () => {
       const mockInsertResult = [{
         id: 1,
         patientId: 1,
@@ -373,11 +701,14 @@ describe('VitalsService', () => {
 
       mockDb.insert.mockReturnValue({
         values: jest.fn().mockReturnValue({
-          returning: jest.fn().mockResolvedValue(mockInsertResult)
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue(mockInsertResult)
+          })
         })
       });
 
-      const result = await vitalsService.storeBloodPressureReading(mockBloodPressureData);
+      const context = { source: 'device' as const, bodyPosition: 'sitting' as const, arm: 'left' as const };
+      const result = await vitalsService.storeBloodPressureReading({ ...mockBloodPressureData, context, deviceId: 3 });
 
       expect(mockDb.insert).toHaveBeenCalledWith(bloodPressureRecords);
       expect(mockDb.insert().values).toHaveBeenCalledWith({
@@ -385,10 +716,89 @@ describe('VitalsService', () => {
         systolic: 120,
         diastolic: 80,
         recordedAt: new Date('2024-01-15T08:00:00.000Z'),
+        context,
+        deviceId: 3,
         createdAt: expect.any(Date)
       });
       expect(result).toEqual(mockInsertResult[0]);
     });
+
+    it('should throw a 404 VitalsError when the patient does not exist', async () => {
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockRejectedValue({ code: '23503', constraint: 'blood_pressure_records_patient_id_patients_id_fk' })
+          })
+        })
+      });
+
+      await expect(vitalsService.storeBloodPressureReading(mockBloodPressureData))
+        .rejects.toMatchObject({ code: 'PATIENT_NOT_FOUND', statusCode: 404 });
+    });
+  });
+
+  describe('claimIngestion', () => {
+    const reading = { patientId: 1, bpm: 72, timestamp: '2024-01-15T10:30:00Z' };
+
+    it('should fingerprint readings by patient, timestamp and value', async () => {
+      mockRedisRepository.claimIngestionKey.mockResolvedValue(null);
+
+      const claim = await vitalsService.claimIngestion('heart_rate', reading, undefined, 'receipt-1');
+
+      expect(mockRedisRepository.claimIngestionKey).toHaveBeenCalledWith(
+        'heart_rate:1:2024-01-15T10:30:00.000Z:72',
+        'receipt-1'
+      );
+      expect(claim.duplicateOf).toBeNull();
+    });
+
+    it('should prefer the idempotency key over the reading id', async () => {
+      mockRedisRepository.claimIngestionKey.mockResolvedValue('receipt-1');
+
+      const claim = await vitalsService.claimIngestion('heart_rate', { ...reading, readingId: 'r-1' }, 'key-1');
+
+      expect(mockRedisRepository.claimIngestionKey).toHaveBeenCalledWith('heart_rate:1:key:key-1', '1');
+      expect(claim.duplicateOf).toBe('receipt-1');
+    });
+  });
+
+  describe('assertPatientExists', () => {
+    it('should skip the database when the patient is cached as known', async () => {
+      mockRedisRepository.isKnownPatient.mockResolvedValue(true);
+
+      await vitalsService.assertPatientExists(1);
+
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should cache the patient after finding it in the database', async () => {
+      mockRedisRepository.isKnownPatient.mockResolvedValue(false);
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([{ id: 1, timezone: 'Europe/Paris' }])
+          })
+        })
+      });
+
+      await vitalsService.assertPatientExists(1);
+
+      expect(mockRedisRepository.markPatientKnown).toHaveBeenCalledWith(1, 'Europe/Paris');
+    });
+
+    it('should throw a 404 VitalsError when the patient does not exist', async () => {
+      mockRedisRepository.isKnownPatient.mockResolvedValue(false);
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            limit: jest.fn().mockResolvedValue([])
+          })
+        })
+      });
+
+      await expect(vitalsService.assertPatientExists(99)).rejects.toBeInstanceOf(VitalsError);
+      expect(mockRedisRepository.markPatientKnown).not.toHaveBeenCalled();
+    });
   });
 
   describe('storeWeightReading', () => {
@@ -409,7 +819,9 @@ describe('VitalsService', () => {
 
       mockDb.insert.mockReturnValue({
         values: jest.fn().mockReturnValue({
-          returning: jest.fn().mockResolvedValue(mockInsertResult)
+          onConflictDoNothing: jest.fn().mockReturnValue({
+            returning: jest.fn().mockResolvedValue(mockInsertResult)
+          })
         })
       });
 
@@ -420,6 +832,8 @@ describe('VitalsService', () => {
         patientId: 1,
         weightKg: 75.5,
         recordedAt: new Date('2024-01-15T07:00:00.000Z'),
+        context: null,
+        deviceId: null,
         createdAt: expect.any(Date)
       });
       expect(result).toEqual(mockInsertResult[0]);
@@ -427,126 +841,384 @@ describe('VitalsService', () => {
   });
 
   describe('getHeartRateChartData', () => {
-    it('should return heart rate chart data for specified period', async () => {
-      const mockAggregates = [
-        {
-          date: '2024-01-15',
-          bpmMin: 58,
-          bpmMax: 145,
-          bpmMinRecordedAt: new Date('2024-01-15T06:00:00.000Z'),
-          bpmMaxRecordedAt: new Date('2024-01-15T18:00:00.000Z')
-        },
-        {
-          date: '2024-01-14',
-          bpmMin: 62,
-          bpmMax: 138,
-          bpmMinRecordedAt: new Date('2024-01-14T07:00:00.000Z'),
-          bpmMaxRecordedAt: new Date('2024-01-14T19:00:00.000Z')
-        }
-      ];
-
+    function mockBucketRows(rows: any[]) {
+      const groupBy = jest.fn().mockResolvedValue(rows);
       mockDb.select.mockReturnValue({
         from: jest.fn().mockReturnValue({
-          where: jest.fn().mockReturnValue({
-            orderBy: jest.fn().mockResolvedValue(mockAggregates)
-          })
+          where: jest.fn().mockReturnValue({ groupBy })
         })
       });
+      return groupBy;
+    }
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should read day buckets in the patient\'s zone from the daily aggregates, oldest first', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+      const groupBy = mockBucketRows([
+        { bucket: '2024-01-15', min: 58, max: 145, mean: 82.5, count: 120, restingEstimate: 61.2 },
+        { bucket: '2024-01-14', min: 62, max: 138, mean: 79, count: 96, restingEstimate: null },
+      ]);
 
       const result = await vitalsService.getHeartRateChartData(1, '7_days');
 
-      expect(mockDb.select).toHaveBeenCalled();
+      expect(mockDb.select.mock.results[0].value.from).toHaveBeenCalledWith(heartRateAggregates);
+      expect(groupBy).toHaveBeenCalled();
       expect(result).toEqual([
-        {
-          date: '2024-01-15',
-          min: 58,
-          max: 145
-        },
-        {
-          date: '2024-01-14',
-          min: 62,
-          max: 138
-        }
+        { bucket: '2024-01-14', start: new Date('2024-01-14T00:00:00.000Z'), min: 62, max: 138, mean: 79, count: 96, restingEstimate: null },
+        { bucket: '2024-01-15', start: new Date('2024-01-15T00:00:00.000Z'), min: 58, max: 145, mean: 82.5, count: 120, restingEstimate: 61.2 },
+      ]);
+    });
+
+    it('should keep aggregate days stored before totals were tracked', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+      mockBucketRows([
+        { bucket: '2024-01-14', min: 62, max: 138, mean: null, count: 0, restingEstimate: null },
+      ]);
+
+      const result = await vitalsService.getHeartRateChartData(1, '7_days');
+
+      expect(result).toEqual([
+        { bucket: '2024-01-14', start: new Date('2024-01-14T00:00:00.000Z'), min: 62, max: 138, mean: null, count: 0, restingEstimate: null },
+      ]);
+    });
+
+    it('should compute hour buckets from the records', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+      mockBucketRows([{ bucket: '2024-01-15T10:00', min: 70, max: 80, mean: 75, count: 4 }]);
+
+      const result = await vitalsService.getHeartRateChartData(1, '7_days', { bucket: 'hour', fillGaps: false });
+
+      expect(mockDb.select.mock.results[0].value.from).toHaveBeenCalledWith(heartRateRecords);
+      expect(result).toEqual([
+        { bucket: '2024-01-15T10:00', start: new Date('2024-01-15T10:00:00.000Z'), min: 70, max: 80, mean: 75, count: 4, restingEstimate: null },
+      ]);
+    });
+
+    it('should compute context-filtered buckets from the records', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+      mockBucketRows([{ bucket: '2024-01-15', min: 55, max: 64, mean: 59.5, count: 6 }]);
+
+      const result = await vitalsService.getHeartRateChartData(1, '7_days', {
+        bucket: 'day',
+        fillGaps: false,
+        activityState: 'resting',
+      });
+
+      expect(mockDb.select.mock.results[0].value.from).toHaveBeenCalledWith(heartRateRecords);
+      expect(result).toEqual([
+        { bucket: '2024-01-15', start: new Date('2024-01-15T00:00:00.000Z'), min: 55, max: 64, mean: 59.5, count: 6, restingEstimate: null },
       ]);
     });
+
+    it('should fill empty buckets when fillGaps is set', async () => {
+      mockBucketRows([{ bucket: '2024-01-14', min: 60, max: 120, mean: 85, count: 12 }]);
+
+      const result = await vitalsService.getHeartRateChartData(1, 'custom', {
+        from: '2024-01-13',
+        to: '2024-01-15',
+        tz: 'America/New_York',
+        bucket: 'day',
+        fillGaps: true,
+      });
+
+      expect(result).toEqual([
+        { bucket: '2024-01-13', start: new Date('2024-01-13T05:00:00.000Z'), min: null, max: null, mean: null, count: 0, restingEstimate: null },
+        { bucket: '2024-01-14', start: new Date('2024-01-14T05:00:00.000Z'), min: 60, max: 120, mean: 85, count: 12, restingEstimate: null },
+        { bucket: '2024-01-15', start: new Date('2024-01-15T05:00:00.000Z'), min: null, max: null, mean: null, count: 0, restingEstimate: null },
+      ]);
+    });
+
+    it('should refuse ranges with too many buckets', async () => {
+      await expect(vitalsService.getHeartRateChartData(1, '12_months', { bucket: 'hour', fillGaps: false }))
+        .rejects.toMatchObject({ code: 'TOO_MANY_BUCKETS', statusCode: 400 });
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should throw a 404 VitalsError for an unknown patient', async () => {
+      mockRedisRepository.getKnownPatientTimeZones.mockResolvedValueOnce(new Map());
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockResolvedValue([])
+        })
+      });
+
+      await expect(vitalsService.getHeartRateChartData(99, '7_days'))
+        .rejects.toMatchObject({ code: 'PATIENT_NOT_FOUND', statusCode: 404 });
+    });
   });
 
   describe('getBloodPressureChartData', () => {
-    it('should return blood pressure chart data for specified period', async () => {
-      const mockRecords = [
-        {
-          recordedAt: new Date('2024-01-15T08:00:00.000Z'),
-          systolic: 118,
-          diastolic: 78
-        },
-        {
-          recordedAt: new Date('2024-01-15T20:00:00.000Z'),
-          systolic: 125,
-          diastolic: 82
-        }
-      ];
-
+    function mockBucketRows(rows: any[]) {
       mockDb.select.mockReturnValue({
         from: jest.fn().mockReturnValue({
           where: jest.fn().mockReturnValue({
-            orderBy: jest.fn().mockResolvedValue(mockRecords)
+            groupBy: jest.fn().mockResolvedValue(rows)
           })
         })
       });
+    }
 
-      const result = await vitalsService.getBloodPressureChartData(1, '7_days');
+    it('should return systolic and diastolic stats per bucket', async () => {
+      mockBucketRows([
+        {
+          bucket: '2024-01-15',
+          count: 2,
+          systolic: { min: 118, max: 125, mean: 121.5 },
+          diastolic: { min: 78, max: 82, mean: 80 },
+        },
+      ]);
 
-      expect(mockDb.select).toHaveBeenCalled();
+      const result = await vitalsService.getBloodPressureChartData(1, 'custom', {
+        from: '2024-01-14',
+        to: '2024-01-15',
+        bucket: 'day',
+        fillGaps: false,
+      });
+
+      expect(mockDb.select.mock.calls[0][0]).toMatchObject({
+        systolic: { min: expect.anything(), max: expect.anything(), mean: expect.anything() },
+        diastolic: { min: expect.anything(), max: expect.anything(), mean: expect.anything() },
+      });
       expect(result).toEqual([
         {
-          recordedAt: new Date('2024-01-15T08:00:00.000Z'),
-          systolic: 118,
-          diastolic: 78
+          bucket: '2024-01-15',
+          start: new Date('2024-01-15T00:00:00.000Z'),
+          count: 2,
+          systolic: { min: 118, max: 125, mean: 121.5 },
+          diastolic: { min: 78, max: 82, mean: 80 },
+          category: 'stage_1',
         },
-        {
-          recordedAt: new Date('2024-01-15T20:00:00.000Z'),
-          systolic: 125,
-          diastolic: 82
-        }
       ]);
     });
-  });
 
-  describe('getWeightChartData', () => {
-    it('should return weight chart data for specified period', async () => {
-      const mockRecords = [
+    it('should match the chart contract, including gap-filled buckets', async () => {
+      mockBucketRows([
         {
-          recordedAt: new Date('2024-01-15T07:00:00.000Z'),
-          weightKg: 75.5
+          bucket: '2024-01-15',
+          count: 1,
+          systolic: { min: 130, max: 130, mean: 130 },
+          diastolic: { min: 85, max: 85, mean: 85 },
         },
-        {
-          recordedAt: new Date('2024-01-14T07:00:00.000Z'),
-          weightKg: 76.2
-        }
-      ];
+      ]);
+
+      const result = await vitalsService.getBloodPressureChartData(1, 'custom', {
+        from: '2024-01-14',
+        to: '2024-01-15',
+        bucket: 'day',
+        fillGaps: true,
+      });
 
+      expect(result[0]).toEqual({
+        bucket: '2024-01-14',
+        start: new Date('2024-01-14T00:00:00.000Z'),
+        count: 0,
+        systolic: { min: null, max: null, mean: null },
+        diastolic: { min: null, max: null, mean: null },
+        category: null,
+      });
+      expect(result[1].category).toBe('stage_1');
+      expect(bloodPressureChartDataSchema.safeParse(result).success).toBe(true);
+    });
+  });
+
+  describe('getBloodPressureSummary', () => {
+    function mockReadings(readings: any[]) {
       mockDb.select.mockReturnValue({
         from: jest.fn().mockReturnValue({
           where: jest.fn().mockReturnValue({
-            orderBy: jest.fn().mockResolvedValue(mockRecords)
+            orderBy: jest.fn().mockResolvedValue(readings)
           })
         })
       });
+    }
+
+    const readings = [
+      { id: 1, recordedAt: new Date('2024-01-14T08:00:00.000Z'), systolic: 115, diastolic: 75 },
+      { id: 2, recordedAt: new Date('2024-01-14T20:00:00.000Z'), systolic: 135, diastolic: 85 },
+      { id: 3, recordedAt: new Date('2024-01-15T08:00:00.000Z'), systolic: 185, diastolic: 105 },
+      { id: 4, recordedAt: new Date('2024-01-15T20:00:00.000Z'), systolic: 118, diastolic: 78 },
+    ];
+
+    it('should report the share of readings per category and flag crises', async () => {
+      mockReadings(readings);
+
+      const result = await vitalsService.getBloodPressureSummary(1, 'custom', { from: '2024-01-14', to: '2024-01-15' });
+
+      expect(result).toMatchObject({ guideline: 'acc_aha_2017', from: '2024-01-14', to: '2024-01-15', readings: 4 });
+      expect(result.categories).toEqual([
+        { category: 'normal', count: 2, share: 0.5 },
+        { category: 'elevated', count: 0, share: 0 },
+        { category: 'stage_1', count: 1, share: 0.25 },
+        { category: 'stage_2', count: 0, share: 0 },
+        { category: 'crisis', count: 1, share: 0.25 },
+      ]);
+      expect(result.crisisReadings).toEqual([readings[2]]);
+    });
 
-      const result = await vitalsService.getWeightChartData(1, '7_days');
+    it('should classify with the requested guideline', async () => {
+      mockReadings(readings);
 
-      expect(mockDb.select).toHaveBeenCalled();
+      const result = await vitalsService.getBloodPressureSummary(1, '7_days', { guideline: 'esc_esh_2018' });
+
+      expect(result.guideline).toBe('esc_esh_2018');
+      expect(result.categories.find(entry => entry.category === 'elevated')?.count).toBe(1);
+      expect(result.crisisReadings).toEqual([readings[2]]);
+    });
+  });
+
+  describe('getWeightChartData', () => {
+    it('should return weight stats per week', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            groupBy: jest.fn().mockResolvedValue([
+              { bucket: '2024-01-08', min: 75.5, max: 76.2, mean: 75.85, count: 2 },
+            ])
+          })
+        })
+      });
+
+      const result = await vitalsService.getWeightChartData(1, '7_days', {
+        to: '2024-01-14',
+        bucket: 'week',
+        fillGaps: false,
+        unit: 'kg',
+      });
+
+      expect(mockDb.select.mock.results[0].value.from).toHaveBeenCalledWith(weightRecords);
+      expect(result).toEqual([
+        { bucket: '2024-01-08', start: new Date('2024-01-08T00:00:00.000Z'), min: 75.5, max: 76.2, mean: 75.85, count: 2, unit: 'kg' },
+      ]);
+    });
+
+    it('should default to the patient\'s weight unit', async () => {
+      mockDb.select
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue([{ weightUnit: 'lb', glucoseUnit: 'mg/dL' }])
+            })
+          })
+        })
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              groupBy: jest.fn().mockResolvedValue([
+                { bucket: '2024-01-08', min: 75.5, max: 76.2, mean: 75.85, count: 2 },
+              ])
+            })
+          })
+        });
+
+      const result = await vitalsService.getWeightChartData(1, '7_days', {
+        to: '2024-01-14',
+        bucket: 'week',
+        fillGaps: false,
+      });
+
+      expect(result).toEqual([
+        { bucket: '2024-01-08', start: new Date('2024-01-08T00:00:00.000Z'), min: 166.45, max: 167.99, mean: 167.22, count: 2, unit: 'lb' },
+      ]);
+    });
+  });
+
+  describe('getMetricChartData', () => {
+    beforeAll(() => {
+      registerMetric({
+        type: 'peak_flow',
+        label: 'Peak flow',
+        value: z.object({ litresPerMinute: z.number() }),
+        fields: { litresPerMinute: { unit: 'L/min', min: 50, max: 900 } },
+        aggregation: 'stats',
+      });
+    });
+
+    it('should group each field\'s stats under values', async () => {
+      const where = jest.fn().mockReturnValue({
+        groupBy: jest.fn().mockResolvedValue([
+          { bucket: '2024-01-14', litresPerMinute: { min: 380, max: 440, mean: 410 }, count: 2 },
+        ])
+      });
+      mockDb.select.mockReturnValue({ from: jest.fn().mockReturnValue({ where }) });
+
+      const result = await vitalsService.getMetricChartData('peak_flow', 1, 'custom', {
+        from: '2024-01-13',
+        to: '2024-01-14',
+        bucket: 'day',
+        fillGaps: true,
+      });
+
+      expect(mockDb.select.mock.results[0].value.from).toHaveBeenCalledWith(healthMetrics);
       expect(result).toEqual([
         {
-          recordedAt: new Date('2024-01-15T07:00:00.000Z'),
-          weightKg: 75.5
+          bucket: '2024-01-13',
+          start: new Date('2024-01-13T00:00:00.000Z'),
+          count: 0,
+          values: { litresPerMinute: { min: null, max: null, mean: null } },
+          units: { litresPerMinute: 'L/min' },
         },
         {
-          recordedAt: new Date('2024-01-14T07:00:00.000Z'),
-          weightKg: 76.2
-        }
+          bucket: '2024-01-14',
+          start: new Date('2024-01-14T00:00:00.000Z'),
+          count: 2,
+          values: { litresPerMinute: { min: 380, max: 440, mean: 410 } },
+          units: { litresPerMinute: 'L/min' },
+        },
       ]);
     });
+
+    it('should convert fields to the requested unit', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            groupBy: jest.fn().mockResolvedValue([
+              { bucket: '2024-01-08', glucose: { min: 90, max: 180.2, mean: 135.1 }, count: 2 },
+            ])
+          })
+        })
+      });
+
+      const result = await vitalsService.getMetricChartData('blood_glucose', 1, '7_days', {
+        to: '2024-01-14',
+        bucket: 'week',
+        fillGaps: false,
+        unit: 'mmol/L',
+      });
+
+      expect(result[0].values.glucose).toEqual({ min: 5, max: 10, mean: 7.5 });
+      expect(result[0].units).toEqual({ glucose: 'mmol/L' });
+    });
+
+    it('should reject a unit no field can be charted in', async () => {
+      await expect(vitalsService.getMetricChartData('blood_glucose', 1, '7_days', {
+        bucket: 'day',
+        fillGaps: false,
+        unit: 'kg',
+      })).rejects.toMatchObject({ code: 'INVALID_UNIT', statusCode: 400 });
+    });
+
+    it('should only filter by a context the metric records', async () => {
+      await expect(vitalsService.getMetricChartData('peak_flow', 1, '7_days', {
+        bucket: 'day',
+        fillGaps: false,
+        context: 'fasting',
+      })).rejects.toMatchObject({ code: 'INVALID_CONTEXT', statusCode: 400 });
+
+      await expect(vitalsService.getMetricChartData('blood_glucose', 1, '7_days', {
+        bucket: 'day',
+        fillGaps: false,
+        context: 'at_lunch',
+      })).rejects.toMatchObject({ code: 'INVALID_CONTEXT', statusCode: 400 });
+    });
+
+    it('should throw a 404 VitalsError for an unregistered metric', async () => {
+      await expect(vitalsService.getMetricChartData('unknown', 1, '7_days'))
+        .rejects.toMatchObject({ code: 'UNKNOWN_METRIC', statusCode: 404 });
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
   });
 
   describe('getHeartRateReadings', () => {
@@ -583,117 +1255,126 @@ describe('VitalsService', () => {
     });
   });
 
-  describe('upsertHeartRateAggregate', () => {
-    it('should create new aggregate when none exists', async () => {
-      const mockInsertResult = [{
-        id: 1,
-        patientId: 1,
-        date: '2024-01-15',
-        bpmMin: 58,
-        bpmMax: 145,
-        bpmMinRecordedAt: new Date('2024-01-15T06:00:00.000Z'),
-        bpmMaxRecordedAt: new Date('2024-01-15T18:00:00.000Z'),
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }];
+  describe('upsertHeartRateAggregates', () => {
+    it('should upsert every day in one statement conflicting on patient and date', async () => {
+      const returning = jest.fn().mockResolvedValue([{ id: 1 }, { id: 2 }]);
+      const onConflictDoUpdate = jest.fn().mockReturnValue({ returning });
+      const values = jest.fn().mockReturnValue({ onConflictDoUpdate });
+      mockDb.insert.mockReturnValue({ values });
+
+      // Six readings in the 3am hour, enough for a resting estimate
+      const hourlyBpmSum = new Array(24).fill(0);
+      const hourlyBpmCount = new Array(24).fill(0);
+      hourlyBpmSum[3] = 351;
+      hourlyBpmCount[3] = 6;
+      const totals = { bpmSum: 351, bpmCount: 6, hourlyBpmSum, hourlyBpmCount };
+
+      const result = await vitalsService.upsertHeartRateAggregates([
+        {
+          patientId: 1,
+          date: '2024-01-15',
+          bpmMin: 58,
+          bpmMinRecordedAt: new Date('2024-01-15T06:00:00.000Z'),
+          bpmMax: 145,
+          bpmMaxRecordedAt: new Date('2024-01-15T18:00:00.000Z'),
+          ...totals,
+        },
+        {
+          patientId: 2,
+          date: '2024-01-15',
+          bpmMin: 60,
+          bpmMinRecordedAt: new Date('2024-01-15T07:00:00.000Z'),
+          bpmMax: 120,
+          bpmMaxRecordedAt: new Date('2024-01-15T17:00:00.000Z'),
+          bpmSum: 0,
+          bpmCount: 0,
+          hourlyBpmSum: new Array(24).fill(0),
+          hourlyBpmCount: new Array(24).fill(0),
+        },
+      ]);
 
-      mockDb.select.mockReturnValue({
-        from: jest.fn().mockReturnValue({
-          where: jest.fn().mockReturnValue([])
-        })
-      });
+      expect(mockDb.insert).toHaveBeenCalledTimes(1);
+      expect(mockDb.insert).toHaveBeenCalledWith(heartRateAggregates);
+      expect(values.mock.calls[0][0]).toHaveLength(2);
+      expect(values.mock.calls[0][0][0].bpmRestingEstimate).toBe(58.5);
+      expect(values.mock.calls[0][0][1].bpmRestingEstimate).toBeNull();
+      expect(onConflictDoUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        target: [heartRateAggregates.patientId, heartRateAggregates.date],
+      }));
+      expect(result).toHaveLength(2);
+    });
 
-      mockDb.insert.mockReturnValue({
-        values: jest.fn().mockReturnValue({
-          returning: jest.fn().mockResolvedValue(mockInsertResult)
-        })
-      });
+    it('should not query the database for an empty batch', async () => {
+      const result = await vitalsService.upsertHeartRateAggregates([]);
 
-      const result = await vitalsService['upsertHeartRateAggregate'](
-        1,
-        '2024-01-15',
-        58,
-        new Date('2024-01-15T06:00:00.000Z'),
-        145,
-        new Date('2024-01-15T18:00:00.000Z')
-      );
+      expect(result).toEqual([]);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
 
-      expect(mockDb.insert).toHaveBeenCalledWith(heartRateAggregates);
-      expect(result).toEqual(mockInsertResult[0]);
+  describe('getDateRange', () => {
+    afterEach(() => {
+      jest.useRealTimers();
     });
 
-    it('should update existing aggregate when one exists', async () => {
-      const mockUpdateResult = [{
-        id: 1,
-        patientId: 1,
-        date: '2024-01-15',
-        bpmMin: 55,
-        bpmMax: 150,
-        bpmMinRecordedAt: new Date('2024-01-15T05:00:00.000Z'),
-        bpmMaxRecordedAt: new Date('2024-01-15T19:00:00.000Z'),
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }];
+    it('should start 7 days ago at local midnight', () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
 
-      mockDb.select.mockReturnValue({
-        from: jest.fn().mockReturnValue({
-          where: jest.fn().mockReturnValue([{ id: 1 }])
-        })
-      });
+      const result = vitalsService['getDateRange']('7_days', 'UTC');
 
-      mockDb.update.mockReturnValue({
-        set: jest.fn().mockReturnValue({
-          where: jest.fn().mockReturnValue({
-            returning: jest.fn().mockResolvedValue(mockUpdateResult)
-          })
-        })
-      });
+      expect(result.startDate).toEqual(new Date('2024-01-08T00:00:00.000Z'));
+      expect(result.startDay).toBe('2024-01-08');
+      // Today is included in full
+      expect(result.endDay).toBe('2024-01-15');
+      expect(result.endDate).toEqual(new Date('2024-01-16T00:00:00.000Z'));
+    });
 
-      const result = await vitalsService['upsertHeartRateAggregate'](
-        1,
-        '2024-01-15',
-        55,
-        new Date('2024-01-15T05:00:00.000Z'),
-        150,
-        new Date('2024-01-15T19:00:00.000Z')
-      );
+    it('should count a preset back from `to`', () => {
+      const result = vitalsService['getDateRange']('7_days', 'UTC', { to: '2024-03-10' });
 
-      expect(mockDb.update).toHaveBeenCalledWith(heartRateAggregates);
-      expect(result).toEqual(mockUpdateResult[0]);
+      expect(result.startDay).toBe('2024-03-03');
+      expect(result.endDate).toEqual(new Date('2024-03-11T00:00:00.000Z'));
     });
-  });
 
-  describe('getDateRange', () => {
-    it('should return correct date range for 7 days', () => {
-      const mockDate = new Date('2024-01-15T12:00:00.000Z');
-      jest.spyOn(global, 'Date').mockImplementation(() => mockDate as any);
+    it('should span `from` to `to` for the custom period', () => {
+      const result = vitalsService['getDateRange']('custom', 'UTC', { from: '2024-02-01', to: '2024-02-29' });
 
-      const result = vitalsService['getDateRange']('7_days');
+      expect(result.startDate).toEqual(new Date('2024-02-01T00:00:00.000Z'));
+      expect(result.endDate).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+    });
 
-      expect(result.startDate).toEqual(new Date('2024-01-08T12:00:00.000Z'));
-      expect(result.endDate).toEqual(mockDate);
+    it('should reject `from` without the custom period, and custom without `from`', () => {
+      expect(() => vitalsService['getDateRange']('custom', 'UTC', { to: '2024-02-29' }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_DATE_RANGE', statusCode: 400 }));
+      expect(() => vitalsService['getDateRange']('31_days', 'UTC', { from: '2024-02-01' }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_DATE_RANGE', statusCode: 400 }));
     });
 
     it('should return correct date range for 31 days', () => {
-      const mockDate = new Date('2024-01-15T12:00:00.000Z');
-      jest.spyOn(global, 'Date').mockImplementation(() => mockDate as any);
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
 
-      const result = vitalsService['getDateRange']('31_days');
+      const result = vitalsService['getDateRange']('31_days', 'UTC');
 
-      expect(result.startDate).toEqual(new Date('2023-12-15T12:00:00.000Z'));
-      expect(result.endDate).toEqual(mockDate);
+      expect(result.startDate).toEqual(new Date('2023-12-15T00:00:00.000Z'));
     });
 
     it('should return correct date range for 12 months', () => {
-      const mockDate = new Date('2024-01-15T12:00:00.000Z');
-      jest.spyOn(global, 'Date').mockImplementation(() => mockDate as any);
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
 
-      const result = vitalsService['getDateRange']('12_months');
+      const result = vitalsService['getDateRange']('12_months', 'UTC');
 
-      expect(result.startDate).toEqual(new Date('2023-01-15T12:00:00.000Z'));
-      expect(result.endDate).toEqual(mockDate);
+      expect(result.startDate).toEqual(new Date('2023-01-15T00:00:00.000Z'));
     });
-  });
 
+    it('should count days on the patient\'s local calendar', () => {
+      // Still the evening of the 14th in New York
+      jest.useFakeTimers().setSystemTime(new Date('2024-01-15T03:00:00.000Z'));
+
+      const result = vitalsService['getDateRange']('7_days', 'America/New_York');
+
+      expect(result.startDay).toBe('2024-01-07');
+      expect(result.startDate).toEqual(new Date('2024-01-07T05:00:00.000Z'));
+    });
+  });
 
 });
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { startWorker } from '../../worker';
+import { testConnection } from '../../db/connection';
+import { redisRepository } from '../../db/redis-repository';
+import { QueueWorker } from '../../queue/worker';
+
+jest.mock('../../db/connection', () => ({
+  testConnection: jest.fn(),
+  closeConnection: jest.fn(),
+}));
+
+jest.mock('../../db/redis-repository', () => ({
+  redisRepository: {
+    testConnection: jest.fn(),
+    disconnect: jest.fn(),
+  },
+}));
+
+jest.mock('../../queue/worker', () => ({
+  QueueWorker: jest.fn().mockImplementation(() => ({
+    start: jest.fn().mockResolvedValue(undefined),
+    stop: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock('../../queue/queue-config', () => ({
+  workerConfig: { concurrency: 4 },
+}));
+
+describe('startWorker', () => {
+  const mockTestConnection = testConnection as jest.Mock;
+  const mockRedis = redisRepository as any;
+  const MockQueueWorker = QueueWorker as unknown as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTestConnection.mockResolvedValue(true);
+    mockRedis.testConnection.mockResolvedValue(true);
+  });
+
+  it('should not build the worker on import', () => {
+    expect(MockQueueWorker).not.toHaveBeenCalled();
+  });
+
+  it('should build and start the worker once the database and Redis are reachable', async () => {
+    const worker = await startWorker();
+
+    expect(MockQueueWorker).toHaveBeenCalledWith({ concurrency: 4 });
+    expect(worker.start).toHaveBeenCalled();
+    expect(mockTestConnection.mock.invocationCallOrder[0]).toBeLessThan(MockQueueWorker.mock.invocationCallOrder[0]);
+    expect(mockRedis.testConnection.mock.invocationCallOrder[0]).toBeLessThan(MockQueueWorker.mock.invocationCallOrder[0]);
+  });
+
+  it('should not build the worker when the database is unreachable', async () => {
+    mockTestConnection.mockResolvedValue(false);
+
+    await expect(startWorker()).rejects.toThrow('Failed to connect to database');
+    expect(mockRedis.testConnection).not.toHaveBeenCalled();
+    expect(MockQueueWorker).not.toHaveBeenCalled();
+  });
+
+  it('should not build the worker when Redis is unreachable', async () => {
+    mockRedis.testConnection.mockResolvedValue(false);
+
+    await expect(startWorker()).rejects.toThrow('Failed to connect to Redis');
+    expect(MockQueueWorker).not.toHaveBeenCalled();
+  });
+});
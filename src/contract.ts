@@ -4,22 +4,103 @@ import {
   healthResponseSchema,
   errorResponseSchema,
   patientIdAndPeriodParamSchema,
+  heartRateChartQuerySchema,
+  heartRateRecordsQuerySchema,
+  heartRateContextSchema,
+  bloodPressureChartQuerySchema,
+  bloodPressureSummaryQuerySchema,
+  bloodPressureSummarySchema,
 
   postHeartRateDataSchema,
+  heartRateAcceptedResponseSchema,
+  vitalsIngestionHeadersSchema,
+  vitalsAcceptedResponseSchema,
+  postVitalsBatchSchema,
+  vitalsBatchResponseSchema,
+  receiptIdParamSchema,
+  ingestionReceiptSchema,
   postBloodPressureDataSchema,
   postWeightDataSchema,
+  readingParamSchema,
+  recordIdParamSchema,
+  amendHeartRateReadingSchema,
+  amendBloodPressureReadingSchema,
+  amendWeightReadingSchema,
+  voidReadingSchema,
+  vitalsReadingAuditSchema,
+  readingCorrectionResponseSchema,
   
   heartRateChartDataSchema,
   bloodPressureChartDataSchema,
   weightChartDataSchema,
+  weightChartQuerySchema,
+  postMetricDataSchema,
+  metricParamSchema,
+  patientIdMetricAndPeriodParamSchema,
+  metricDefinitionSchema,
+  metricChartDataSchema,
+  metricChartQuerySchema,
+
+  queueStatsSchema,
+  batchStatusSchema,
+  queueJobSummarySchema,
+  queueJobIdsSchema,
+  failedQueueJobsSchema,
+  queueKindQuerySchema,
+  rebuildHeartRateAggregatesSchema,
+  heartRateAggregateRebuildReportSchema,
+  aggregateRebuildJobSchema,
+  workerStatusSchema,
+  jobIdParamSchema,
+  updateBatchSizeSchema,
+  heartRateDeadLetterSchema,
+  listDeadLettersQuerySchema,
+  replayDeadLettersSchema,
+  deadLetterIdParamSchema,
+  deviceIdParamSchema,
+  deviceTokenParamSchema,
+  registerDeviceSchema,
+  updateDeviceSchema,
+  listDevicesQuerySchema,
+  deviceSchema,
+  deviceTokenSchema,
+  issuedDeviceTokenSchema,
 
   insertPatientSchema,
   selectPatientSchema,
+  updatePatientSchema,
+  patientIdParamSchema,
+  listPatientsQuerySchema,
+  patientListResponseSchema,
 
 } from './db/schema';
 
 const c = initContract();
 
+// Admin routes are guarded by `requireAdminApiKey` in server.ts
+const adminHeadersSchema = z.object({
+  'x-admin-api-key': z.string(),
+});
+
+const adminErrorResponses = {
+  401: errorResponseSchema,
+  403: errorResponseSchema,
+  500: errorResponseSchema,
+};
+
+// Refused device tokens (see middleware/device-auth.ts)
+const deviceAuthErrorResponses = {
+  401: errorResponseSchema,
+  403: errorResponseSchema,
+};
+
+const readingCorrectionErrorResponses = {
+  400: errorResponseSchema,
+  404: errorResponseSchema,
+  409: errorResponseSchema,
+  ...adminErrorResponses,
+};
+
 export const contract = c.router({
   health: {
     method: 'GET',
@@ -43,77 +124,296 @@ export const contract = c.router({
     summary: 'Create a new patient',
   },
 
+  listPatients: {
+    method: 'GET',
+    path: '/patients',
+    query: listPatientsQuerySchema,
+    responses: {
+      200: patientListResponseSchema,
+      400: errorResponseSchema,
+      500: errorResponseSchema,
+    },
+    summary: 'List patients with pagination and optional name/email search',
+  },
+
+  getPatient: {
+    method: 'GET',
+    path: '/patients/:patientId',
+    pathParams: patientIdParamSchema,
+    responses: {
+      200: selectPatientSchema,
+      404: errorResponseSchema,
+      500: errorResponseSchema,
+    },
+    summary: 'Get a patient by ID',
+  },
+
+  updatePatient: {
+    method: 'PATCH',
+    path: '/patients/:patientId',
+    pathParams: patientIdParamSchema,
+    body: updatePatientSchema,
+    responses: {
+      200: selectPatientSchema,
+      400: errorResponseSchema,
+      404: errorResponseSchema,
+      409: errorResponseSchema,
+      500: errorResponseSchema,
+    },
+    summary: 'Update a patient',
+  },
+
+  deletePatient: {
+    method: 'DELETE',
+    path: '/patients/:patientId',
+    pathParams: patientIdParamSchema,
+    body: c.noBody(),
+    responses: {
+      200: z.object({ message: z.string() }),
+      404: errorResponseSchema,
+      500: errorResponseSchema,
+    },
+    summary: 'Delete a patient and all of their vitals',
+  },
+
  
   postHeartRate: {
     method: 'POST',
     path: '/vitals/heart-rate',
+    headers: vitalsIngestionHeadersSchema,
     body: postHeartRateDataSchema,
     responses: {
-      201: z.object({ message: z.string() }),
+      200: heartRateAcceptedResponseSchema,
+      201: heartRateAcceptedResponseSchema,
+      202: heartRateAcceptedResponseSchema,
       400: errorResponseSchema,
+      404: errorResponseSchema,
+      ...deviceAuthErrorResponses,
       500: errorResponseSchema,
     },
-    summary: 'Post heart rate data (Redis + conditional DB aggregation)',
+    summary: 'Post heart rate data (202 with an ingestion receipt when queued, 201 when stored directly; 200 if it is a duplicate)',
+  },
+
+  getIngestionReceipt: {
+    method: 'GET',
+    path: '/ingestion/:receiptId',
+    pathParams: receiptIdParamSchema,
+    responses: {
+      200: ingestionReceiptSchema,
+      404: errorResponseSchema,
+      500: errorResponseSchema,
+    },
+    summary: 'Get the processing status of a queued vitals reading',
   },
 
   postBloodPressure: {
     method: 'POST',
     path: '/vitals/blood-pressure',
+    headers: vitalsIngestionHeadersSchema,
     body: postBloodPressureDataSchema,
     responses: {
-      201: z.object({ message: z.string() }),
+      200: vitalsAcceptedResponseSchema,
+      201: vitalsAcceptedResponseSchema,
+      202: vitalsAcceptedResponseSchema,
       400: errorResponseSchema,
+      404: errorResponseSchema,
+      ...deviceAuthErrorResponses,
       500: errorResponseSchema,
     },
-    summary: 'Post blood pressure data (stored directly in SQL)',
+    summary: 'Post blood pressure data (201 when stored directly, 202 with an ingestion receipt when queued; 200 if it is a duplicate)',
   },
 
   postWeight: {
     method: 'POST',
     path: '/vitals/weight',
+    headers: vitalsIngestionHeadersSchema,
     body: postWeightDataSchema,
     responses: {
-      201: z.object({ message: z.string() }),
+      200: vitalsAcceptedResponseSchema,
+      201: vitalsAcceptedResponseSchema,
+      202: vitalsAcceptedResponseSchema,
       400: errorResponseSchema,
+      404: errorResponseSchema,
+      ...deviceAuthErrorResponses,
+      500: errorResponseSchema,
+    },
+    summary: 'Post weight data (201 when stored directly, 202 with an ingestion receipt when queued; 200 if it is a duplicate)',
+  },
+
+  listMetrics: {
+    method: 'GET',
+    path: '/metrics',
+    responses: {
+      200: z.array(metricDefinitionSchema),
+      500: errorResponseSchema,
+    },
+    summary: 'List the registry metrics accepted by the generic metric routes, with their units and ranges',
+  },
+
+  postMetric: {
+    method: 'POST',
+    path: '/vitals/metrics/:metric',
+    pathParams: metricParamSchema,
+    headers: vitalsIngestionHeadersSchema,
+    body: postMetricDataSchema,
+    responses: {
+      200: vitalsAcceptedResponseSchema,
+      201: vitalsAcceptedResponseSchema,
+      400: errorResponseSchema,
+      404: errorResponseSchema,
+      ...deviceAuthErrorResponses,
       500: errorResponseSchema,
     },
-    summary: 'Post weight data (stored directly in SQL)',
+    summary: 'Post a reading of a registry metric (201 when stored; 200 if it is a duplicate)',
+  },
+
+  postVitalsBatch: {
+    method: 'POST',
+    path: '/vitals/batch',
+    headers: vitalsIngestionHeadersSchema,
+    body: postVitalsBatchSchema,
+    responses: {
+      200: vitalsBatchResponseSchema,
+      400: errorResponseSchema,
+      ...deviceAuthErrorResponses,
+      500: errorResponseSchema,
+    },
+    summary: 'Post a mixed batch of heart rate, blood pressure and weight readings with per-item results',
+  },
+
+  amendHeartRateReading: {
+    method: 'PATCH',
+    path: '/admin/vitals/heart-rate/:recordId',
+    headers: adminHeadersSchema,
+    pathParams: recordIdParamSchema,
+    body: amendHeartRateReadingSchema,
+    responses: {
+      200: readingCorrectionResponseSchema,
+      ...readingCorrectionErrorResponses,
+    },
+    summary: 'Amend a stored heart rate reading (the original value is kept in its audit trail)',
+  },
+
+  amendBloodPressureReading: {
+    method: 'PATCH',
+    path: '/admin/vitals/blood-pressure/:recordId',
+    headers: adminHeadersSchema,
+    pathParams: recordIdParamSchema,
+    body: amendBloodPressureReadingSchema,
+    responses: {
+      200: readingCorrectionResponseSchema,
+      ...readingCorrectionErrorResponses,
+    },
+    summary: 'Amend a stored blood pressure reading (the original value is kept in its audit trail)',
+  },
+
+  amendWeightReading: {
+    method: 'PATCH',
+    path: '/admin/vitals/weight/:recordId',
+    headers: adminHeadersSchema,
+    pathParams: recordIdParamSchema,
+    body: amendWeightReadingSchema,
+    responses: {
+      200: readingCorrectionResponseSchema,
+      ...readingCorrectionErrorResponses,
+    },
+    summary: 'Amend a stored weight reading (the original value is kept in its audit trail)',
+  },
+
+  voidReading: {
+    method: 'POST',
+    path: '/admin/vitals/:type/:recordId/void',
+    headers: adminHeadersSchema,
+    pathParams: readingParamSchema,
+    body: voidReadingSchema,
+    responses: {
+      200: readingCorrectionResponseSchema,
+      ...readingCorrectionErrorResponses,
+    },
+    summary: 'Void a stored reading (`type` is heart-rate, blood-pressure or weight); it is hidden from charts but kept',
+  },
+
+  getReadingAudit: {
+    method: 'GET',
+    path: '/admin/vitals/:type/:recordId/audit',
+    headers: adminHeadersSchema,
+    pathParams: readingParamSchema,
+    responses: {
+      200: z.array(vitalsReadingAuditSchema),
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Amendments and voids of a stored reading, newest first',
   },
 
   getHeartRateChart: {
     method: 'GET',
     path: '/patients/:patientId/heart-rate/:period',
     pathParams: patientIdAndPeriodParamSchema,
+    query: heartRateChartQuerySchema,
     responses: {
-      200: heartRateChartDataSchema,  
+      200: heartRateChartDataSchema,
+      400: errorResponseSchema,
       404: errorResponseSchema,
       500: errorResponseSchema,
     },
-    summary: 'Get heart rate chart data for specified period (aggregated from Redis min/max)',
+    summary: 'Get heart rate min/max/mean/count per bucket for a period or `from`/`to` range',
   },
 
   getBloodPressureChart: {
     method: 'GET',
     path: '/patients/:patientId/blood-pressure/:period',
     pathParams: patientIdAndPeriodParamSchema,
+    query: bloodPressureChartQuerySchema,
     responses: {
       200: bloodPressureChartDataSchema,
+      400: errorResponseSchema,
+      404: errorResponseSchema,
+      500: errorResponseSchema,
+    },
+    summary: 'Get systolic and diastolic min/max/mean, count and category per bucket for a period or `from`/`to` range',
+  },
+
+  getMetricChart: {
+    method: 'GET',
+    path: '/patients/:patientId/metrics/:metric/:period',
+    pathParams: patientIdMetricAndPeriodParamSchema,
+    query: metricChartQuerySchema,
+    responses: {
+      200: metricChartDataSchema,
+      400: errorResponseSchema,
+      404: errorResponseSchema,
+      500: errorResponseSchema,
+    },
+    summary: 'Get a registry metric per bucket, each field summarised by the metric\'s aggregation',
+  },
+
+  getBloodPressureSummary: {
+    method: 'GET',
+    path: '/patients/:patientId/blood-pressure/summary/:period',
+    pathParams: patientIdAndPeriodParamSchema,
+    query: bloodPressureSummaryQuerySchema,
+    responses: {
+      200: bloodPressureSummarySchema,
+      400: errorResponseSchema,
       404: errorResponseSchema,
       500: errorResponseSchema,
     },
-    summary: 'Get blood pressure chart data for specified period',
+    summary: 'Get the share of blood pressure readings per category and any crisis readings',
   },
 
   getWeightChart: {
     method: 'GET',
     path: '/patients/:patientId/weight/:period',
     pathParams: patientIdAndPeriodParamSchema,
+    query: weightChartQuerySchema,
     responses: {
       200: weightChartDataSchema,
+      400: errorResponseSchema,
       404: errorResponseSchema,
       500: errorResponseSchema,
     },
-    summary: 'Get weight chart data for specified period',
+    summary: 'Get weight min/max/mean/count per bucket for a period or `from`/`to` range',
   },
 
 
@@ -121,22 +421,335 @@ export const contract = c.router({
     method: 'GET',
     path: '/patients/:patientId/heart-rate/records/:period',
     pathParams: patientIdAndPeriodParamSchema,
+    query: heartRateRecordsQuerySchema,
     responses: {
       200: z.array(z.object({
         id: z.number(),
         patientId: z.number(),
         bpm: z.number(),
         recordedAt: z.date(),
+        timestampFlag: z.string().nullable(),
+        context: heartRateContextSchema.nullable(),
+        deviceId: z.number().nullable(),
         createdAt: z.date(),
       })),
+      400: errorResponseSchema,
       404: errorResponseSchema,
       500: errorResponseSchema,
     },
     summary: 'Get raw heart rate records for analysis (not shown to patients)',
   },
 
+  getQueueStats: {
+    method: 'GET',
+    path: '/admin/queue/stats',
+    headers: adminHeadersSchema,
+    responses: {
+      200: queueStatsSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Job counts for every vitals queue and this instance\'s batch buffer status',
+  },
 
-  
+  getBatchStatus: {
+    method: 'GET',
+    path: '/admin/queue/batch',
+    headers: adminHeadersSchema,
+    query: queueKindQuerySchema,
+    responses: {
+      200: batchStatusSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Status of this instance\'s pending batch for one vitals kind (default heart_rate)',
+  },
+
+  flushBatch: {
+    method: 'POST',
+    path: '/admin/queue/batch/flush',
+    headers: adminHeadersSchema,
+    query: queueKindQuerySchema,
+    body: c.noBody(),
+    responses: {
+      200: batchStatusSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Force this instance\'s pending batch for one vitals kind into its queue',
+  },
+
+  updateBatchSize: {
+    method: 'PUT',
+    path: '/admin/queue/batch/size',
+    headers: adminHeadersSchema,
+    query: queueKindQuerySchema,
+    body: updateBatchSizeSchema,
+    responses: {
+      200: batchStatusSchema,
+      400: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Change the batch size of one vitals kind for this instance',
+  },
+
+  getWorkerStatus: {
+    method: 'GET',
+    path: '/admin/queue/worker',
+    headers: adminHeadersSchema,
+    responses: {
+      200: workerStatusSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Status of the queue worker embedded in this instance, if any',
+  },
+
+  getFailedJobs: {
+    method: 'GET',
+    path: '/admin/queue/jobs/failed',
+    headers: adminHeadersSchema,
+    responses: {
+      200: failedQueueJobsSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'List failed batch jobs in every vitals queue',
+  },
+
+  retryFailedJobs: {
+    method: 'POST',
+    path: '/admin/queue/jobs/failed/retry',
+    headers: adminHeadersSchema,
+    body: c.noBody(),
+    responses: {
+      200: queueJobIdsSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Retry every failed batch job in every vitals queue',
+  },
+
+  cleanOldJobs: {
+    method: 'POST',
+    path: '/admin/queue/jobs/clean',
+    headers: adminHeadersSchema,
+    body: c.noBody(),
+    responses: {
+      200: queueJobIdsSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Remove completed batch jobs older than 24 hours',
+  },
+
+  getQueueJob: {
+    method: 'GET',
+    path: '/admin/queue/jobs/:jobId',
+    headers: adminHeadersSchema,
+    pathParams: jobIdParamSchema,
+    responses: {
+      200: queueJobSummarySchema,
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Inspect a vitals batch job (kind, state, readings, attempts, error)',
+  },
+
+  retryQueueJob: {
+    method: 'POST',
+    path: '/admin/queue/jobs/:jobId/retry',
+    headers: adminHeadersSchema,
+    pathParams: jobIdParamSchema,
+    body: c.noBody(),
+    responses: {
+      200: queueJobSummarySchema,
+      404: errorResponseSchema,
+      409: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Retry a single failed vitals batch job',
+  },
+
+  discardQueueJob: {
+    method: 'DELETE',
+    path: '/admin/queue/jobs/:jobId',
+    headers: adminHeadersSchema,
+    pathParams: jobIdParamSchema,
+    body: c.noBody(),
+    responses: {
+      200: z.object({ message: z.string() }),
+      404: errorResponseSchema,
+      409: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Discard a vitals batch job and mark its readings as failed',
+  },
+
+  listHeartRateDeadLetters: {
+    method: 'GET',
+    path: '/admin/dead-letters/heart-rate',
+    headers: adminHeadersSchema,
+    query: listDeadLettersQuerySchema,
+    responses: {
+      200: z.object({
+        data: z.array(heartRateDeadLetterSchema),
+        total: z.number(),
+      }),
+      ...adminErrorResponses,
+    },
+    summary: 'List heart rate readings rejected by the batch processor, with the reason',
+  },
+
+  replayHeartRateDeadLetters: {
+    method: 'POST',
+    path: '/admin/dead-letters/heart-rate/replay',
+    headers: adminHeadersSchema,
+    body: replayDeadLettersSchema,
+    responses: {
+      200: z.object({
+        replayed: z.number(),
+        jobIds: z.array(z.string()),
+      }),
+      400: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Re-enqueue dead-lettered heart rate readings (the given ids, or the oldest 1000)',
+  },
+
+  discardHeartRateDeadLetter: {
+    method: 'DELETE',
+    path: '/admin/dead-letters/heart-rate/:deadLetterId',
+    headers: adminHeadersSchema,
+    pathParams: deadLetterIdParamSchema,
+    body: c.noBody(),
+    responses: {
+      200: z.object({ message: z.string() }),
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Permanently discard a dead-lettered heart rate reading',
+  },
+
+  registerDevice: {
+    method: 'POST',
+    path: '/admin/devices',
+    headers: adminHeadersSchema,
+    body: registerDeviceSchema,
+    responses: {
+      201: deviceSchema,
+      400: errorResponseSchema,
+      404: errorResponseSchema,
+      409: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Register a device, optionally bound to a patient',
+  },
+
+  listDevices: {
+    method: 'GET',
+    path: '/admin/devices',
+    headers: adminHeadersSchema,
+    query: listDevicesQuerySchema,
+    responses: {
+      200: z.array(deviceSchema),
+      400: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'List devices, optionally those bound to one patient',
+  },
+
+  getDevice: {
+    method: 'GET',
+    path: '/admin/devices/:deviceId',
+    headers: adminHeadersSchema,
+    pathParams: deviceIdParamSchema,
+    responses: {
+      200: deviceSchema,
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Get a device with its binding, firmware and last-seen time',
+  },
+
+  updateDevice: {
+    method: 'PATCH',
+    path: '/admin/devices/:deviceId',
+    headers: adminHeadersSchema,
+    pathParams: deviceIdParamSchema,
+    body: updateDeviceSchema,
+    responses: {
+      200: deviceSchema,
+      400: errorResponseSchema,
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Rename a device or bind it to another patient (`patientId: null` unbinds it); rebinding revokes its tokens',
+  },
+
+  listDeviceTokens: {
+    method: 'GET',
+    path: '/admin/devices/:deviceId/tokens',
+    headers: adminHeadersSchema,
+    pathParams: deviceIdParamSchema,
+    responses: {
+      200: z.array(deviceTokenSchema),
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'List a device\'s tokens, active and revoked',
+  },
+
+  issueDeviceToken: {
+    method: 'POST',
+    path: '/admin/devices/:deviceId/tokens',
+    headers: adminHeadersSchema,
+    pathParams: deviceIdParamSchema,
+    body: c.noBody(),
+    responses: {
+      201: issuedDeviceTokenSchema,
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Issue a device token (returned only in this response)',
+  },
+
+  revokeDeviceToken: {
+    method: 'DELETE',
+    path: '/admin/devices/:deviceId/tokens/:tokenId',
+    headers: adminHeadersSchema,
+    pathParams: deviceTokenParamSchema,
+    body: c.noBody(),
+    responses: {
+      200: deviceTokenSchema,
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Revoke a device token',
+  },
+
+  rebuildHeartRateAggregates: {
+    method: 'POST',
+    path: '/admin/aggregates/heart-rate/rebuild',
+    headers: adminHeadersSchema,
+    body: rebuildHeartRateAggregatesSchema,
+    responses: {
+      200: heartRateAggregateRebuildReportSchema,
+      202: z.object({
+        message: z.string(),
+        jobId: z.string(),
+      }),
+      400: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Recompute daily heart rate aggregates from raw records (a single patient\'s dry run returns the diff; otherwise queues a rebuild job)',
+  },
+
+  getHeartRateAggregateRebuild: {
+    method: 'GET',
+    path: '/admin/aggregates/heart-rate/rebuild/:jobId',
+    headers: adminHeadersSchema,
+    pathParams: jobIdParamSchema,
+    responses: {
+      200: aggregateRebuildJobSchema,
+      404: errorResponseSchema,
+      ...adminErrorResponses,
+    },
+    summary: 'Progress and report of a heart rate aggregate rebuild job',
+  },
 });
 
 export type Contract = typeof contract;
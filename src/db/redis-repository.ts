@@ -1,4 +1,11 @@
 import Redis from 'ioredis';
+import { addDays, startOfLocalDay, DEFAULT_TIME_ZONE } from '../utils/time-zone';
+import {
+  emptyHeartRateTotals,
+  restingHeartRateEstimate,
+  HOURS_PER_DAY,
+  type HeartRateTotals,
+} from '../utils/heart-rate';
 
 export interface HeartRateAggregate {
   min: number;
@@ -7,9 +14,68 @@ export interface HeartRateAggregate {
   maxTime: string;
 }
 
+// A day's cached extremes and totals, with the resting estimate they give
+export interface HeartRateDailyCache extends HeartRateAggregate, HeartRateTotals {
+  restingEstimate: number | null;
+}
+
+export type IngestionReceiptStatus = 'buffered' | 'queued' | 'processed' | 'failed';
+
+export interface IngestionReceipt {
+  receiptId: string;
+  status: IngestionReceiptStatus;
+  jobId?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+// KEYS[1] = daily hash; ARGV = min, minTime, max, maxTime, ttlSeconds, sum,
+// count, then hour, sum, count for each hour with readings. Ties keep the
+// cached extreme and its time; the totals are added to the cached ones.
+const MERGE_DAILY_MIN_MAX_SCRIPT = `
+local current = redis.call('HMGET', KEYS[1], 'min', 'minTime', 'max', 'maxTime')
+local min, minTime = tonumber(ARGV[1]), ARGV[2]
+local max, maxTime = tonumber(ARGV[3]), ARGV[4]
+local changed = 0
+
+if not current[1] or not current[3] then
+  changed = 1
+else
+  local currentMin, currentMax = tonumber(current[1]), tonumber(current[3])
+  if min < currentMin then changed = 1 else min, minTime = currentMin, current[2] end
+  if max > currentMax then changed = 1 else max, maxTime = currentMax, current[4] end
+end
+
+if changed == 1 then
+  redis.call('HSET', KEYS[1], 'min', tostring(min), 'minTime', minTime, 'max', tostring(max), 'maxTime', maxTime)
+end
+
+local sum = redis.call('HINCRBY', KEYS[1], 'sum', ARGV[6])
+local count = redis.call('HINCRBY', KEYS[1], 'count', ARGV[7])
+for i = 8, #ARGV, 3 do
+  redis.call('HINCRBY', KEYS[1], 'sum:' .. ARGV[i], ARGV[i + 1])
+  redis.call('HINCRBY', KEYS[1], 'count:' .. ARGV[i], ARGV[i + 2])
+end
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+
+return { tostring(min), minTime, tostring(max), maxTime, changed, current[1] and 0 or 1, sum, count }
+`;
+
 export class RedisRepository {
   private redis: Redis;
   private readonly DAILY_MIN_MAX_KEY = 'daily_min_max';
+  // Holds the patient's time zone
+  private readonly KNOWN_PATIENT_KEY = 'known_patient_tz';
+  private readonly KNOWN_PATIENT_TTL_SECONDS = 300;
+  private readonly INGESTION_RECEIPT_KEY = 'ingestion_receipt';
+  private readonly INGESTION_RECEIPT_TTL_SECONDS = 24 * 60 * 60;
+  // Shared by all of an instance's buffers; the name predates non-heart-rate buffers
+  private readonly BUFFER_HEARTBEAT_KEY = 'hr_buffer_heartbeat';
+  private readonly INGESTION_DEDUP_KEY = 'ingestion_dedup';
+  private readonly INGESTION_DEDUP_TTL_SECONDS = 48 * 60 * 60;
+  private readonly BATCH_COMPLETED_GROUPS_KEY = 'hr_batch_completed_groups';
+  private readonly BATCH_SETTLED_RECEIPTS_KEY = 'hr_batch_settled_receipts';
+  private readonly BATCH_COMPLETED_GROUPS_TTL_SECONDS = 7 * 24 * 60 * 60;
 
   constructor() {
     this.redis = new Redis({
@@ -33,77 +99,350 @@ export class RedisRepository {
     });
   }
 
-  async getDailyMinMax(patientId: number, date: string): Promise<HeartRateAggregate | null> {
+  async getDailyMinMax(patientId: number, date: string): Promise<HeartRateDailyCache | null> {
     const key = `${this.DAILY_MIN_MAX_KEY}:${patientId}:${date}`;
     
     const data = await this.redis.hgetall(key);
     if (!data.min || !data.max) {
       return null;
     }
+
+    const totals = emptyHeartRateTotals();
+    for (let hour = 0; hour < HOURS_PER_DAY; hour++) {
+      totals.hourlySum[hour] = parseInt(data[`sum:${hour}`] ?? '0');
+      totals.hourlyCount[hour] = parseInt(data[`count:${hour}`] ?? '0');
+    }
     
     return {
       min: parseInt(data.min),
       max: parseInt(data.max),
       minTime: data.minTime,
       maxTime: data.maxTime,
+      ...totals,
+      sum: parseInt(data.sum ?? '0'),
+      count: parseInt(data.count ?? '0'),
+      restingEstimate: restingHeartRateEstimate(totals.hourlySum, totals.hourlyCount),
     };
   }
 
+  // Replaces the whole day, dropping hours no longer in `totals`
   async setDailyMinMax(
     patientId: number, 
     date: string, 
-    min: number,
-    max: number,
-    minTime: string,
-    maxTime: string,
+    aggregate: HeartRateAggregate & HeartRateTotals,
     ttlSeconds: number
   ): Promise<void> {
     const key = `${this.DAILY_MIN_MAX_KEY}:${patientId}:${date}`;
-    const pipeline = this.redis.pipeline();
+    const pipeline = this.redis.multi();
     
+    pipeline.del(key);
     pipeline.hset(key, {
-      min: min.toString(),
-      max: max.toString(),
-      minTime,
-      maxTime,
+      min: aggregate.min.toString(),
+      max: aggregate.max.toString(),
+      minTime: aggregate.minTime,
+      maxTime: aggregate.maxTime,
+      sum: aggregate.sum.toString(),
+      count: aggregate.count.toString(),
+      ...this.hourlyFields(aggregate),
     });
     
     pipeline.expire(key, ttlSeconds);
     await pipeline.exec();
   }
 
-  async updateDailyMin(
-    patientId: number, 
-    date: string, 
-    min: number,
-    minTime: string,
-    ttlSeconds: number
-  ): Promise<void> {
+  async clearDailyMinMax(patientId: number, date: string): Promise<void> {
     const key = `${this.DAILY_MIN_MAX_KEY}:${patientId}:${date}`;
-    const pipeline = this.redis.pipeline();
-    
-    pipeline.hset(key, 'min', min.toString(), 'minTime', minTime);
-    pipeline.expire(key, ttlSeconds);
-    
-    await pipeline.exec();
+    await this.redis.del(key);
   }
 
-  async updateDailyMax(
-    patientId: number, 
-    date: string, 
-    max: number,
-    maxTime: string,
+  /**
+   * Folds a candidate min/max into the cached daily extremes, and adds its
+   * totals to the cached ones, in one server-side step so concurrent workers
+   * can never overwrite each other's values. Returns the merged extremes and
+   * totals, whether the extremes changed, and whether the key had to be
+   * created (expired or never cached).
+   */
+  async mergeDailyMinMax(
+    patientId: number,
+    date: string,
+    candidate: HeartRateAggregate & HeartRateTotals,
     ttlSeconds: number
-  ): Promise<void> {
+  ): Promise<{ aggregate: HeartRateAggregate & { sum: number; count: number }; changed: boolean; created: boolean }> {
     const key = `${this.DAILY_MIN_MAX_KEY}:${patientId}:${date}`;
+
+    const hourArgs: string[] = [];
+    candidate.hourlyCount.forEach((count, hour) => {
+      if (count > 0) hourArgs.push(hour.toString(), candidate.hourlySum[hour].toString(), count.toString());
+    });
+
+    const [min, minTime, max, maxTime, changed, created, sum, count] = await this.redis.eval(
+      MERGE_DAILY_MIN_MAX_SCRIPT,
+      1,
+      key,
+      candidate.min.toString(),
+      candidate.minTime,
+      candidate.max.toString(),
+      candidate.maxTime,
+      ttlSeconds.toString(),
+      candidate.sum.toString(),
+      candidate.count.toString(),
+      ...hourArgs
+    ) as [string, string, string, string, number, number, number, number];
+
+    return {
+      aggregate: {
+        min: parseInt(min),
+        max: parseInt(max),
+        minTime,
+        maxTime,
+        sum,
+        count,
+      },
+      changed: changed === 1,
+      created: created === 1,
+    };
+  }
+
+  private hourlyFields(totals: HeartRateTotals): Record<string, string> {
+    const fields: Record<string, string> = {};
+    totals.hourlyCount.forEach((count, hour) => {
+      if (count > 0) {
+        fields[`sum:${hour}`] = totals.hourlySum[hour].toString();
+        fields[`count:${hour}`] = count.toString();
+      }
+    });
+    return fields;
+  }
+
+  async isKnownPatient(patientId: number): Promise<boolean> {
+    const key = `${this.KNOWN_PATIENT_KEY}:${patientId}`;
+    return (await this.redis.exists(key)) === 1;
+  }
+
+  async markPatientKnown(patientId: number, timeZone: string): Promise<void> {
+    const key = `${this.KNOWN_PATIENT_KEY}:${patientId}`;
+    await this.redis.set(key, timeZone, 'EX', this.KNOWN_PATIENT_TTL_SECONDS);
+  }
+
+  // Cached time zones of known patients; patients not cached are left out
+  async getKnownPatientTimeZones(patientIds: number[]): Promise<Map<number, string>> {
+    const timeZones = new Map<number, string>();
+    if (patientIds.length === 0) return timeZones;
+
+    const values = await this.redis.mget(patientIds.map(id => `${this.KNOWN_PATIENT_KEY}:${id}`));
+    patientIds.forEach((id, index) => {
+      const timeZone = values[index];
+      if (timeZone) timeZones.set(id, timeZone);
+    });
+    return timeZones;
+  }
+
+  async forgetPatient(patientId: number): Promise<void> {
+    const key = `${this.KNOWN_PATIENT_KEY}:${patientId}`;
+    await this.redis.del(key);
+  }
+
+  async getIngestionReceipt(receiptId: string): Promise<IngestionReceipt | null> {
+    const key = `${this.INGESTION_RECEIPT_KEY}:${receiptId}`;
+
+    const data = await this.redis.hgetall(key);
+    if (!data.status) {
+      return null;
+    }
+
+    return {
+      receiptId,
+      status: data.status as IngestionReceiptStatus,
+      jobId: data.jobId || undefined,
+      error: data.error || undefined,
+      updatedAt: data.updatedAt,
+    };
+  }
+
+  private ingestionReceiptFields(
+    status: IngestionReceiptStatus,
+    details: { jobId?: string; error?: string }
+  ): Record<string, string> {
+    const fields: Record<string, string> = {
+      status,
+      updatedAt: new Date().toISOString(),
+    };
+    if (details.jobId) fields.jobId = details.jobId;
+    if (details.error) fields.error = details.error;
+    return fields;
+  }
+
+  async setIngestionReceipts(
+    receiptIds: string[],
+    status: IngestionReceiptStatus,
+    details: { jobId?: string; error?: string } = {}
+  ): Promise<void> {
+    if (receiptIds.length === 0) return;
+
     const pipeline = this.redis.pipeline();
-    
-    pipeline.hset(key, 'max', max.toString(), 'maxTime', maxTime);
-    pipeline.expire(key, ttlSeconds);
-    
+    const fields = this.ingestionReceiptFields(status, details);
+
+    for (const receiptId of receiptIds) {
+      const key = `${this.INGESTION_RECEIPT_KEY}:${receiptId}`;
+      pipeline.hset(key, fields);
+      if (!details.error) pipeline.hdel(key, 'error');
+      pipeline.expire(key, this.INGESTION_RECEIPT_TTL_SECONDS);
+    }
+
     await pipeline.exec();
   }
 
+  /**
+   * Claims an ingestion dedup key. Returns null when this is the first
+   * submission, or the reference stored by the earlier one when it is a
+   * duplicate.
+   */
+  async claimIngestionKey(dedupKey: string, reference: string): Promise<string | null> {
+    const key = `${this.INGESTION_DEDUP_KEY}:${dedupKey}`;
+
+    const claimed = await this.redis.set(key, reference, 'EX', this.INGESTION_DEDUP_TTL_SECONDS, 'NX');
+    if (claimed === 'OK') return null;
+
+    return (await this.redis.get(key)) ?? reference;
+  }
+
+  async releaseIngestionKey(dedupKey: string): Promise<void> {
+    await this.redis.del(`${this.INGESTION_DEDUP_KEY}:${dedupKey}`);
+  }
+
+  // Patient/date groups of a batch job that are already committed, so a
+  // retried job does not insert them a second time. The receipts of their
+  // readings are settled by then, and are kept so a failed attempt does not
+  // put them back in the queued state.
+
+  async getCompletedBatchGroups(jobId: string): Promise<Set<string>> {
+    const key = `${this.BATCH_COMPLETED_GROUPS_KEY}:${jobId}`;
+    return new Set(await this.redis.smembers(key));
+  }
+
+  async getSettledBatchReceipts(jobId: string): Promise<Set<string>> {
+    const key = `${this.BATCH_SETTLED_RECEIPTS_KEY}:${jobId}`;
+    return new Set(await this.redis.smembers(key));
+  }
+
+  async markBatchGroupCompleted(jobId: string, groupKey: string, receiptIds: string[]): Promise<void> {
+    const groupsKey = `${this.BATCH_COMPLETED_GROUPS_KEY}:${jobId}`;
+    const receiptsKey = `${this.BATCH_SETTLED_RECEIPTS_KEY}:${jobId}`;
+    const transaction = this.redis.multi();
+
+    transaction.sadd(groupsKey, groupKey);
+    transaction.expire(groupsKey, this.BATCH_COMPLETED_GROUPS_TTL_SECONDS);
+    if (receiptIds.length > 0) {
+      transaction.sadd(receiptsKey, ...receiptIds);
+      transaction.expire(receiptsKey, this.BATCH_COMPLETED_GROUPS_TTL_SECONDS);
+    }
+    await transaction.exec();
+  }
+
+  async clearCompletedBatchGroups(jobId: string): Promise<void> {
+    await this.redis.del(
+      `${this.BATCH_COMPLETED_GROUPS_KEY}:${jobId}`,
+      `${this.BATCH_SETTLED_RECEIPTS_KEY}:${jobId}`
+    );
+  }
+
+  // Durable ingestion buffers. Each API instance appends to its own list per
+  // vital, e.g. `hr_buffer:<ownerId>`, and keeps `hr_buffer_heartbeat:<ownerId>`
+  // alive while it runs. A list whose owner has no heartbeat belongs to a
+  // dead instance and can be claimed by a live one.
+
+  bufferKey(bufferName: string, ownerId: string): string {
+    return `${bufferName}:${ownerId}`;
+  }
+
+  async bufferReading(
+    bufferName: string,
+    ownerId: string,
+    receiptId: string,
+    reading: object
+  ): Promise<number> {
+    const receiptKey = `${this.INGESTION_RECEIPT_KEY}:${receiptId}`;
+
+    const results = await this.redis.multi()
+      .hset(receiptKey, this.ingestionReceiptFields('buffered', {}))
+      .expire(receiptKey, this.INGESTION_RECEIPT_TTL_SECONDS)
+      .rpush(this.bufferKey(bufferName, ownerId), JSON.stringify(reading))
+      .exec();
+
+    const [error, length] = results?.[2] ?? [new Error('Buffer transaction aborted'), 0];
+    if (error) throw error;
+
+    return length as number;
+  }
+
+  async peekBuffer<T>(bufferKey: string, count: number): Promise<T[]> {
+    const items = await this.redis.lrange(bufferKey, 0, count - 1);
+    return items.map(item => JSON.parse(item) as T);
+  }
+
+  async trimBuffer(bufferKey: string, count: number): Promise<void> {
+    await this.redis.ltrim(bufferKey, count, -1);
+  }
+
+  async getBufferLength(bufferKey: string): Promise<number> {
+    return this.redis.llen(bufferKey);
+  }
+
+  async refreshBufferHeartbeat(ownerId: string, ttlSeconds: number): Promise<void> {
+    const key = `${this.BUFFER_HEARTBEAT_KEY}:${ownerId}`;
+    await this.redis.set(key, new Date().toISOString(), 'EX', ttlSeconds);
+  }
+
+  async clearBufferHeartbeat(ownerId: string): Promise<void> {
+    const key = `${this.BUFFER_HEARTBEAT_KEY}:${ownerId}`;
+    await this.redis.del(key);
+  }
+
+  async findOrphanedBuffers(bufferName: string): Promise<string[]> {
+    const orphaned: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [nextCursor, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        `${bufferName}:*`,
+        'COUNT',
+        100
+      );
+      cursor = nextCursor;
+
+      for (const key of keys) {
+        const ownerId = key.slice(bufferName.length + 1).split(':')[0];
+        const heartbeatKey = `${this.BUFFER_HEARTBEAT_KEY}:${ownerId}`;
+        if ((await this.redis.exists(heartbeatKey)) === 0) {
+          orphaned.push(key);
+        }
+      }
+    } while (cursor !== '0');
+
+    return orphaned;
+  }
+
+  /**
+   * Atomically moves an orphaned buffer under the given owner so that only
+   * one instance drains it. Returns null if another instance claimed it first.
+   */
+  async claimBuffer(bufferName: string, orphanKey: string, ownerId: string): Promise<string | null> {
+    const suffix = orphanKey.slice(bufferName.length + 1).replace(/:/g, '_');
+    const claimedKey = `${this.bufferKey(bufferName, ownerId)}:recovered_${suffix}`;
+
+    try {
+      await this.redis.rename(orphanKey, claimedKey);
+      return claimedKey;
+    } catch (error: any) {
+      if (typeof error.message === 'string' && error.message.includes('no such key')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const result = await this.redis.ping();
@@ -114,14 +453,14 @@ export class RedisRepository {
     }
   }
 
-  private getSecondsUntilEndOfNextDay(): number {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(23, 59, 59, 999);
-    
-    const diffMs = tomorrow.getTime() - now.getTime();
-    return Math.ceil(diffMs / 1000);
+  /**
+   * A day's min/max key lives until the end of the following day, in the
+   * patient's time zone (`date` is a local day). Zero or less means the day
+   * is past the cache window and is not cached.
+   */
+  getDailyMinMaxTtlSeconds(date: string, timeZone: string = DEFAULT_TIME_ZONE, now: Date = new Date()): number {
+    const expiry = startOfLocalDay(addDays(date, 2), timeZone);
+    return Math.ceil((expiry.getTime() - now.getTime()) / 1000);
   }
 
   async disconnect(): Promise<void> {
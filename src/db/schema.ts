@@ -1,7 +1,9 @@
-import { pgTable, serial, varchar, timestamp, integer, real, date, index, pgEnum, jsonb, boolean } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, serial, varchar, timestamp, integer, real, date, index, uniqueIndex, jsonb, boolean } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 import { createInsertSchema, createSelectSchema, createUpdateSchema } from 'drizzle-zod';
 import { z } from 'zod';
+import { isValidTimeZone, DEFAULT_TIME_ZONE } from '../utils/time-zone';
+import { WEIGHT_UNITS, GLUCOSE_UNITS, convertWeight, roundTo } from '../utils/units';
 
 
 
@@ -12,6 +14,11 @@ export const patients = pgTable('patients', {
   name: varchar('name', { length: 255 }).notNull(),
   email: varchar('email', { length: 255 }).notNull().unique(),
   dateOfBirth: date('date_of_birth'),
+  // IANA zone; daily aggregates and chart days follow the patient's local calendar
+  timezone: varchar('timezone', { length: 64 }).notNull().default(DEFAULT_TIME_ZONE),
+  // Units charts use when the request does not name one
+  weightUnit: varchar('weight_unit', { length: 8 }).notNull().default('kg'),
+  glucoseUnit: varchar('glucose_unit', { length: 8 }).notNull().default('mg/dL'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
@@ -19,6 +26,35 @@ export const patients = pgTable('patients', {
   index('patients_name_idx').on(table.name),
 ]);
 
+// Patient devices allowed to submit readings with their own tokens
+export const devices = pgTable('devices', {
+  id: serial('id').primaryKey(),
+  // Null until bound; unbound devices cannot submit readings
+  patientId: integer('patient_id').references(() => patients.id, { onDelete: 'set null' }),
+  serialNumber: varchar('serial_number', { length: 128 }).notNull(),
+  model: varchar('model', { length: 128 }).notNull(),
+  // Updated from the X-Device-Firmware header of the device's requests
+  firmwareVersion: varchar('firmware_version', { length: 64 }),
+  lastSeenAt: timestamp('last_seen_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('devices_serial_number_unique').on(table.serialNumber),
+  index('devices_patient_idx').on(table.patientId),
+]);
+
+export const deviceTokens = pgTable('device_tokens', {
+  id: serial('id').primaryKey(),
+  deviceId: integer('device_id').notNull().references(() => devices.id, { onDelete: 'cascade' }),
+  // SHA-256 of the token, which is only shown when issued
+  tokenHash: varchar('token_hash', { length: 64 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  revokedAt: timestamp('revoked_at'),
+}, (table) => [
+  uniqueIndex('device_tokens_token_hash_unique').on(table.tokenHash),
+  index('device_tokens_device_idx').on(table.deviceId),
+]);
+
 export const heartRateAggregates = pgTable('heart_rate_aggregates', {
   id: serial('id').primaryKey(),
   patientId: integer('patient_id').notNull().references(() => patients.id, { onDelete: 'cascade' }),
@@ -27,10 +63,18 @@ export const heartRateAggregates = pgTable('heart_rate_aggregates', {
   bpmMinRecordedAt: timestamp('bpm_min_recorded_at').notNull(),
   bpmMax: integer('bpm_max').notNull(),
   bpmMaxRecordedAt: timestamp('bpm_max_recorded_at').notNull(),
+  // Totals of the day's readings; the mean is bpmSum / bpmCount
+  bpmSum: integer('bpm_sum').notNull().default(0),
+  bpmCount: integer('bpm_count').notNull().default(0),
+  // The same per local hour (index 0-23), behind the resting estimate
+  hourlyBpmSum: integer('hourly_bpm_sum').array().notNull().default(sql`array_fill(0, ARRAY[24])`),
+  hourlyBpmCount: integer('hourly_bpm_count').array().notNull().default(sql`array_fill(0, ARRAY[24])`),
+  bpmRestingEstimate: real('bpm_resting_estimate'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => [
-  index('heart_rate_patient_date_idx').on(table.patientId, table.date),
+  // One row per patient per day; aggregate upserts conflict on it
+  uniqueIndex('heart_rate_aggregates_patient_date_unique').on(table.patientId, table.date),
   index('heart_rate_date_idx').on(table.date),
 ]);
 
@@ -40,71 +84,53 @@ export const bloodPressureRecords = pgTable('blood_pressure_records', {
   systolic: integer('systolic').notNull(),
   diastolic: integer('diastolic').notNull(),
   recordedAt: timestamp('recorded_at').notNull(),
+  // How the reading was taken, as submitted; charts can filter on it
+  context: jsonb('context').$type<MeasurementContext>(),
+  // The device whose token submitted the reading
+  deviceId: integer('device_id').references(() => devices.id, { onDelete: 'set null' }),
+  // Set when a clinician voids the reading; voided rows are hidden from charts
+  voidedAt: timestamp('voided_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('blood_pressure_patient_idx').on(table.patientId),
   index('blood_pressure_recorded_at_idx').on(table.recordedAt),
+  // Exact re-sends of the same reading collapse into one row
+  uniqueIndex('blood_pressure_dedup_idx').on(table.patientId, table.recordedAt, table.systolic, table.diastolic),
 ]);
 
 
-const healthMetricsEnum = pgEnum('health_metrics_enum', ['heart_rate', 'blood_pressure', 'weight']);
-/* 
-   {
-    heart_rate: {
-      bpm: number,
-      timestamp: string,
-    },
-    blood_pressure: {
-      systolic: number,
-      diastolic: number,
-      timestamp: string,
-    },
-    weight: {
-      weightKg: number,
-      timestamp: string,
-    },
-   }
-  */
-
- export type HealthMetrics = {
-  heart_rate: {
-    bpm: number,
-    timestamp: string,
-  },
-  blood_pressure: {
-    systolic: number,
-    diastolic: number,
-    timestamp: string,
-  },
-  weight: {
-    weightKg: number,
-    timestamp: string,
-  },
-};
-
+// Readings of registry metrics (see utils/metric-registry.ts), one row per reading
 export const healthMetrics = pgTable('health_metrics', {
   id: serial('id').primaryKey(),
   patientId: integer('patient_id').notNull().references(() => patients.id, { onDelete: 'cascade' }),
-  metric: healthMetricsEnum('metric').notNull(),
-  // relations or optional values that adapt to each metric
+  // Registry key, e.g. `spo2`; new metrics need no migration
+  metric: varchar('metric', { length: 64 }).notNull(),
+  // The reading's fields, as validated by the metric's value schema
   value: jsonb('value').notNull(),
+  recordedAt: timestamp('recorded_at').notNull(),
+  deviceId: integer('device_id').references(() => devices.id, { onDelete: 'set null' }),
+  voidedAt: timestamp('voided_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('health_metrics_patient_idx').on(table.patientId),
   index('health_metrics_metric_idx').on(table.metric),
+  index('health_metrics_patient_metric_recorded_at_idx').on(table.patientId, table.metric, table.recordedAt),
+  uniqueIndex('health_metrics_dedup_idx').on(table.patientId, table.metric, table.recordedAt, table.value),
 ]);
 
-
-
 export const weightRecords = pgTable('weight_records', {
   id: serial('id').primaryKey(),
   patientId: integer('patient_id').notNull().references(() => patients.id, { onDelete: 'cascade' }),
   weightKg: real('weight_kg').notNull(),
   recordedAt: timestamp('recorded_at').notNull(),
+  context: jsonb('context').$type<MeasurementContext>(),
+  deviceId: integer('device_id').references(() => devices.id, { onDelete: 'set null' }),
+  voidedAt: timestamp('voided_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('weight_patient_idx').on(table.patientId),
   index('weight_recorded_at_idx').on(table.recordedAt),
+  uniqueIndex('weight_dedup_idx').on(table.patientId, table.recordedAt, table.weightKg),
 ]);
 
 export const heartRateRecords = pgTable('heart_rate_records', {
@@ -112,11 +138,56 @@ export const heartRateRecords = pgTable('heart_rate_records', {
   patientId: integer('patient_id').notNull().references(() => patients.id, { onDelete: 'cascade' }),
   bpm: integer('bpm').notNull(),
   recordedAt: timestamp('recorded_at').notNull(),
+  // 'late' or 'future' when accepted outside the reading time window under the `flag` policy
+  timestampFlag: varchar('timestamp_flag', { length: 16 }),
+  context: jsonb('context').$type<MeasurementContext>(),
+  deviceId: integer('device_id').references(() => devices.id, { onDelete: 'set null' }),
+  voidedAt: timestamp('voided_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => [
   index('heart_rate_records_patient_idx').on(table.patientId),
   index('heart_rate_records_recorded_at_idx').on(table.recordedAt),
   index('heart_rate_records_patient_date_idx').on(table.patientId, table.recordedAt),
+  uniqueIndex('heart_rate_records_dedup_idx').on(table.patientId, table.recordedAt, table.bpm),
+]);
+
+// Heart rate readings rejected by the batch processor, kept for inspection and replay.
+// No FK to patients: the usual reason a reading lands here is that its patient is gone.
+export const heartRateDeadLetters = pgTable('heart_rate_dead_letters', {
+  id: serial('id').primaryKey(),
+  receiptId: varchar('receipt_id', { length: 64 }),
+  patientId: integer('patient_id').notNull(),
+  bpm: integer('bpm').notNull(),
+  recordedAt: timestamp('recorded_at').notNull(),
+  // Kept so a replay stores the reading as submitted
+  context: jsonb('context').$type<MeasurementContext>(),
+  deviceId: integer('device_id'),
+  timestampFlag: varchar('timestamp_flag', { length: 16 }).$type<ReadingTimestampFlag>(),
+  error: varchar('error', { length: 1024 }).notNull(),
+  errorCode: varchar('error_code', { length: 64 }),
+  jobId: varchar('job_id', { length: 128 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('heart_rate_dead_letters_patient_idx').on(table.patientId),
+  index('heart_rate_dead_letters_created_at_idx').on(table.createdAt),
+]);
+
+// One row per amendment or void of a stored reading, keeping the value it replaced
+export const vitalsReadingAudits = pgTable('vitals_reading_audits', {
+  id: serial('id').primaryKey(),
+  type: varchar('type', { length: 32, enum: ['heart_rate', 'blood_pressure', 'weight'] }).notNull(),
+  recordId: integer('record_id').notNull(),
+  patientId: integer('patient_id').notNull().references(() => patients.id, { onDelete: 'cascade' }),
+  action: varchar('action', { length: 16, enum: ['amend', 'void'] }).notNull(),
+  previousValue: jsonb('previous_value').$type<Record<string, number>>().notNull(),
+  // Null for voids
+  newValue: jsonb('new_value').$type<Record<string, number>>(),
+  changedBy: varchar('changed_by', { length: 255 }).notNull(),
+  reason: varchar('reason', { length: 1024 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('vitals_reading_audits_record_idx').on(table.type, table.recordId),
+  index('vitals_reading_audits_patient_idx').on(table.patientId),
 ]);
 
 
@@ -125,6 +196,23 @@ export const patientsRelations = relations(patients, ({ many }) => ({
   bloodPressureRecords: many(bloodPressureRecords),
   weightRecords: many(weightRecords),
   heartRateRecords: many(heartRateRecords),
+  healthMetrics: many(healthMetrics),
+  devices: many(devices),
+}));
+
+export const devicesRelations = relations(devices, ({ one, many }) => ({
+  patient: one(patients, {
+    fields: [devices.patientId],
+    references: [patients.id],
+  }),
+  tokens: many(deviceTokens),
+}));
+
+export const deviceTokensRelations = relations(deviceTokens, ({ one }) => ({
+  device: one(devices, {
+    fields: [deviceTokens.deviceId],
+    references: [devices.id],
+  }),
 }));
 
 export const heartRateAggregatesRelations = relations(heartRateAggregates, ({ one }) => ({
@@ -155,18 +243,52 @@ export const heartRateRecordsRelations = relations(heartRateRecords, ({ one }) =
   }),
 }));
 
+export const healthMetricsRelations = relations(healthMetrics, ({ one }) => ({
+  patient: one(patients, {
+    fields: [healthMetrics.patientId],
+    references: [patients.id],
+  }),
+}));
+
 
 function makeApiCompatible<T = any>(schema: any): z.ZodType<T> {
   return schema as z.ZodType<T>;
 }
 
 
+const isWeightUnit = (unit: string) => (WEIGHT_UNITS as readonly string[]).includes(unit);
+const isGlucoseUnit = (unit: string) => (GLUCOSE_UNITS as readonly string[]).includes(unit);
+
 export const selectPatientSchema = makeApiCompatible(createSelectSchema(patients));
 export const insertPatientSchema = makeApiCompatible(createInsertSchema(patients, {
   name: (schema) => schema.min(1, 'Name is required').max(255, 'Name too long'),
   email: (schema) => schema.email('Invalid email format').max(255, 'Email too long'),
+  timezone: (schema) => schema.refine(isValidTimeZone, 'Invalid IANA time zone'),
+  weightUnit: (schema) => schema.refine(isWeightUnit, `Weight unit must be one of ${WEIGHT_UNITS.join(', ')}`),
+  glucoseUnit: (schema) => schema.refine(isGlucoseUnit, `Glucose unit must be one of ${GLUCOSE_UNITS.join(', ')}`),
 }).omit({ id: true, createdAt: true, updatedAt: true }));
-export const updatePatientSchema = createUpdateSchema(patients).omit({ id: true, createdAt: true, updatedAt: true });
+export const updatePatientSchema = makeApiCompatible(createUpdateSchema(patients, {
+  name: (schema) => schema.min(1, 'Name is required').max(255, 'Name too long'),
+  email: (schema) => schema.email('Invalid email format').max(255, 'Email too long'),
+  timezone: (schema) => schema.refine(isValidTimeZone, 'Invalid IANA time zone'),
+  weightUnit: (schema) => schema.refine(isWeightUnit, `Weight unit must be one of ${WEIGHT_UNITS.join(', ')}`),
+  glucoseUnit: (schema) => schema.refine(isGlucoseUnit, `Glucose unit must be one of ${GLUCOSE_UNITS.join(', ')}`),
+}).omit({ id: true, createdAt: true, updatedAt: true }));
+
+export const listPatientsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be at least 1').default(1),
+  pageSize: z.coerce.number().int().min(1, 'Page size must be at least 1').max(100, 'Page size must not exceed 100').default(20),
+  search: z.string().trim().min(1).max(255).optional(),
+});
+
+export const patientListResponseSchema = makeApiCompatible(
+  z.object({
+    data: z.array(selectPatientSchema),
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    total: z.number().int(),
+  })
+);
 
 
 export const selectHeartRateAggregateSchema = createSelectSchema(heartRateAggregates);
@@ -186,10 +308,41 @@ export const insertHeartRateRecordSchema = createInsertSchema(heartRateRecords);
 export const updateHeartRateRecordSchema = createUpdateSchema(heartRateRecords);
 
 
+// Optional client-supplied id; re-sending the same id for a patient is treated as a duplicate
+const readingIdSchema = z.string().min(1).max(128).optional();
+
+export const readingSourceSchema = z.enum(['device', 'manual', 'imported']);
+export const bodyPositionSchema = z.enum(['sitting', 'standing', 'lying']);
+export const armSchema = z.enum(['left', 'right']);
+export const activityStateSchema = z.enum(['resting', 'active', 'exercise', 'sleeping']);
+
+// How a reading was taken. Every field is optional; each vital adds the
+// ones that apply to it
+const measurementContextFieldsSchema = z.object({
+  source: readingSourceSchema.optional(),
+  deviceModel: z.string().min(1).max(128).optional(),
+  note: z.string().max(1000, 'Note too long').optional(),
+});
+
+export const heartRateContextSchema = measurementContextFieldsSchema.extend({
+  activityState: activityStateSchema.optional(),
+});
+
+export const bloodPressureContextSchema = measurementContextFieldsSchema.extend({
+  bodyPosition: bodyPositionSchema.optional(),
+  arm: armSchema.optional(),
+});
+
+export const weightContextSchema = measurementContextFieldsSchema;
+
+export const measurementContextSchema = heartRateContextSchema.merge(bloodPressureContextSchema);
+
 export const postHeartRateDataSchema = z.object({
   patientId: z.number().positive('Patient ID must be positive'),
   bpm: z.number().min(20, 'Heart rate must be at least 20 BPM').max(300, 'Heart rate must not exceed 300 BPM'),
   timestamp: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid timestamp'),
+  readingId: readingIdSchema,
+  context: heartRateContextSchema.optional(),
 });
 
 export const postBloodPressureDataSchema = z.object({
@@ -197,11 +350,103 @@ export const postBloodPressureDataSchema = z.object({
   systolic: z.number().min(50, 'Systolic pressure too low').max(300, 'Systolic pressure too high'),
   diastolic: z.number().min(30, 'Diastolic pressure too low').max(200, 'Diastolic pressure too high'),
   timestamp: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid timestamp'),
+  readingId: readingIdSchema,
+  context: bloodPressureContextSchema.optional(),
 });
+export const weightUnitSchema = z.enum(WEIGHT_UNITS);
+export const glucoseUnitSchema = z.enum(GLUCOSE_UNITS);
+
+const weightKgSchema = z.number().min(1, 'Weight must be positive').max(1000, 'Weight too high');
+
+// Either `weightKg`, or `weight` in `unit` (default kg). Parsed readings
+// carry `weightKg` only, rounded to 10 g when converted.
 export const postWeightDataSchema = z.object({
   patientId: z.number().positive('Patient ID must be positive'),
-  weightKg: z.number().min(1, 'Weight must be positive').max(1000, 'Weight too high'),
+  weightKg: z.number().optional(),
+  weight: z.number().optional(),
+  unit: weightUnitSchema.optional(),
+  timestamp: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid timestamp'),
+  readingId: readingIdSchema,
+  context: weightContextSchema.optional(),
+})
+  .refine((data) => (data.weightKg === undefined) !== (data.weight === undefined), 'Send either weightKg or weight')
+  .refine((data) => data.unit === undefined || data.weight !== undefined, { message: 'unit requires weight', path: ['unit'] })
+  .transform(({ weight, unit, weightKg, ...reading }) => ({
+    ...reading,
+    weightKg: weight !== undefined ? roundTo(convertWeight(weight, unit ?? 'kg', 'kg'), 2) : weightKg!,
+  }))
+  .pipe(z.object({
+    patientId: z.number(),
+    weightKg: weightKgSchema,
+    timestamp: z.string(),
+    readingId: z.string().optional(),
+    context: weightContextSchema.optional(),
+  }));
+
+// Envelope of a registry metric reading; `value` is checked against the
+// metric's own schema by `metricReadingSchema`
+export const postMetricDataSchema = z.object({
+  patientId: z.number().positive('Patient ID must be positive'),
+  value: z.record(z.string(), z.unknown()),
   timestamp: z.string().refine((val) => !isNaN(Date.parse(val)), 'Invalid timestamp'),
+  readingId: readingIdSchema,
+});
+
+export const vitalsTypeEnumSchema = z.enum(['heart_rate', 'blood_pressure', 'weight']);
+
+// Items are only checked for their `type` here; each one is validated against
+// its post*DataSchema individually so a bad item does not reject the request.
+export const vitalsBatchItemSchema = z.object({
+  type: vitalsTypeEnumSchema,
+}).passthrough();
+
+export const postVitalsBatchSchema = z.object({
+  readings: z.array(vitalsBatchItemSchema).min(1, 'At least one reading is required'),
+});
+
+export const vitalsBatchItemResultSchema = z.object({
+  index: z.number().int(),
+  type: vitalsTypeEnumSchema,
+  status: z.enum(['accepted', 'duplicate', 'rejected']),
+  receiptId: z.string().optional(),
+  error: z.object({
+    message: z.string(),
+    code: z.string().optional(),
+  }).optional(),
+  warning: z.object({
+    message: z.string(),
+    code: z.string(),
+  }).optional(),
+});
+
+export const vitalsBatchResponseSchema = z.object({
+  accepted: z.number().int(),
+  duplicates: z.number().int(),
+  rejected: z.number().int(),
+  results: z.array(vitalsBatchItemResultSchema),
+});
+
+export const idempotencyHeadersSchema = z.object({
+  'idempotency-key': z.string().min(1).max(255).optional(),
+});
+
+// `Bearer <device token>`; see middleware/device-auth.ts
+export const vitalsIngestionHeadersSchema = idempotencyHeadersSchema.extend({
+  authorization: z.string().optional(),
+  'x-device-firmware': z.string().optional(),
+});
+
+// Severity order, lowest first
+export const bloodPressureCategorySchema = z.enum(['normal', 'elevated', 'stage_1', 'stage_2', 'crisis']);
+export const bloodPressureGuidelineSchema = z.enum(['acc_aha_2017', 'esc_esh_2018']);
+
+export const vitalsAcceptedResponseSchema = z.object({
+  message: z.string(),
+  // Set when the reading was queued rather than stored within the request
+  receiptId: z.string().optional(),
+  duplicate: z.boolean(),
+  // Blood pressure only, under the configured guideline
+  category: bloodPressureCategorySchema.optional(),
 });
 
 
@@ -217,13 +462,79 @@ export const patientIdParamSchema = z.object({
     }),
 });
 
-export const chartPeriodEnumSchema = z.enum(['7_days', '31_days', '12_months']);
+// `custom` takes its span from the `from` / `to` query parameters
+export const chartPeriodEnumSchema = z.enum(['7_days', '31_days', '12_months', 'custom']);
 export type ChartPeriod = z.infer<typeof chartPeriodEnumSchema>;
 
 export const chartPeriodParamSchema = z.object({
   period: chartPeriodEnumSchema,
 });
 
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be formatted YYYY-MM-DD');
+
+export const chartBucketEnumSchema = z.enum(['hour', 'day', 'week', 'month']);
+
+function fromNotAfterTo<T extends z.AnyZodObject>(schema: T) {
+  return schema.refine(
+    (value) => !value.from || !value.to || value.from <= value.to,
+    { message: '`from` must not be after `to`', path: ['from'] }
+  );
+}
+
+const chartRangeFieldsSchema = z.object({
+  // Overrides the patient's time zone for day boundaries
+  tz: z.string().refine(isValidTimeZone, 'Invalid IANA time zone').optional(),
+  // Local days, inclusive. `from` requires the `custom` period; `to` (default
+  // today) also ends a preset period
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+});
+
+export const chartRangeQuerySchema = fromNotAfterTo(chartRangeFieldsSchema);
+
+const chartQueryFieldsSchema = chartRangeFieldsSchema.extend({
+  bucket: chartBucketEnumSchema.default('day'),
+  // Include empty buckets (count 0, null stats)
+  fillGaps: z.enum(['true', 'false']).transform((val) => val === 'true').default('false'),
+});
+
+export const chartQuerySchema = fromNotAfterTo(chartQueryFieldsSchema);
+
+// Measurement context filters: only readings submitted with these values count
+const heartRateContextFilterSchema = z.object({
+  source: readingSourceSchema.optional(),
+  activityState: activityStateSchema.optional(),
+});
+
+export const heartRateChartQuerySchema = fromNotAfterTo(chartQueryFieldsSchema.merge(heartRateContextFilterSchema));
+
+export const heartRateRecordsQuerySchema = fromNotAfterTo(chartRangeFieldsSchema.merge(heartRateContextFilterSchema));
+
+// `guideline` overrides BLOOD_PRESSURE_GUIDELINE for the request
+export const bloodPressureChartQuerySchema = fromNotAfterTo(chartQueryFieldsSchema.extend({
+  guideline: bloodPressureGuidelineSchema.optional(),
+  source: readingSourceSchema.optional(),
+  bodyPosition: bodyPositionSchema.optional(),
+  arm: armSchema.optional(),
+}));
+
+// `unit` defaults to the patient's preferred weight unit
+export const weightChartQuerySchema = fromNotAfterTo(chartQueryFieldsSchema.extend({
+  unit: weightUnitSchema.optional(),
+  source: readingSourceSchema.optional(),
+}));
+
+// `context` keeps readings taken in that context, for metrics that record one.
+// `unit` applies to the fields that can be charted in it
+export const metricChartQuerySchema = fromNotAfterTo(chartQueryFieldsSchema.extend({
+  context: z.string().optional(),
+  unit: z.string().optional(),
+}));
+
+export const bloodPressureSummaryQuerySchema = fromNotAfterTo(chartRangeFieldsSchema.extend({
+  guideline: bloodPressureGuidelineSchema.optional(),
+}));
+
 // Schema for endpoints that need both patient ID and period
 export const patientIdAndPeriodParamSchema = z.object({
   patientId: z.string()
@@ -238,30 +549,387 @@ export const patientIdAndPeriodParamSchema = z.object({
   period: chartPeriodEnumSchema,
 });
 
+export const metricParamSchema = z.object({
+  metric: z.string(),
+});
+
+export const patientIdMetricAndPeriodParamSchema = patientIdAndPeriodParamSchema.merge(metricParamSchema);
+
+// Null for a gap-filled bucket with no readings
+const valueStatsSchema = z.object({
+  min: z.number().nullable(),
+  max: z.number().nullable(),
+  mean: z.number().nullable(),
+});
+
+// One entry per bucket, oldest first
+const chartBucketSchema = z.object({
+  // Local start: YYYY-MM-DD, or YYYY-MM-DDTHH:00 for hour buckets
+  bucket: z.string(),
+  start: z.date(),
+  count: z.number().int(),
+});
+
+const chartBucketStatsSchema = chartBucketSchema.merge(valueStatsSchema);
+
 export const heartRateChartDataSchema = makeApiCompatible(
-  z.array(z.object({
-    date: z.string(),
-    min: z.number(),
-    max: z.number(),
+  z.array(chartBucketStatsSchema.extend({
+    // The day's estimate, or the mean of the days' for a week or month.
+    // Null for hour buckets and `tz` overrides, which are not stored per day
+    restingEstimate: z.number().nullable(),
   }))
 );
 
+const bloodPressureChartBucketSchema = chartBucketSchema.extend({
+  systolic: valueStatsSchema,
+  diastolic: valueStatsSchema,
+  // Category of the bucket's mean reading; null when it has none
+  category: bloodPressureCategorySchema.nullable(),
+});
+
 export const bloodPressureChartDataSchema = makeApiCompatible(
-  z.array(z.object({
+  z.array(bloodPressureChartBucketSchema)
+);
+
+export const bloodPressureSummarySchema = z.object({
+  guideline: bloodPressureGuidelineSchema,
+  from: z.string(),
+  to: z.string(),
+  readings: z.number().int(),
+  // Every category in severity order; `share` is 0-1 of `readings`
+  categories: z.array(z.object({
+    category: bloodPressureCategorySchema,
+    count: z.number().int(),
+    share: z.number(),
+  })),
+  crisisReadings: z.array(z.object({
+    id: z.number(),
     recordedAt: z.date(),
     systolic: z.number().int(),
     diastolic: z.number().int(),
-  }))
-);
+  })),
+});
 
 export const weightChartDataSchema = makeApiCompatible(
-  z.array(z.object({
-    recordedAt: z.date(),
-    weightKg: z.number(),
+  z.array(chartBucketStatsSchema.extend({
+    unit: weightUnitSchema,
   }))
 );
 
+// How a registry metric's fields are summarised per chart bucket
+export const metricAggregationSchema = z.enum(['stats', 'sum', 'latest']);
+
+export const metricDefinitionSchema = z.object({
+  type: z.string(),
+  label: z.string(),
+  aggregation: metricAggregationSchema,
+  fields: z.array(z.object({
+    name: z.string(),
+    unit: z.string(),
+    min: z.number(),
+    max: z.number(),
+    // Other units a chart can ask for
+    chartUnits: z.array(z.string()).optional(),
+  })),
+  contexts: z.array(z.string()).optional(),
+});
+
+// `stats` gives min/max/mean, `sum` the total and `latest` the last reading
+const metricFieldStatsSchema = z.union([
+  valueStatsSchema,
+  z.object({ sum: z.number().nullable() }),
+  z.object({ latest: z.number().nullable() }),
+]);
+
+const metricChartBucketSchema = chartBucketSchema.extend({
+  // Both keyed by field name
+  values: z.record(z.string(), metricFieldStatsSchema),
+  units: z.record(z.string(), z.string()),
+});
+
+export const metricChartDataSchema = makeApiCompatible(
+  z.array(metricChartBucketSchema)
+);
+
+
+
+export const ingestionReceiptStatusSchema = z.enum(['buffered', 'queued', 'processed', 'failed']);
+
+export const receiptIdParamSchema = z.object({
+  receiptId: z.string().uuid('Receipt ID must be a UUID'),
+});
+
+export const heartRateAcceptedResponseSchema = z.object({
+  message: z.string(),
+  // Omitted when HEART_RATE_INGESTION_MODE=sync stores the reading directly
+  receiptId: z.string().optional(),
+  duplicate: z.boolean(),
+  // Set when the reading was accepted but flagged, e.g. READING_TOO_OLD
+  warning: z.object({
+    message: z.string(),
+    code: z.string(),
+  }).optional(),
+});
+
+export const ingestionReceiptSchema = z.object({
+  receiptId: z.string(),
+  status: ingestionReceiptStatusSchema,
+  jobId: z.string().optional(),
+  error: z.string().optional(),
+  updatedAt: z.string(),
+});
+
+export const queueJobCountsSchema = z.object({
+  active: z.number(),
+  completed: z.number(),
+  failed: z.number(),
+  delayed: z.number(),
+  waiting: z.number(),
+});
+
+export const batchStatusSchema = z.object({
+  kind: vitalsTypeEnumSchema,
+  mode: z.enum(['sync', 'async']),
+  currentBatchSize: z.number(),
+  maxBatchSize: z.number(),
+  batchFlushInterval: z.number(),
+  isTimeoutActive: z.boolean(),
+  estimatedTimeToFlush: z.string().optional(),
+});
+
+// One entry per vitals queue, keyed heartRate / bloodPressure / weight
+function byQueueKind<T extends z.ZodTypeAny>(schema: T) {
+  return z.object({
+    heartRate: schema,
+    bloodPressure: schema,
+    weight: schema,
+  });
+}
+
+export const queueStatsSchema = z.object({
+  queues: byQueueKind(queueJobCountsSchema),
+  batchStatus: byQueueKind(batchStatusSchema),
+});
+
+export const queueJobSummarySchema = z.object({
+  id: z.string(),
+  kind: vitalsTypeEnumSchema,
+  state: z.string(),
+  readingsCount: z.number(),
+  attemptsMade: z.number(),
+  maxAttempts: z.number(),
+  failedReason: z.string().optional(),
+  createdAt: z.string(),
+  processedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+});
+
+export const failedQueueJobsSchema = byQueueKind(z.array(queueJobSummarySchema));
+
+export const queueJobIdsSchema = byQueueKind(z.array(z.string()));
+
+const queueWorkerStatusSchema = z.object({
+  ready: z.boolean(),
+  concurrency: z.number(),
+});
+
+export const workerStatusSchema = z.object({
+  embedded: z.boolean(),
+  heartRate: queueWorkerStatusSchema.optional(),
+  bloodPressure: queueWorkerStatusSchema.optional(),
+  weight: queueWorkerStatusSchema.optional(),
+});
+
+export const queueKindQuerySchema = z.object({
+  kind: vitalsTypeEnumSchema.default('heart_rate'),
+});
+
+export const jobIdParamSchema = z.object({
+  jobId: z.string().min(1),
+});
+
+export const updateBatchSizeSchema = z.object({
+  batchSize: z.number().int(),
+});
+
+export const heartRateDeadLetterSchema = z.object({
+  id: z.number(),
+  receiptId: z.string().nullable(),
+  patientId: z.number(),
+  bpm: z.number(),
+  recordedAt: z.date(),
+  context: measurementContextSchema.nullable(),
+  deviceId: z.number().nullable(),
+  error: z.string(),
+  errorCode: z.string().nullable(),
+  jobId: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export const listDeadLettersQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const replayDeadLettersSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(1000).optional(),
+});
+
+export const deadLetterIdParamSchema = z.object({
+  deadLetterId: z.string()
+    .regex(/^\d+$/, 'Dead letter ID must be a number')
+    .transform((val) => parseInt(val, 10)),
+});
+
+export const deviceIdParamSchema = z.object({
+  deviceId: z.string()
+    .regex(/^\d+$/, 'Device ID must be a number')
+    .transform((val) => parseInt(val, 10)),
+});
+
+export const deviceTokenParamSchema = deviceIdParamSchema.extend({
+  tokenId: z.string()
+    .regex(/^\d+$/, 'Token ID must be a number')
+    .transform((val) => parseInt(val, 10)),
+});
+
+export const registerDeviceSchema = z.object({
+  serialNumber: z.string().trim().min(1, 'Serial number is required').max(128),
+  model: z.string().trim().min(1, 'Model is required').max(128),
+  patientId: z.number().int().positive().optional(),
+  firmwareVersion: z.string().trim().min(1).max(64).optional(),
+});
+
+// `patientId: null` unbinds the device
+export const updateDeviceSchema = z.object({
+  model: registerDeviceSchema.shape.model.optional(),
+  patientId: z.number().int().positive().nullable().optional(),
+}).refine((update) => Object.keys(update).length > 0, 'Nothing to update');
+
+export const listDevicesQuerySchema = z.object({
+  patientId: z.coerce.number().int().positive().optional(),
+});
+
+export const deviceSchema = z.object({
+  id: z.number(),
+  patientId: z.number().nullable(),
+  serialNumber: z.string(),
+  model: z.string(),
+  firmwareVersion: z.string().nullable(),
+  lastSeenAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const deviceTokenSchema = z.object({
+  id: z.number(),
+  deviceId: z.number(),
+  createdAt: z.date(),
+  revokedAt: z.date().nullable(),
+});
+
+// The only response that carries the token itself
+export const issuedDeviceTokenSchema = deviceTokenSchema.extend({
+  token: z.string(),
+});
 
+export const rebuildHeartRateAggregatesSchema = fromNotAfterTo(z.object({
+  // Omit to rebuild every patient
+  patientId: z.number().int().positive().optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  dryRun: z.boolean().default(true),
+  warmCache: z.boolean().default(false),
+}));
+
+const heartRateAggregateValuesSchema = z.object({
+  bpmMin: z.number(),
+  bpmMinRecordedAt: z.string(),
+  bpmMax: z.number(),
+  bpmMaxRecordedAt: z.string(),
+  bpmSum: z.number(),
+  bpmCount: z.number(),
+  bpmRestingEstimate: z.number().nullable(),
+});
+
+export const heartRateAggregateChangeSchema = z.object({
+  patientId: z.number(),
+  date: z.string(),
+  action: z.enum(['create', 'update', 'delete']),
+  before: heartRateAggregateValuesSchema.nullable(),
+  after: heartRateAggregateValuesSchema.nullable(),
+});
+
+export const heartRateAggregateRebuildReportSchema = z.object({
+  dryRun: z.boolean(),
+  patients: z.number(),
+  days: z.number(),
+  created: z.number(),
+  updated: z.number(),
+  deleted: z.number(),
+  unchanged: z.number(),
+  cacheWarmed: z.number(),
+  changes: z.array(heartRateAggregateChangeSchema),
+  changesTruncated: z.boolean(),
+});
+
+export const aggregateRebuildJobSchema = z.object({
+  jobId: z.string(),
+  state: z.string(),
+  progress: z.number(),
+  report: heartRateAggregateRebuildReportSchema.optional(),
+  failedReason: z.string().optional(),
+});
+
+export const readingPathTypeSchema = z.enum(['heart-rate', 'blood-pressure', 'weight'])
+  .transform((val) => val.replace('-', '_') as z.infer<typeof vitalsTypeEnumSchema>);
+
+export const readingParamSchema = z.object({
+  type: readingPathTypeSchema,
+  recordId: z.string()
+    .regex(/^\d+$/, 'Record ID must be a number')
+    .transform((val) => parseInt(val, 10)),
+});
+
+export const recordIdParamSchema = readingParamSchema.pick({ recordId: true });
+
+// Who made the change is taken from the admin key, not the body
+const readingChangeSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required').max(1024),
+});
+
+export const voidReadingSchema = readingChangeSchema;
+
+export const amendHeartRateReadingSchema = readingChangeSchema.extend({
+  bpm: postHeartRateDataSchema.shape.bpm,
+});
+
+export const amendBloodPressureReadingSchema = readingChangeSchema.extend({
+  systolic: postBloodPressureDataSchema.shape.systolic,
+  diastolic: postBloodPressureDataSchema.shape.diastolic,
+});
+
+export const amendWeightReadingSchema = readingChangeSchema.extend({
+  weightKg: weightKgSchema,
+});
+
+export const vitalsReadingAuditSchema = z.object({
+  id: z.number(),
+  type: vitalsTypeEnumSchema,
+  recordId: z.number(),
+  patientId: z.number(),
+  action: z.enum(['amend', 'void']),
+  previousValue: z.record(z.number()),
+  newValue: z.record(z.number()).nullable(),
+  changedBy: z.string(),
+  reason: z.string(),
+  createdAt: z.date(),
+});
+
+export const readingCorrectionResponseSchema = z.object({
+  message: z.string(),
+  audit: vitalsReadingAuditSchema,
+});
 
 export const latestHeartRateSchema = z.object({
   patientId: z.number(),
@@ -279,13 +947,60 @@ export const errorResponseSchema = z.object({
   code: z.string().optional(),
 });
 
-export type PostHeartRateData = z.infer<typeof postHeartRateDataSchema>;
-export type PostBloodPressureData = z.infer<typeof postBloodPressureDataSchema>;
-export type PostWeightData = z.infer<typeof postWeightDataSchema>;
+export type ListPatientsQuery = z.infer<typeof listPatientsQuerySchema>;
+// Set from the device token that submitted a reading, never from its body
+export interface ReadingOrigin {
+  deviceId?: number;
+}
+
+export type ReadingTimestampFlag = 'late' | 'future';
+
+// Set when the reading is accepted, so a reading stored later by the worker
+// keeps the flag it was ingested with
+export interface ReadingWindowFlag {
+  timestampFlag?: ReadingTimestampFlag;
+}
+
+export type PostHeartRateData = z.infer<typeof postHeartRateDataSchema> & ReadingOrigin & ReadingWindowFlag;
+export type PostBloodPressureData = z.infer<typeof postBloodPressureDataSchema> & ReadingOrigin;
+export type PostWeightData = z.infer<typeof postWeightDataSchema> & ReadingOrigin;
+export type PostMetricData = z.infer<typeof postMetricDataSchema> & ReadingOrigin;
+export type MeasurementContext = z.infer<typeof measurementContextSchema>;
 export type ChartPeriodParam = z.infer<typeof chartPeriodParamSchema>;
+export type ChartBucket = z.infer<typeof chartBucketEnumSchema>;
+export type ChartRangeQuery = z.infer<typeof chartRangeQuerySchema>;
+export type ChartQuery = z.infer<typeof chartQuerySchema>;
+export type HeartRateChartQuery = z.infer<typeof heartRateChartQuerySchema>;
+export type HeartRateRecordsQuery = z.infer<typeof heartRateRecordsQuerySchema>;
+export type WeightChartQuery = z.infer<typeof weightChartQuerySchema>;
+export type MetricChartQuery = z.infer<typeof metricChartQuerySchema>;
+export type BloodPressureCategory = z.infer<typeof bloodPressureCategorySchema>;
+export type BloodPressureGuideline = z.infer<typeof bloodPressureGuidelineSchema>;
+export type BloodPressureChartQuery = z.infer<typeof bloodPressureChartQuerySchema>;
+export type BloodPressureSummaryQuery = z.infer<typeof bloodPressureSummaryQuerySchema>;
+export type BloodPressureSummaryReport = z.infer<typeof bloodPressureSummarySchema>;
+export type IngestionReceiptResponse = z.infer<typeof ingestionReceiptSchema>;
+export type ListDeadLettersQuery = z.infer<typeof listDeadLettersQuerySchema>;
+export type RegisterDevice = z.infer<typeof registerDeviceSchema>;
+export type UpdateDevice = z.infer<typeof updateDeviceSchema>;
+export type ListDevicesQuery = z.infer<typeof listDevicesQuerySchema>;
+export type DeviceToken = z.infer<typeof deviceTokenSchema>;
+export type IssuedDeviceToken = z.infer<typeof issuedDeviceTokenSchema>;
+export type VitalsType = z.infer<typeof vitalsTypeEnumSchema>;
+export type MetricAggregation = z.infer<typeof metricAggregationSchema>;
+export type MetricDefinitionResponse = z.infer<typeof metricDefinitionSchema>;
+export type MetricFieldStats = z.infer<typeof metricFieldStatsSchema>;
+export type MetricChartBucket = z.infer<typeof metricChartBucketSchema>;
+export type RebuildHeartRateAggregatesRequest = z.infer<typeof rebuildHeartRateAggregatesSchema>;
+export type HeartRateAggregateChange = z.infer<typeof heartRateAggregateChangeSchema>;
+export type HeartRateAggregateRebuildReport = z.infer<typeof heartRateAggregateRebuildReportSchema>;
+export type ReadingChange = z.infer<typeof readingChangeSchema>;
+export type VitalsBatchItem = z.infer<typeof vitalsBatchItemSchema>;
+export type VitalsBatchItemResult = z.infer<typeof vitalsBatchItemResultSchema>;
 export type HealthResponse = z.infer<typeof healthResponseSchema>;
 export type ErrorResponse = z.infer<typeof errorResponseSchema>;
-export type BloodPressureSummary = z.infer<typeof bloodPressureChartDataSchema>[number];
+export type BloodPressureSummary = z.infer<typeof bloodPressureChartBucketSchema>;
+export type ValueStats = z.infer<typeof valueStatsSchema>;
 export type WeightSummary = z.infer<typeof weightChartDataSchema>[number];
 export type HeartRateSummary = z.infer<typeof heartRateChartDataSchema>[number];
 
@@ -300,3 +1015,9 @@ export type DrizzleWeightRecord = typeof weightRecords.$inferSelect;
 export type DrizzleNewWeightRecord = typeof weightRecords.$inferInsert;
 export type DrizzleHeartRateRecord = typeof heartRateRecords.$inferSelect;
 export type DrizzleNewHeartRateRecord = typeof heartRateRecords.$inferInsert;
+export type DrizzleHealthMetric = typeof healthMetrics.$inferSelect;
+export type DrizzleNewHealthMetric = typeof healthMetrics.$inferInsert;
+export type DrizzleVitalsReadingAudit = typeof vitalsReadingAudits.$inferSelect;
+export type DrizzleDevice = typeof devices.$inferSelect;
+export type DrizzleHeartRateDeadLetter = typeof heartRateDeadLetters.$inferSelect;
+export type DrizzleNewHeartRateDeadLetter = typeof heartRateDeadLetters.$inferInsert;
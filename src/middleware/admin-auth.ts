@@ -0,0 +1,68 @@
+import { timingSafeEqual } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+export const ADMIN_API_KEY_HEADER = 'x-admin-api-key';
+
+// The actor recorded for requests made with the shared ADMIN_API_KEY
+export const SHARED_ADMIN_ACTOR = 'admin';
+
+interface AdminKey {
+  actor: string;
+  key: string;
+}
+
+function keysMatch(provided: string, expected: string): boolean {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+// ADMIN_API_KEYS holds named keys (`dr.smith:key1,ops:key2`), so changes
+// can be attributed to whoever made them; ADMIN_API_KEY is one shared key
+function configuredAdminKeys(): AdminKey[] {
+  const keys = (process.env.ADMIN_API_KEYS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .flatMap(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) return [];
+      return [{ actor: entry.slice(0, separator), key: entry.slice(separator + 1) }];
+    });
+
+  if (process.env.ADMIN_API_KEY) {
+    keys.push({ actor: SHARED_ADMIN_ACTOR, key: process.env.ADMIN_API_KEY });
+  }
+  return keys;
+}
+
+// Guards /admin routes with the configured admin keys and leaves the
+// matching key's actor in `res.locals.adminActor`. Admin routes are
+// disabled entirely when no key is configured.
+export function requireAdminApiKey(req: Request, res: Response, next: NextFunction) {
+  const keys = configuredAdminKeys();
+
+  if (keys.length === 0) {
+    res.status(403).json({
+      message: 'Admin API is disabled (neither ADMIN_API_KEY nor ADMIN_API_KEYS is set)',
+      code: 'ADMIN_API_DISABLED',
+    });
+    return;
+  }
+
+  const provided = req.header(ADMIN_API_KEY_HEADER);
+  const match = provided ? keys.find(({ key }) => keysMatch(provided, key)) : undefined;
+  if (!match) {
+    res.status(401).json({
+      message: 'Missing or invalid admin API key',
+      code: 'UNAUTHORIZED',
+    });
+    return;
+  }
+
+  res.locals.adminActor = match.actor;
+  next();
+}
+
+export function adminActor(res: Response): string {
+  return res.locals.adminActor;
+}
@@ -0,0 +1,92 @@
+import type { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { DeviceError, type AuthenticatedDevice, type DeviceService } from '../services/device-service';
+
+export const DEVICE_FIRMWARE_HEADER = 'x-device-firmware';
+
+export const deviceAuthConfig = {
+  // Opt-in: unless DEVICE_TOKEN_REQUIRED=true, readings without a device
+  // token are accepted as they were before devices existed
+  required: process.env.DEVICE_TOKEN_REQUIRED === 'true',
+};
+
+// The contract's rule for `patientId`; values that break it are left for
+// request validation to answer with a 400
+const patientIdSchema = z.number().positive();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function bearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Fills in the device's patient on readings that leave `patientId` out, and
+ * refuses readings for any other patient. Batch bodies are checked item by
+ * item; anything malformed is left to request validation.
+ */
+export function scopeReadingsToDevice(body: unknown, device: AuthenticatedDevice): void {
+  const readings = isRecord(body) && Array.isArray(body.readings) ? body.readings : [body];
+
+  for (const reading of readings) {
+    if (!isRecord(reading)) continue;
+
+    if (reading.patientId === undefined) {
+      reading.patientId = device.patientId;
+      continue;
+    }
+
+    const patientId = patientIdSchema.safeParse(reading.patientId);
+    if (patientId.success && patientId.data !== device.patientId) {
+      throw new DeviceError(
+        `Device ${device.id} cannot submit readings for patient ${patientId.data}`,
+        'DEVICE_PATIENT_MISMATCH',
+        403
+      );
+    }
+  }
+}
+
+// Authenticates `Authorization: Bearer <device token>` on the vitals
+// ingestion routes and leaves the device in `res.locals.device`. Requests
+// without a token pass through unless `deviceAuthConfig.required` is set.
+export function authenticateDevice(deviceService: DeviceService) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = bearerToken(req.header('authorization'));
+
+    if (!token) {
+      if (deviceAuthConfig.required) {
+        res.status(401).json({
+          message: 'A device token is required to submit readings',
+          code: 'DEVICE_TOKEN_REQUIRED',
+        });
+        return;
+      }
+      next();
+      return;
+    }
+
+    try {
+      const device = await deviceService.authenticate(token, req.header(DEVICE_FIRMWARE_HEADER));
+      scopeReadingsToDevice(req.body, device);
+      res.locals.device = device;
+      next();
+    } catch (error) {
+      if (error instanceof DeviceError) {
+        res.status(error.statusCode).json({
+          message: error.message,
+          code: error.code,
+        });
+        return;
+      }
+      next(error);
+    }
+  };
+}
+
+export function authenticatedDevice(res: Response): AuthenticatedDevice | undefined {
+  return res.locals.device;
+}
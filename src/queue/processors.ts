@@ -1,23 +1,148 @@
 import { Job } from 'bull';
-import { VitalsService } from '../services/vitals-service';
-import { 
-  PostHeartRateData,
-} from '../db/schema';
+import { VitalsService, type ReadingBatchResult } from '../services/vitals-service';
+import { DeadLetterService } from '../services/dead-letter-service';
+import { AggregateService } from '../services/aggregate-service';
+import { redisRepository } from '../db/redis-repository';
+import {
+  HeartRateBatchReading,
+  BloodPressureBatchReading,
+  WeightBatchReading,
+} from './queue-config';
+import type { RebuildHeartRateAggregatesRequest } from '../db/schema';
 
 const vitalsService = new VitalsService();
+const deadLetterService = new DeadLetterService();
+const aggregateService = new AggregateService();
 
 
-export async function processHeartRateBatch(job: Job<PostHeartRateData[]>) {
+export async function processHeartRateBatch(job: Job<HeartRateBatchReading[]>) {
   const readings = job.data;
-  
+  const jobId = String(job.id);
+
   console.log(`🫀 Processing batch of ${readings.length} heart rate readings`);
-  
+
   try {
-    await vitalsService.processHeartRateBatch(readings);
-    
-    console.log(`✅ Batch of ${readings.length} heart rate readings processed successfully`);
-  } catch (error) {
+    const completedGroups = await redisRepository.getCompletedBatchGroups(jobId);
+    const settled = new Set<string>();
+
+    const result = await vitalsService.processHeartRateBatch(readings, {
+      completedGroups,
+      // A group is marked completed only once its dead letters and receipts
+      // are saved, so a retry that skips it has nothing left to report for it
+      onGroupCommitted: async (groupKey, outcome) => {
+        const receiptIds = [
+          ...outcome.processed.map(reading => reading.receiptId),
+          ...outcome.failed.map(failure => failure.reading.receiptId),
+        ];
+        await deadLetterService.recordHeartRateFailures(outcome.failed, jobId);
+        await settleReceipts(jobId, outcome);
+        await redisRepository.markBatchGroupCompleted(jobId, groupKey, receiptIds);
+        receiptIds.forEach(receiptId => settled.add(receiptId));
+      },
+    });
+
+    // Readings outside any committed group, such as exact re-sends within the batch
+    const rest = {
+      processed: result.processed.filter(reading => !settled.has(reading.receiptId)),
+      failed: result.failed.filter(failure => !settled.has(failure.reading.receiptId)),
+    };
+    // Bad readings are set aside instead of failing (and retrying) the whole job
+    await deadLetterService.recordHeartRateFailures(rest.failed, jobId);
+    await settleReceipts(jobId, rest);
+    await redisRepository.clearCompletedBatchGroups(jobId);
+
+    console.log(`✅ Batch of ${result.processed.length} heart rate readings processed successfully`);
+  } catch (error: any) {
     console.error(`❌ Heart rate batch processing failed:`, error);
+    await recordAttemptFailure(job, error, await redisRepository.getSettledBatchReceipts(jobId));
+    throw error;
+  }
+}
+
+export async function processBloodPressureBatch(job: Job<BloodPressureBatchReading[]>) {
+  const readings = job.data;
+
+  console.log(`🩺 Processing batch of ${readings.length} blood pressure readings`);
+
+  try {
+    // A single bulk insert, so a retry never re-inserts part of the batch
+    const result = await vitalsService.storeBloodPressureBatch(readings);
+    await settleReceipts(String(job.id), result);
+
+    console.log(`✅ Batch of ${result.processed.length} blood pressure readings processed successfully`);
+  } catch (error: any) {
+    console.error(`❌ Blood pressure batch processing failed:`, error);
+    await recordAttemptFailure(job, error);
     throw error;
   }
 }
+
+export async function processWeightBatch(job: Job<WeightBatchReading[]>) {
+  const readings = job.data;
+
+  console.log(`⚖️ Processing batch of ${readings.length} weight readings`);
+
+  try {
+    const result = await vitalsService.storeWeightBatch(readings);
+    await settleReceipts(String(job.id), result);
+
+    console.log(`✅ Batch of ${result.processed.length} weight readings processed successfully`);
+  } catch (error: any) {
+    console.error(`❌ Weight batch processing failed:`, error);
+    await recordAttemptFailure(job, error);
+    throw error;
+  }
+}
+
+export async function processHeartRateAggregateRebuild(job: Job<RebuildHeartRateAggregatesRequest>) {
+  console.log(`🔧 Processing heart rate aggregate rebuild job ${job.id}`);
+
+  try {
+    // The report becomes the job's return value, read back by the admin API
+    return await aggregateService.rebuildHeartRateAggregates(job.data, async (done, total) => {
+      await job.progress(Math.floor((done / total) * 100));
+    });
+  } catch (error: any) {
+    console.error(`❌ Heart rate aggregate rebuild failed:`, error);
+    throw error;
+  }
+}
+
+// A rejected reading also gives up its dedup claim, so a resend with the
+// same Idempotency-Key or readingId is stored rather than answered as a
+// duplicate of the rejected one
+async function settleReceipts(
+  jobId: string,
+  result: ReadingBatchResult<{ receiptId: string; dedupKey?: string }>
+) {
+  for (const failure of result.failed) {
+    await redisRepository.setIngestionReceipts([failure.reading.receiptId], 'failed', {
+      jobId,
+      error: failure.error,
+    });
+    if (failure.reading.dedupKey) {
+      await redisRepository.releaseIngestionKey(failure.reading.dedupKey);
+    }
+  }
+
+  await redisRepository.setIngestionReceipts(
+    result.processed.map(reading => reading.receiptId),
+    'processed',
+    { jobId }
+  );
+}
+
+// Receipts stay queued while Bull still has retries left for this job.
+// Receipts settled by a completed group of the job keep their outcome.
+async function recordAttemptFailure(
+  job: Job<{ receiptId: string }[]>,
+  error: Error,
+  settled: Set<string> = new Set()
+) {
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+  await redisRepository.setIngestionReceipts(
+    job.data.map(reading => reading.receiptId).filter(receiptId => !settled.has(receiptId)),
+    isFinalAttempt ? 'failed' : 'queued',
+    { jobId: String(job.id), error: error.message }
+  );
+}
@@ -1,15 +1,120 @@
 import Queue from 'bull';
 import 'dotenv/config';
+import {
+  PostHeartRateData,
+  PostBloodPressureData,
+  PostWeightData,
+  VitalsType,
+} from '../db/schema';
 
 export const QUEUE_NAMES = {
   HEART_RATE_BATCH: 'heart-rate-batch',
+  BLOOD_PRESSURE_BATCH: 'blood-pressure-batch',
+  WEIGHT_BATCH: 'weight-batch',
+  AGGREGATE_REBUILD: 'heart-rate-aggregate-rebuild',
 } as const;
 
+export type VitalsJobKind = VitalsType;
+
+export interface VitalsReadingByKind {
+  heart_rate: PostHeartRateData;
+  blood_pressure: PostBloodPressureData;
+  weight: PostWeightData;
+}
+
+// Each reading carries the receipt id handed back to the client on ingestion,
+// and the dedup key it claimed, which is released if the reading is rejected
+export type BatchReading<K extends VitalsJobKind> = VitalsReadingByKind[K] & {
+  receiptId: string;
+  dedupKey?: string;
+};
+
+export type HeartRateBatchReading = BatchReading<'heart_rate'>;
+export type BloodPressureBatchReading = BatchReading<'blood_pressure'>;
+export type WeightBatchReading = BatchReading<'weight'>;
+
+// `sync` stores the reading inside the request; `async` buffers it and
+// answers 202 with an ingestion receipt, like heart rate always did.
+export type IngestionMode = 'sync' | 'async';
+
+export interface VitalsJobKindConfig {
+  label: string;
+  // Key used for this kind in admin responses, e.g. `{ heartRate: ... }`
+  responseKey: 'heartRate' | 'bloodPressure' | 'weight';
+  queueName: string;
+  jobName: string;
+  jobIdPrefix: string;
+  // Redis list prefix of the per-instance durable buffer
+  bufferName: string;
+  mode: IngestionMode;
+  batchSize: number;
+}
+
+function ingestionMode(value: string | undefined, fallback: IngestionMode): IngestionMode {
+  return value === 'sync' || value === 'async' ? value : fallback;
+}
+
+export const jobKinds: Record<VitalsJobKind, VitalsJobKindConfig> = {
+  heart_rate: {
+    label: 'Heart rate',
+    responseKey: 'heartRate',
+    queueName: QUEUE_NAMES.HEART_RATE_BATCH,
+    jobName: 'heart-rate-batch',
+    jobIdPrefix: 'hr_batch',
+    bufferName: 'hr_buffer',
+    mode: ingestionMode(process.env.HEART_RATE_INGESTION_MODE, 'async'),
+    batchSize: 200,
+  },
+  blood_pressure: {
+    label: 'Blood pressure',
+    responseKey: 'bloodPressure',
+    queueName: QUEUE_NAMES.BLOOD_PRESSURE_BATCH,
+    jobName: 'blood-pressure-batch',
+    jobIdPrefix: 'bp_batch',
+    bufferName: 'bp_buffer',
+    mode: ingestionMode(process.env.BLOOD_PRESSURE_INGESTION_MODE, 'sync'),
+    batchSize: 100,
+  },
+  weight: {
+    label: 'Weight',
+    responseKey: 'weight',
+    queueName: QUEUE_NAMES.WEIGHT_BATCH,
+    jobName: 'weight-batch',
+    jobIdPrefix: 'weight_batch',
+    bufferName: 'weight_buffer',
+    mode: ingestionMode(process.env.WEIGHT_INGESTION_MODE, 'sync'),
+    batchSize: 100,
+  },
+};
+
+export const VITALS_JOB_KINDS = Object.keys(jobKinds) as VitalsJobKind[];
+
+export type ByJobKind<T> = Record<VitalsJobKindConfig['responseKey'], T>;
+
+export async function mapJobKinds<T>(fn: (kind: VitalsJobKind) => Promise<T>): Promise<ByJobKind<T>> {
+  const entries = await Promise.all(
+    VITALS_JOB_KINDS.map(async kind => [jobKinds[kind].responseKey, await fn(kind)] as const)
+  );
+  return Object.fromEntries(entries) as ByJobKind<T>;
+}
+
+export function jobKindOf(jobId: string): VitalsJobKind | undefined {
+  return VITALS_JOB_KINDS.find(kind => jobId.startsWith(`${jobKinds[kind].jobIdPrefix}_`));
+}
+
 const redisConfig = {
   host: process.env.REDIS_HOST || 'localhost',
   port: parseInt(process.env.REDIS_PORT || '6379'),
 };
 
+export const workerConfig = {
+  // Jobs processed in parallel by each worker process, per queue
+  concurrency: parseInt(process.env.WORKER_CONCURRENCY || '1'),
+  // When false the API server only enqueues and a separate `src/worker.ts` process consumes
+  embedded: process.env.EMBEDDED_WORKER !== 'false',
+};
+
+// Shared by every vitals queue: same retries and backoff for all kinds
 export const queueOptions: Queue.QueueOptions = {
   redis: redisConfig,
   defaultJobOptions: {
@@ -24,12 +129,22 @@ export const queueOptions: Queue.QueueOptions = {
 };
 
 export const heartRateQueue = new Queue(QUEUE_NAMES.HEART_RATE_BATCH, queueOptions);
+export const bloodPressureQueue = new Queue(QUEUE_NAMES.BLOOD_PRESSURE_BATCH, queueOptions);
+export const weightQueue = new Queue(QUEUE_NAMES.WEIGHT_BATCH, queueOptions);
+
+// Maintenance jobs; a rebuild is idempotent, so the shared retries are safe
+export const aggregateRebuildQueue = new Queue(QUEUE_NAMES.AGGREGATE_REBUILD, queueOptions);
 
-export const queues = {
-  heartRate: heartRateQueue,
+export const queues: Record<VitalsJobKind, Queue.Queue> = {
+  heart_rate: heartRateQueue,
+  blood_pressure: bloodPressureQueue,
+  weight: weightQueue,
 };
 
 export async function closeQueues() {
-  await heartRateQueue.close();
-  console.log('🔌 Heart rate batch queue closed');
+  await Promise.all([
+    ...VITALS_JOB_KINDS.map(kind => queues[kind].close()),
+    aggregateRebuildQueue.close(),
+  ]);
+  console.log('🔌 Vitals batch queues closed');
 }
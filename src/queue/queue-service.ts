@@ -1,140 +1,469 @@
+import { randomUUID } from 'crypto';
+import { Job } from 'bull';
 import { 
-  heartRateQueue,
+  queues,
+  aggregateRebuildQueue,
+  jobKinds,
+  jobKindOf,
+  mapJobKinds,
+  VITALS_JOB_KINDS,
+  BatchReading,
+  HeartRateBatchReading,
+  VitalsJobKind,
+  VitalsReadingByKind,
 } from './queue-config';
-import { 
-  PostHeartRateData
+import type {
+  HeartRateAggregateRebuildReport,
+  RebuildHeartRateAggregatesRequest,
 } from '../db/schema';
+import { redisRepository } from '../db/redis-repository';
+import { DeadLetterService } from '../services/dead-letter-service';
+
+export class QueueError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: 400 | 404 | 409 | 500 = 500
+  ) {
+    super(message);
+    this.name = 'QueueError';
+  }
+}
+
+export interface QueueJobSummary {
+  id: string;
+  kind: VitalsJobKind;
+  state: string;
+  readingsCount: number;
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason?: string;
+  createdAt: string;
+  processedAt?: string;
+  finishedAt?: string;
+}
+
+interface KindBufferState {
+  // This instance's durable buffer for the kind in Redis
+  bufferKey: string;
+  batchSize: number;
+  batchTimeout: NodeJS.Timeout | null;
+  // When the pending batch timeout was set, for the flush estimate
+  batchTimeoutStartedAt: number | null;
+  flushInProgress: Promise<void> | null;
+}
+
+type AnyBatchReading = BatchReading<VitalsJobKind>;
 
 export class QueueService {
-  private heartRateBatch: PostHeartRateData[] = [];
-  private batchSize = 200;
-  private batchTimeout: NodeJS.Timeout | null = null;
+  // Identifies this instance's durable buffers in Redis
+  private readonly instanceId = randomUUID();
+  private readonly buffers: Record<VitalsJobKind, KindBufferState>;
+  private flushInterval: NodeJS.Timeout | null = null;
+  private heartbeatInterval: NodeJS.Timeout | null = null;
   private readonly BATCH_FLUSH_INTERVAL = 2000;
   private readonly MAX_BATCH_SIZE = 1000;
+  private readonly HEARTBEAT_INTERVAL = 10000;
+  private readonly HEARTBEAT_TTL_SECONDS = 30;
+  private readonly deadLetterService = new DeadLetterService();
   
   constructor() {
+    this.buffers = Object.fromEntries(VITALS_JOB_KINDS.map(kind => [kind, {
+      bufferKey: redisRepository.bufferKey(jobKinds[kind].bufferName, this.instanceId),
+      batchSize: jobKinds[kind].batchSize,
+      batchTimeout: null,
+      batchTimeoutStartedAt: null,
+      flushInProgress: null,
+    }])) as Record<VitalsJobKind, KindBufferState>;
+
     this.setupBatchFlushTimer();
+    this.setupHeartbeat();
   }
 
   private setupBatchFlushTimer() {
-    setInterval(() => {
-      this.flushHeartRateBatch();
+    this.flushInterval = setInterval(() => {
+      for (const kind of VITALS_JOB_KINDS) {
+        this.flushBatch(kind);
+      }
     }, this.BATCH_FLUSH_INTERVAL);
   }
 
-  async addHeartRateJob(data: PostHeartRateData) {
-    this.heartRateBatch.push(data);
+  private setupHeartbeat() {
+    const beat = () => {
+      redisRepository
+        .refreshBufferHeartbeat(this.instanceId, this.HEARTBEAT_TTL_SECONDS)
+        .catch(error => console.error('❌ Error refreshing ingestion buffer heartbeat:', error));
+    };
+
+    beat();
+    this.heartbeatInterval = setInterval(beat, this.HEARTBEAT_INTERVAL);
+  }
+
+  async addReadingJob<K extends VitalsJobKind>(
+    kind: K,
+    data: VitalsReadingByKind[K],
+    receiptId: string = randomUUID(),
+    dedupKey?: string
+  ) {
+    const state = this.buffers[kind];
+    const { label, bufferName } = jobKinds[kind];
+    const reading: BatchReading<K> = { ...data, receiptId, dedupKey };
+
+    const bufferedCount = await redisRepository.bufferReading(bufferName, this.instanceId, receiptId, reading);
     
-    if (this.heartRateBatch.length % 50 === 0) {
-      console.log(`📥 Heart rate reading added to batch. Batch size: ${this.heartRateBatch.length}`);
+    if (bufferedCount % 50 === 0) {
+      console.log(`📥 ${label} reading added to batch. Batch size: ${bufferedCount}`);
     }
     
-    if (this.heartRateBatch.length >= this.batchSize) {
-      await this.flushHeartRateBatch();
+    if (bufferedCount >= state.batchSize) {
+      await this.flushBatch(kind);
     } else {
-      if (this.batchTimeout) {
-        clearTimeout(this.batchTimeout);
+      if (state.batchTimeout) {
+        clearTimeout(state.batchTimeout);
       }
-      this.batchTimeout = setTimeout(() => {
-        this.flushHeartRateBatch();
+      state.batchTimeout = setTimeout(() => {
+        this.flushBatch(kind);
       }, this.BATCH_FLUSH_INTERVAL);
+      state.batchTimeoutStartedAt = Date.now();
     }
 
     return {
-      id: `hr_batch_${Date.now()}_${Math.random()}`,
+      id: receiptId,
       data: data
     };
   }
 
-  private async flushHeartRateBatch() {
-    if (this.heartRateBatch.length === 0) return;
-    
-    const batchToProcess = [...this.heartRateBatch];
-    this.heartRateBatch = [];
-    
-    if (this.batchTimeout) {
-      clearTimeout(this.batchTimeout);
-      this.batchTimeout = null;
+  private async flushBatch(kind: VitalsJobKind) {
+    const state = this.buffers[kind];
+
+    // Only one drain of this instance's buffer may run at a time, otherwise
+    // two flushes could read the same head of the list.
+    if (state.flushInProgress) {
+      return state.flushInProgress;
     }
 
-    console.log(`🔄 Flushing heart rate batch with ${batchToProcess.length} readings`);
-    
-    try {
-      await this.addHeartRateBatchJob(batchToProcess);
-    } catch (error) {
-      console.error('❌ Error processing heart rate batch:', error);
+    if (state.batchTimeout) {
+      clearTimeout(state.batchTimeout);
+      state.batchTimeout = null;
+      state.batchTimeoutStartedAt = null;
     }
+
+    state.flushInProgress = this.drainBuffer(kind, state.bufferKey)
+      .catch(error => {
+        // Readings stay in the Redis buffer and are retried on the next flush
+        console.error(`❌ Error processing ${jobKinds[kind].label.toLowerCase()} batch:`, error);
+      })
+      .finally(() => {
+        state.flushInProgress = null;
+      });
+
+    return state.flushInProgress;
   }
 
-  async addHeartRateBatchJob(readings: PostHeartRateData[]) {
+  /**
+   * Moves everything in a Redis buffer into Bull jobs, one batch at a time.
+   * A batch is trimmed from the buffer only after its job is queued, so a
+   * crash in between re-delivers the batch rather than losing it.
+   */
+  private async drainBuffer(kind: VitalsJobKind, bufferKey: string) {
+    while (true) {
+      const batchToProcess = await redisRepository.peekBuffer<AnyBatchReading>(
+        bufferKey,
+        this.buffers[kind].batchSize
+      );
+      if (batchToProcess.length === 0) return;
+
+      console.log(`🔄 Flushing ${jobKinds[kind].label.toLowerCase()} batch with ${batchToProcess.length} readings`);
+
+      const job = await this.addBatchJob(kind, batchToProcess);
+      await redisRepository.trimBuffer(bufferKey, batchToProcess.length);
+
+      if (job) {
+        await redisRepository.setIngestionReceipts(
+          batchToProcess.map(reading => reading.receiptId),
+          'queued',
+          { jobId: String(job.id) }
+        );
+      }
+    }
+  }
+
+  /**
+   * Claims and drains buffers left behind by instances that stopped without
+   * flushing (crash, OOM kill). Safe to run from several instances at once.
+   */
+  async recoverOrphanedBuffers() {
+    for (const kind of VITALS_JOB_KINDS) {
+      const { bufferName, label } = jobKinds[kind];
+      const orphanedKeys = await redisRepository.findOrphanedBuffers(bufferName);
+
+      for (const orphanKey of orphanedKeys) {
+        const claimedKey = await redisRepository.claimBuffer(bufferName, orphanKey, this.instanceId);
+        if (!claimedKey) continue;
+
+        const pending = await redisRepository.getBufferLength(claimedKey);
+        console.log(`♻️ Recovering ${pending} buffered ${label.toLowerCase()} readings from ${orphanKey}`);
+
+        await this.drainBuffer(kind, claimedKey);
+      }
+    }
+  }
+
+  /**
+   * Stops the flush timers and drains this instance's buffers into Bull.
+   * Call before closing the queues on graceful shutdown.
+   */
+  async shutdown() {
+    if (this.flushInterval) clearInterval(this.flushInterval);
+    if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
+    this.flushInterval = null;
+    this.heartbeatInterval = null;
+
+    console.log('🔄 Draining ingestion buffers before shutdown...');
+    for (const kind of VITALS_JOB_KINDS) {
+      const state = this.buffers[kind];
+
+      if (state.flushInProgress) {
+        await state.flushInProgress;
+      }
+      if (state.batchTimeout) {
+        clearTimeout(state.batchTimeout);
+        state.batchTimeout = null;
+        state.batchTimeoutStartedAt = null;
+      }
+
+      await this.drainBuffer(kind, state.bufferKey);
+    }
+    await redisRepository.clearBufferHeartbeat(this.instanceId);
+  }
+
+  async addBatchJob<K extends VitalsJobKind>(kind: K, readings: BatchReading<K>[]) {
     if (readings.length === 0) return null;
+
+    const { jobName, jobIdPrefix, label } = jobKinds[kind];
     
-    const job = await heartRateQueue.add('heart-rate-batch', readings, {
+    const job = await queues[kind].add(jobName, readings, {
       priority: 1,
       delay: 0,
-      jobId: `hr_batch_${Date.now()}`,
+      // Must be unique across instances: Bull silently drops a job whose id already exists
+      jobId: `${jobIdPrefix}_${randomUUID()}`,
     });
     
-    console.log(`📤 Heart rate batch job queued: ${job.id} with ${readings.length} readings`);
+    console.log(`📤 ${label} batch job queued: ${job.id} with ${readings.length} readings`);
     return job;
   }
 
   async getQueueStats() {
-    const heartRateStats = await heartRateQueue.getJobCounts();
-    return { 
-      heartRate: heartRateStats,
-      batchStatus: {
-        currentBatchSize: this.heartRateBatch.length,
-        maxBatchSize: this.batchSize,
-        batchFlushInterval: this.BATCH_FLUSH_INTERVAL,
-        isTimeoutActive: this.batchTimeout !== null
-      }
+    return {
+      queues: await mapJobKinds(kind => queues[kind].getJobCounts()),
+      batchStatus: await mapJobKinds(kind => this.getBatchStatus(kind)),
     };
   }
 
-  async getBatchStatus() {
+  async getBatchStatus(kind: VitalsJobKind = 'heart_rate') {
+    const state = this.buffers[kind];
+    const currentBatchSize = await redisRepository.getBufferLength(state.bufferKey);
     return {
-      currentBatchSize: this.heartRateBatch.length,
-      maxBatchSize: this.batchSize,
+      kind,
+      mode: jobKinds[kind].mode,
+      currentBatchSize,
+      maxBatchSize: state.batchSize,
       batchFlushInterval: this.BATCH_FLUSH_INTERVAL,
-      isTimeoutActive: this.batchTimeout !== null,
-      estimatedTimeToFlush: this.batchTimeout ? '500ms' : 'immediate'
+      isTimeoutActive: state.batchTimeout !== null,
+      estimatedTimeToFlush: this.estimatedTimeToFlush(state),
     };
   }
 
-  async forceFlushBatch() {
-    console.log('🔄 Force flushing heart rate batch...');
-    await this.flushHeartRateBatch();
+  // Time left on the pending batch timeout; the periodic flush may run sooner
+  private estimatedTimeToFlush(state: KindBufferState): string {
+    if (state.batchTimeoutStartedAt === null) return 'immediate';
+
+    const elapsed = Date.now() - state.batchTimeoutStartedAt;
+    return `${Math.max(0, this.BATCH_FLUSH_INTERVAL - elapsed)}ms`;
+  }
+
+  async forceFlushBatch(kind: VitalsJobKind = 'heart_rate') {
+    console.log(`🔄 Force flushing ${jobKinds[kind].label.toLowerCase()} batch...`);
+    await this.flushBatch(kind);
   }
 
-  async updateBatchSize(newSize: number) {
+  async updateBatchSize(newSize: number, kind: VitalsJobKind = 'heart_rate') {
     if (newSize < 1 || newSize > this.MAX_BATCH_SIZE) {
-      throw new Error(`Batch size must be between 1 and ${this.MAX_BATCH_SIZE}`);
+      throw new QueueError(
+        `Batch size must be between 1 and ${this.MAX_BATCH_SIZE}`,
+        'INVALID_BATCH_SIZE',
+        400
+      );
     }
     
-    this.batchSize = newSize;
-    console.log(`⚙️ Batch size updated to ${newSize}`);
+    const state = this.buffers[kind];
+    state.batchSize = newSize;
+    console.log(`⚙️ ${jobKinds[kind].label} batch size updated to ${newSize}`);
     
-    if (this.heartRateBatch.length >= this.batchSize) {
-      await this.flushHeartRateBatch();
+    const currentBatchSize = await redisRepository.getBufferLength(state.bufferKey);
+    if (currentBatchSize >= state.batchSize) {
+      await this.flushBatch(kind);
     }
   }
 
   async getFailedJobs() {
-    const heartRateFailed = await heartRateQueue.getFailed();
-    return { heartRate: heartRateFailed };
+    return mapJobKinds(async kind => {
+      const failed = await queues[kind].getFailed();
+      return Promise.all(failed.map(job => this.toJobSummary(kind, job)));
+    });
   }
 
   async retryFailedJobs() {
-    const failedJobs = await heartRateQueue.getFailed();
-    const retriedJobs = await Promise.all(
-      failedJobs.map(job => job.retry())
-    );
-    return { heartRate: retriedJobs };
+    return mapJobKinds(async kind => {
+      const failedJobs = await queues[kind].getFailed();
+      await Promise.all(failedJobs.map(job => this.retryJob(job)));
+      return failedJobs.map(job => String(job.id));
+    });
   }
 
   async cleanOldJobs() {
-    const heartRateCleaned = await heartRateQueue.clean(24 * 60 * 60 * 1000, 'completed');
-    return { heartRate: heartRateCleaned };
+    return mapJobKinds(async kind => {
+      const cleaned = await queues[kind].clean(24 * 60 * 60 * 1000, 'completed');
+      return cleaned.map(job => String(job.id));
+    });
+  }
+
+  /**
+   * Re-enqueues dead-lettered readings (all, oldest first, or the given ids)
+   * once the cause has been fixed. Rows are deleted only after their batch
+   * job has been queued.
+   */
+  async replayHeartRateDeadLetters(ids?: number[]) {
+    const deadLetters = await this.deadLetterService.getHeartRateDeadLetters(ids);
+    const jobIds: string[] = [];
+
+    const { batchSize } = this.buffers.heart_rate;
+
+    for (let i = 0; i < deadLetters.length; i += batchSize) {
+      const chunk = deadLetters.slice(i, i + batchSize);
+      const readings: HeartRateBatchReading[] = chunk.map(deadLetter => ({
+        patientId: deadLetter.patientId,
+        bpm: deadLetter.bpm,
+        timestamp: deadLetter.recordedAt.toISOString(),
+        context: deadLetter.context ?? undefined,
+        deviceId: deadLetter.deviceId ?? undefined,
+        timestampFlag: deadLetter.timestampFlag ?? undefined,
+        receiptId: deadLetter.receiptId ?? randomUUID(),
+      }));
+
+      const job = await this.addBatchJob('heart_rate', readings);
+      if (!job) continue;
+
+      jobIds.push(String(job.id));
+      await redisRepository.setIngestionReceipts(
+        readings.map(reading => reading.receiptId),
+        'queued',
+        { jobId: String(job.id) }
+      );
+      await this.deadLetterService.deleteHeartRateDeadLetters(chunk.map(deadLetter => deadLetter.id));
+    }
+
+    console.log(`♻️ Replayed ${deadLetters.length} dead-lettered heart rate readings`);
+    return { replayed: deadLetters.length, jobIds };
+  }
+
+  async addAggregateRebuildJob(request: RebuildHeartRateAggregatesRequest) {
+    const job = await aggregateRebuildQueue.add('heart-rate-aggregate-rebuild', request, {
+      jobId: `hr_aggregate_rebuild_${randomUUID()}`,
+    });
+
+    console.log(`📤 Heart rate aggregate rebuild job queued: ${job.id}`);
+    return job;
+  }
+
+  async getAggregateRebuildJob(jobId: string) {
+    const job = await aggregateRebuildQueue.getJob(jobId);
+    if (!job) {
+      throw new QueueError(`Job ${jobId} not found`, 'JOB_NOT_FOUND', 404);
+    }
+
+    return {
+      jobId: String(job.id),
+      state: await job.getState(),
+      progress: Number(job.progress()) || 0,
+      report: (job.returnvalue ?? undefined) as HeartRateAggregateRebuildReport | undefined,
+      failedReason: job.failedReason,
+    };
+  }
+
+  async getJob(jobId: string): Promise<QueueJobSummary> {
+    const { kind, job } = await this.findJob(jobId);
+    return this.toJobSummary(kind, job);
+  }
+
+  async retryFailedJob(jobId: string): Promise<QueueJobSummary> {
+    const { kind, job } = await this.findJob(jobId);
+
+    if (!(await job.isFailed())) {
+      throw new QueueError(`Job ${jobId} is not in the failed state`, 'JOB_NOT_FAILED', 409);
+    }
+
+    await this.retryJob(job);
+    return this.toJobSummary(kind, job);
+  }
+
+  async discardJob(jobId: string): Promise<void> {
+    const { kind, job } = await this.findJob(jobId);
+
+    if (await job.isActive()) {
+      throw new QueueError(`Job ${jobId} is currently being processed`, 'JOB_ACTIVE', 409);
+    }
+
+    await job.remove();
+    // Like rejected readings, discarded ones free their dedup claims so a
+    // resend is stored instead of answered as a duplicate of a failed receipt
+    for (const reading of job.data ?? []) {
+      if (reading.dedupKey) {
+        await redisRepository.releaseIngestionKey(reading.dedupKey);
+      }
+    }
+    await redisRepository.setIngestionReceipts(
+      this.receiptIdsOf(job),
+      'failed',
+      { jobId: String(job.id), error: 'Batch discarded by an administrator' }
+    );
+    console.log(`🗑️ ${jobKinds[kind].label} batch job ${jobId} discarded`);
+  }
+
+  // The job id prefix names the queue; ids without one are looked up in every queue
+  private async findJob(jobId: string): Promise<{ kind: VitalsJobKind; job: Job<AnyBatchReading[]> }> {
+    const prefixed = jobKindOf(jobId);
+    const candidates = prefixed ? [prefixed] : VITALS_JOB_KINDS;
+
+    for (const kind of candidates) {
+      const job = await queues[kind].getJob(jobId);
+      if (job) return { kind, job };
+    }
+
+    throw new QueueError(`Job ${jobId} not found`, 'JOB_NOT_FOUND', 404);
+  }
+
+  private async retryJob(job: Job<AnyBatchReading[]>) {
+    await job.retry();
+    await redisRepository.setIngestionReceipts(this.receiptIdsOf(job), 'queued', { jobId: String(job.id) });
+  }
+
+  private receiptIdsOf(job: Job<AnyBatchReading[]>): string[] {
+    return (job.data ?? []).map(reading => reading.receiptId).filter(Boolean);
+  }
+
+  private async toJobSummary(kind: VitalsJobKind, job: Job<AnyBatchReading[]>): Promise<QueueJobSummary> {
+    return {
+      id: String(job.id),
+      kind,
+      state: await job.getState(),
+      readingsCount: job.data?.length ?? 0,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts ?? 1,
+      failedReason: job.failedReason,
+      createdAt: new Date(job.timestamp).toISOString(),
+      processedAt: job.processedOn ? new Date(job.processedOn).toISOString() : undefined,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : undefined,
+    };
   }
 }
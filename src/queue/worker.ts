@@ -1,48 +1,95 @@
-import { 
-  heartRateQueue,
-  closeQueues 
+import { Job } from 'bull';
+import {
+  queues,
+  aggregateRebuildQueue,
+  jobKinds,
+  mapJobKinds,
+  closeQueues,
+  workerConfig,
+  VITALS_JOB_KINDS,
+  VitalsJobKind,
+  BatchReading,
 } from './queue-config';
-import { 
-  processHeartRateBatch 
+import {
+  processHeartRateBatch,
+  processBloodPressureBatch,
+  processWeightBatch,
+  processHeartRateAggregateRebuild,
 } from './processors';
 
+export interface QueueWorkerOptions {
+  concurrency?: number;
+}
+
+type BatchProcessors = {
+  [K in VitalsJobKind]: (job: Job<BatchReading<K>[]>) => Promise<void>;
+};
+
+const processors: BatchProcessors = {
+  heart_rate: processHeartRateBatch,
+  blood_pressure: processBloodPressureBatch,
+  weight: processWeightBatch,
+};
+
 export class QueueWorker {
-  
-  constructor() {
+  private readonly concurrency: number;
+
+  constructor(options: QueueWorkerOptions = {}) {
+    this.concurrency = options.concurrency ?? workerConfig.concurrency;
     this.setupProcessors();
     this.setupEventHandlers();
   }
 
   private setupProcessors() {
-    heartRateQueue.process('heart-rate-batch', processHeartRateBatch);
-    
-    console.log('🔧 Heart rate batch queue processor set up successfully');
+    for (const kind of VITALS_JOB_KINDS) {
+      queues[kind].process(jobKinds[kind].jobName, this.concurrency, processors[kind]);
+    }
+    // Rebuilds scan whole tables; one at a time per worker is plenty
+    aggregateRebuildQueue.process('heart-rate-aggregate-rebuild', 1, processHeartRateAggregateRebuild);
+
+    console.log(`🔧 Vitals batch queue processors set up successfully (concurrency: ${this.concurrency})`);
   }
 
   private setupEventHandlers() {
-    heartRateQueue.on('error', (error) => {
-      console.error('❌ Heart rate queue error:', error);
-    });
+    for (const kind of VITALS_JOB_KINDS) {
+      const queue = queues[kind];
+      const { label } = jobKinds[kind];
 
-    heartRateQueue.on('completed', (job) => {
-      console.log(`✅ Heart rate batch job ${job.id} completed successfully`);
-    });
+      queue.on('error', (error) => {
+        console.error(`❌ ${label} queue error:`, error);
+      });
+
+      queue.on('completed', (job) => {
+        console.log(`✅ ${label} batch job ${job.id} completed successfully`);
+      });
 
-    heartRateQueue.on('failed', (job, err) => {
-      console.error(`❌ Heart rate batch job ${job?.id} failed:`, err.message);
+      queue.on('failed', (job, err) => {
+        console.error(`❌ ${label} batch job ${job?.id} failed:`, err.message);
+      });
+
+      queue.on('waiting', (jobId) => {
+        console.log(`⏳ ${label} batch job ${jobId} waiting to be processed`);
+      });
+    }
+
+    aggregateRebuildQueue.on('error', (error) => {
+      console.error('❌ Aggregate rebuild queue error:', error);
     });
 
-    heartRateQueue.on('waiting', (jobId) => {
-      console.log(`⏳ Heart rate batch job ${jobId} waiting to be processed`);
+    aggregateRebuildQueue.on('failed', (job, err) => {
+      console.error(`❌ Aggregate rebuild job ${job?.id} failed:`, err.message);
     });
 
-    console.log('🔧 Heart rate batch queue event handlers set up successfully');
+    console.log('🔧 Vitals batch queue event handlers set up successfully');
   }
 
   async start() {
-    console.log('🚀 Starting heart rate queue worker...');
-    await heartRateQueue.isReady();
-    console.log('✅ Heart rate queue worker started successfully');
+    console.log('🚀 Starting vitals queue worker...');
+    await Promise.all([
+      ...VITALS_JOB_KINDS.map(kind => queues[kind].isReady()),
+      aggregateRebuildQueue.isReady(),
+    ]);
+    console.log('✅ Vitals queue worker started successfully');
   }
 
   async stop() {
@@ -52,10 +99,9 @@ export class QueueWorker {
   }
 
   async getStatus() {
-    const heartRateReady = await heartRateQueue.isReady();
-
-    return {
-      heartRate: { ready: heartRateReady },
-    };
+    return mapJobKinds(async kind => ({
+      ready: queues[kind].client.status === 'ready',
+      concurrency: this.concurrency,
+    }));
   }
 }
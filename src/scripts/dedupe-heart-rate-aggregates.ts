@@ -0,0 +1,61 @@
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { db, closeConnection } from '../db/connection';
+
+// One-off migration: collapses duplicate (patient, date) rows in
+// heart_rate_aggregates into the lowest id, keeping the widest min/max.
+// `db:push` runs it before adding the unique (patient_id, date) index.
+
+async function dedupeHeartRateAggregates() {
+  const merged = await db.transaction(async (tx) => {
+    // Nothing to collapse on a database the schema has not been pushed to yet
+    const existing = await tx.execute(sql`SELECT to_regclass('heart_rate_aggregates') AS name`);
+    if (!existing.rows[0]?.name) return { days: 0, removed: 0 };
+
+    await tx.execute(sql`LOCK TABLE heart_rate_aggregates IN SHARE ROW EXCLUSIVE MODE`);
+
+    const updated = await tx.execute(sql`
+      WITH merged AS (
+        SELECT
+          MIN(id) AS keep_id,
+          MIN(bpm_min) AS bpm_min,
+          (ARRAY_AGG(bpm_min_recorded_at ORDER BY bpm_min, bpm_min_recorded_at))[1] AS bpm_min_recorded_at,
+          MAX(bpm_max) AS bpm_max,
+          (ARRAY_AGG(bpm_max_recorded_at ORDER BY bpm_max DESC, bpm_max_recorded_at))[1] AS bpm_max_recorded_at,
+          MIN(created_at) AS created_at
+        FROM heart_rate_aggregates
+        GROUP BY patient_id, date
+        HAVING COUNT(*) > 1
+      )
+      UPDATE heart_rate_aggregates AS aggregate
+      SET
+        bpm_min = merged.bpm_min,
+        bpm_min_recorded_at = merged.bpm_min_recorded_at,
+        bpm_max = merged.bpm_max,
+        bpm_max_recorded_at = merged.bpm_max_recorded_at,
+        created_at = merged.created_at,
+        updated_at = NOW()
+      FROM merged
+      WHERE aggregate.id = merged.keep_id
+    `);
+
+    const deleted = await tx.execute(sql`
+      DELETE FROM heart_rate_aggregates AS duplicate
+      USING heart_rate_aggregates AS kept
+      WHERE duplicate.patient_id = kept.patient_id
+        AND duplicate.date = kept.date
+        AND duplicate.id > kept.id
+    `);
+
+    return { days: updated.rowCount ?? 0, removed: deleted.rowCount ?? 0 };
+  });
+
+  console.log(`✅ Merged ${merged.days} patient/days, removed ${merged.removed} duplicate aggregate rows`);
+}
+
+dedupeHeartRateAggregates()
+  .catch((error) => {
+    console.error('❌ Heart rate aggregate de-duplication failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeConnection());
@@ -0,0 +1,57 @@
+import 'dotenv/config';
+import { sql } from 'drizzle-orm';
+import { db, closeConnection } from '../db/connection';
+
+// One-off migration: deletes exact duplicate readings from the record tables,
+// keeping the lowest id of each. `db:push` runs it before adding their unique
+// dedup indexes, which cannot be created while duplicates remain.
+
+const DEDUP_COLUMNS: Record<string, string[]> = {
+  heart_rate_records: ['patient_id', 'recorded_at', 'bpm'],
+  blood_pressure_records: ['patient_id', 'recorded_at', 'systolic', 'diastolic'],
+  weight_records: ['patient_id', 'recorded_at', 'weight_kg'],
+  health_metrics: ['patient_id', 'metric', 'recorded_at', 'value'],
+};
+
+async function dedupeVitalsRecords() {
+  const removed = await db.transaction(async (tx) => {
+    const counts: Record<string, number> = {};
+
+    for (const [table, columns] of Object.entries(DEDUP_COLUMNS)) {
+      // Nothing to collapse on a database the schema has not been pushed to yet
+      const existing = await tx.execute(sql`SELECT to_regclass(${table}) AS name`);
+      if (!existing.rows[0]?.name) continue;
+
+      await tx.execute(sql`LOCK TABLE ${sql.identifier(table)} IN SHARE ROW EXCLUSIVE MODE`);
+
+      const matches = sql.join(
+        columns.map(column => sql`duplicate.${sql.identifier(column)} = kept.${sql.identifier(column)}`),
+        sql` AND `
+      );
+      const deleted = await tx.execute(sql`
+        DELETE FROM ${sql.identifier(table)} AS duplicate
+        USING ${sql.identifier(table)} AS kept
+        WHERE ${matches}
+          AND duplicate.id > kept.id
+      `);
+
+      counts[table] = deleted.rowCount ?? 0;
+    }
+
+    return counts;
+  });
+
+  for (const [table, count] of Object.entries(removed)) {
+    console.log(`✅ Removed ${count} duplicate rows from ${table}`);
+  }
+  if (removed.heart_rate_records) {
+    console.log('ℹ️ Heart rate aggregates still count the removed readings; apply a rebuild to correct their totals');
+  }
+}
+
+dedupeVitalsRecords()
+  .catch((error) => {
+    console.error('❌ Vitals record de-duplication failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeConnection());
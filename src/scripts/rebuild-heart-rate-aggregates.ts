@@ -0,0 +1,65 @@
+import 'dotenv/config';
+import { closeConnection } from '../db/connection';
+import { redisRepository } from '../db/redis-repository';
+import { rebuildHeartRateAggregatesSchema } from '../db/schema';
+import { AggregateService } from '../services/aggregate-service';
+
+// Recomputes heart_rate_aggregates from heart_rate_records. Dry run by default:
+//
+//   npm run aggregates:rebuild -- [--patient 42] [--from 2024-01-01] [--to 2024-01-31] [--apply] [--warm-cache]
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, unknown> = { dryRun: true };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--patient':
+        options.patientId = Number(argv[++i]);
+        break;
+      case '--from':
+        options.from = argv[++i];
+        break;
+      case '--to':
+        options.to = argv[++i];
+        break;
+      case '--apply':
+        options.dryRun = false;
+        break;
+      case '--warm-cache':
+        options.warmCache = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+
+  return rebuildHeartRateAggregatesSchema.parse(options);
+}
+
+async function main() {
+  const request = parseArgs(process.argv.slice(2));
+  const report = await new AggregateService().rebuildHeartRateAggregates(request);
+
+  for (const change of report.changes) {
+    console.log(`${change.action.padEnd(6)} patient ${change.patientId} ${change.date}`, {
+      before: change.before,
+      after: change.after,
+    });
+  }
+  if (report.changesTruncated) {
+    console.log(`… only the first ${report.changes.length} changes are listed`);
+  }
+
+  const { changes, ...summary } = report;
+  console.log(summary);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Heart rate aggregate rebuild failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await redisRepository.disconnect();
+    await closeConnection();
+  });
@@ -4,12 +4,22 @@ import cors from 'cors';
 import { createExpressEndpoints, initServer } from '@ts-rest/express';
 import { contract } from './contract';
 import { testConnection, closeConnection } from './db/connection';
-import { VitalsService } from './services/vitals-service';
+import { VitalsService, VitalsError } from './services/vitals-service';
+import { IngestionService } from './services/ingestion-service';
 import { redisRepository } from './db/redis-repository';
-import { QueueService } from './queue/queue-service';
+import { QueueService, QueueError } from './queue/queue-service';
 import { QueueWorker } from './queue/worker';
+import { closeQueues, workerConfig } from './queue/queue-config';
 
 import { PatientService, PatientError } from './services/patient-service';
+import { DeadLetterService } from './services/dead-letter-service';
+import { AggregateService } from './services/aggregate-service';
+import { ReadingCorrectionService } from './services/reading-correction-service';
+import { DeviceService, DeviceError } from './services/device-service';
+import { requireAdminApiKey, adminActor } from './middleware/admin-auth';
+import { authenticateDevice, authenticatedDevice } from './middleware/device-auth';
+import { classifyBloodPressure } from './utils/blood-pressure';
+import { listMetricDefinitions, describeMetric } from './utils/metric-registry';
 
 
 
@@ -21,10 +31,22 @@ const s = initServer();
 const patientService = new PatientService();
 const vitalsService = new VitalsService();
 const queueService = new QueueService();
-const queueWorker = new QueueWorker();
+const deadLetterService = new DeadLetterService();
+const aggregateService = new AggregateService(vitalsService);
+const ingestionService = new IngestionService(vitalsService, queueService);
+const readingCorrectionService = new ReadingCorrectionService(aggregateService);
+const deviceService = new DeviceService();
+// In API-only mode (EMBEDDED_WORKER=false) batches are consumed by `src/worker.ts`
+const queueWorker = workerConfig.embedded ? new QueueWorker() : null;
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '1mb' }));
+app.use('/admin', requireAdminApiKey);
+// Device tokens are only accepted by the routes that submit readings
+app.post(
+  ['/vitals/heart-rate', '/vitals/blood-pressure', '/vitals/weight', '/vitals/batch', '/vitals/metrics/:metric'],
+  authenticateDevice(deviceService)
+);
 
 const router = s.router(contract, {
   health: async () => {
@@ -66,19 +88,1031 @@ const router = s.router(contract, {
     }
   },
 
-  postHeartRate: async ({ body }) => {
+  listPatients: async ({ query }) => {
     try {
-      const result = await queueService.addHeartRateJob(body);
+      const result = await patientService.listPatients(query);
+      return {
+        status: 200,
+        body: result,
+      };
+    } catch (error: any) {
+      if (error instanceof PatientError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error listing patients:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getPatient: async ({ params: { patientId } }) => {
+    try {
+      const patient = await patientService.getPatient(patientId);
+      return {
+        status: 200,
+        body: patient,
+      };
+    } catch (error: any) {
+      if (error instanceof PatientError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting patient:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  updatePatient: async ({ params: { patientId }, body }) => {
+    try {
+      const { patient, timezoneChanged } = await patientService.updatePatient(patientId, body);
+      if (timezoneChanged) {
+        // Stored aggregates are bucketed by the old zone's days. The patient is
+        // already saved, so a rebuild that cannot be queued is only logged; it
+        // can be run later through the admin API.
+        try {
+          await queueService.addAggregateRebuildJob({ patientId, dryRun: false, warmCache: true });
+        } catch (error) {
+          console.error(`Error queueing aggregate rebuild for patient ${patientId}:`, error);
+        }
+      }
+      return {
+        status: 200,
+        body: patient,
+      };
+    } catch (error: any) {
+      if (error instanceof PatientError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error updating patient:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  deletePatient: async ({ params: { patientId } }) => {
+    try {
+      await patientService.deletePatient(patientId);
+      return {
+        status: 200,
+        body: {
+          message: `Patient ${patientId} deleted successfully`,
+        },
+      };
+    } catch (error: any) {
+      if (error instanceof PatientError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error deleting patient:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  postHeartRate: async ({ headers, body, res }) => {
+    try {
+      const result = await ingestionService.ingestHeartRate(
+        { ...body, deviceId: authenticatedDevice(res)?.id },
+        headers['idempotency-key']
+      );
+
+      if (result.duplicate) {
+        return {
+          status: 200,
+          body: {
+            message: 'Duplicate heart rate reading ignored',
+            receiptId: result.receiptId,
+            warning: result.warning,
+            duplicate: true,
+          },
+        };
+      }
+
+      if (result.queued) {
+        return {
+          status: 202,
+          body: {
+            message: 'Heart rate data queued for processing',
+            receiptId: result.receiptId,
+            warning: result.warning,
+            duplicate: false,
+          },
+        };
+      }
+
+      return {
+        status: 201,
+        body: {
+          message: 'Heart rate data stored successfully',
+          receiptId: result.receiptId,
+          warning: result.warning,
+          duplicate: false,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error queuing heart rate data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getIngestionReceipt: async ({ params: { receiptId } }) => {
+    try {
+      const receipt = await redisRepository.getIngestionReceipt(receiptId);
+
+      if (!receipt) {
+        return {
+          status: 404,
+          body: {
+            message: `Ingestion receipt ${receiptId} not found or expired`,
+            code: 'RECEIPT_NOT_FOUND',
+          },
+        };
+      }
+
+      return {
+        status: 200,
+        body: receipt,
+      };
+    } catch (error) {
+      console.error('Error getting ingestion receipt:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  postBloodPressure: async ({ headers, body, res }) => {
+    try {
+      const result = await ingestionService.ingestBloodPressure(
+        { ...body, deviceId: authenticatedDevice(res)?.id },
+        headers['idempotency-key']
+      );
+      const category = classifyBloodPressure(body.systolic, body.diastolic);
+
+      if (result.duplicate) {
+        return {
+          status: 200,
+          body: {
+            message: 'Duplicate blood pressure reading ignored',
+            receiptId: result.receiptId,
+            duplicate: true,
+            category,
+          },
+        };
+      }
+
+      if (result.queued) {
+        return {
+          status: 202,
+          body: {
+            message: 'Blood pressure data queued for processing',
+            receiptId: result.receiptId,
+            duplicate: false,
+            category,
+          },
+        };
+      }
+
+      return {
+        status: 201,
+        body: {
+          message: 'Blood pressure data stored successfully',
+          duplicate: false,
+          category,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error posting blood pressure data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  postWeight: async ({ headers, body, res }) => {
+    try {
+      const result = await ingestionService.ingestWeight(
+        { ...body, deviceId: authenticatedDevice(res)?.id },
+        headers['idempotency-key']
+      );
+
+      if (result.duplicate) {
+        return {
+          status: 200,
+          body: {
+            message: 'Duplicate weight reading ignored',
+            receiptId: result.receiptId,
+            duplicate: true,
+          },
+        };
+      }
+
+      if (result.queued) {
+        return {
+          status: 202,
+          body: {
+            message: 'Weight data queued for processing',
+            receiptId: result.receiptId,
+            duplicate: false,
+          },
+        };
+      }
+
+      return {
+        status: 201,
+        body: {
+          message: 'Weight data stored successfully',
+          duplicate: false,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error posting weight data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  listMetrics: async () => {
+    try {
+      return {
+        status: 200,
+        body: listMetricDefinitions().map(describeMetric),
+      };
+    } catch (error) {
+      console.error('Error listing metrics:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  postMetric: async ({ params: { metric }, headers, body, res }) => {
+    try {
+      const result = await ingestionService.ingestMetric(
+        metric,
+        { ...body, deviceId: authenticatedDevice(res)?.id },
+        headers['idempotency-key']
+      );
+
+      if (result.duplicate) {
+        return {
+          status: 200,
+          body: {
+            message: `Duplicate ${metric} reading ignored`,
+            duplicate: true,
+          },
+        };
+      }
+
+      return {
+        status: 201,
+        body: {
+          message: `${metric} data stored successfully`,
+          duplicate: false,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error posting metric data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  postVitalsBatch: async ({ body, res }) => {
+    try {
+      const results = await ingestionService.ingestBatch(body.readings, { deviceId: authenticatedDevice(res)?.id });
+
+      return {
+        status: 200,
+        body: {
+          accepted: results.filter(result => result.status === 'accepted').length,
+          duplicates: results.filter(result => result.status === 'duplicate').length,
+          rejected: results.filter(result => result.status === 'rejected').length,
+          results,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error posting vitals batch:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  amendHeartRateReading: async ({ params, body, res }) => {
+    try {
+      const { reason, ...values } = body;
+      const audit = await readingCorrectionService.amendReading('heart_rate', params.recordId, values, {
+        changedBy: adminActor(res),
+        reason,
+      });
+
+      return {
+        status: 200,
+        body: {
+          message: `Reading ${params.recordId} amended`,
+          audit,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error amending heart rate reading:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  amendBloodPressureReading: async ({ params, body, res }) => {
+    try {
+      const { reason, ...values } = body;
+      const audit = await readingCorrectionService.amendReading('blood_pressure', params.recordId, values, {
+        changedBy: adminActor(res),
+        reason,
+      });
+
+      return {
+        status: 200,
+        body: {
+          message: `Reading ${params.recordId} amended`,
+          audit,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error amending blood pressure reading:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  amendWeightReading: async ({ params, body, res }) => {
+    try {
+      const { reason, ...values } = body;
+      const audit = await readingCorrectionService.amendReading('weight', params.recordId, values, {
+        changedBy: adminActor(res),
+        reason,
+      });
+
+      return {
+        status: 200,
+        body: {
+          message: `Reading ${params.recordId} amended`,
+          audit,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error amending weight reading:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  voidReading: async ({ params, body, res }) => {
+    try {
+      const audit = await readingCorrectionService.voidReading(params.type, params.recordId, {
+        changedBy: adminActor(res),
+        reason: body.reason,
+      });
+
+      return {
+        status: 200,
+        body: {
+          message: `Reading ${params.recordId} voided`,
+          audit,
+        },
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error voiding reading:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getReadingAudit: async ({ params: { type, recordId } }) => {
+    try {
+      const audits = await readingCorrectionService.getReadingAudit(type, recordId);
+
+      return {
+        status: 200,
+        body: audits,
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting reading audit trail:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getHeartRateChart: async ({ params: { patientId, period }, query }) => {
+    try {
+   
+      const data = await vitalsService.getHeartRateChartData(patientId, period, query);
+
+      return {
+        status: 200,
+        body: data,
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting heart rate chart data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getBloodPressureChart: async ({ params: { patientId, period }, query }) => {
+    try {
+   
+      const data = await vitalsService.getBloodPressureChartData(patientId, period, query);
+
+      return {
+        status: 200,
+        body: data,
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting blood pressure chart data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getBloodPressureSummary: async ({ params: { patientId, period }, query }) => {
+    try {
+      const summary = await vitalsService.getBloodPressureSummary(patientId, period, query);
+
+      return {
+        status: 200,
+        body: summary,
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting blood pressure summary:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getWeightChart: async ({ params: { patientId, period }, query }) => {
+    try {
+   
+      const data = await vitalsService.getWeightChartData(patientId, period, query);
+
+      return {
+        status: 200,
+        body: data,
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting weight chart data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+
+  getMetricChart: async ({ params: { patientId, metric, period }, query }) => {
+    try {
+      const data = await vitalsService.getMetricChartData(metric, patientId, period, query);
+
+      return {
+        status: 200,
+        body: data,
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting metric chart data:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getHeartRateRecords: async ({ params: { patientId, period }, query }) => {
+    try {
+      const readings = await vitalsService.getHeartRateReadings(patientId, period, query);
+
+      return {
+        status: 200,
+        body: readings,
+      };
+    } catch (error) {
+      if (error instanceof VitalsError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting heart rate records:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getQueueStats: async () => {
+    try {
+      const stats = await queueService.getQueueStats();
+
+      return {
+        status: 200,
+        body: stats,
+      };
+    } catch (error) {
+      console.error('Error getting queue stats:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getBatchStatus: async ({ query: { kind } }) => {
+    try {
+      const status = await queueService.getBatchStatus(kind);
+
+      return {
+        status: 200,
+        body: status,
+      };
+    } catch (error) {
+      console.error('Error getting batch status:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  flushBatch: async ({ query: { kind } }) => {
+    try {
+      await queueService.forceFlushBatch(kind);
+      const status = await queueService.getBatchStatus(kind);
+
+      return {
+        status: 200,
+        body: status,
+      };
+    } catch (error) {
+      console.error('Error flushing batch:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  updateBatchSize: async ({ query: { kind }, body }) => {
+    try {
+      await queueService.updateBatchSize(body.batchSize, kind);
+      const status = await queueService.getBatchStatus(kind);
+
+      return {
+        status: 200,
+        body: status,
+      };
+    } catch (error) {
+      if (error instanceof QueueError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error updating batch size:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getWorkerStatus: async () => {
+    try {
+      const status = queueWorker
+        ? { embedded: true, ...(await queueWorker.getStatus()) }
+        : { embedded: false };
+
+      return {
+        status: 200,
+        body: status,
+      };
+    } catch (error) {
+      console.error('Error getting worker status:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getFailedJobs: async () => {
+    try {
+      const failed = await queueService.getFailedJobs();
+
+      return {
+        status: 200,
+        body: failed,
+      };
+    } catch (error) {
+      console.error('Error getting failed jobs:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  retryFailedJobs: async () => {
+    try {
+      const retried = await queueService.retryFailedJobs();
+
+      return {
+        status: 200,
+        body: retried,
+      };
+    } catch (error) {
+      console.error('Error retrying failed jobs:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  cleanOldJobs: async () => {
+    try {
+      const cleaned = await queueService.cleanOldJobs();
+
+      return {
+        status: 200,
+        body: cleaned,
+      };
+    } catch (error) {
+      console.error('Error cleaning old jobs:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  getQueueJob: async ({ params: { jobId } }) => {
+    try {
+      const job = await queueService.getJob(jobId);
+
+      return {
+        status: 200,
+        body: job,
+      };
+    } catch (error) {
+      if (error instanceof QueueError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
 
+      console.error('Error getting queue job:', error);
       return {
-        status: 202,
+        status: 500,
         body: {
-          message: 'Heart rate data queued for processing',
-          jobId: result.id,
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
         },
       };
+    }
+  },
+
+  retryQueueJob: async ({ params: { jobId } }) => {
+    try {
+      const job = await queueService.retryFailedJob(jobId);
+
+      return {
+        status: 200,
+        body: job,
+      };
     } catch (error) {
-      console.error('Error queuing heart rate data:', error);
+      if (error instanceof QueueError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error retrying queue job:', error);
       return {
         status: 500,
         body: {
@@ -89,18 +1123,68 @@ const router = s.router(contract, {
     }
   },
 
-  postBloodPressure: async ({ body }) => {
+  discardQueueJob: async ({ params: { jobId } }) => {
     try {
-      await vitalsService.storeBloodPressureReading(body);
+      await queueService.discardJob(jobId);
 
       return {
-        status: 201,
+        status: 200,
         body: {
-          message: 'Blood pressure data stored successfully',
+          message: `Job ${jobId} discarded`,
         },
       };
     } catch (error) {
-      console.error('Error posting blood pressure data:', error);
+      if (error instanceof QueueError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error discarding queue job:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  listHeartRateDeadLetters: async ({ query }) => {
+    try {
+      const result = await deadLetterService.listHeartRateDeadLetters(query);
+
+      return {
+        status: 200,
+        body: result,
+      };
+    } catch (error) {
+      console.error('Error listing heart rate dead letters:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  replayHeartRateDeadLetters: async ({ body }) => {
+    try {
+      const result = await queueService.replayHeartRateDeadLetters(body.ids);
+
+      return {
+        status: 200,
+        body: result,
+      };
+    } catch (error) {
+      console.error('Error replaying heart rate dead letters:', error);
       return {
         status: 500,
         body: {
@@ -111,22 +1195,88 @@ const router = s.router(contract, {
     }
   },
 
-  postWeight: async ({ body }) => {
+  discardHeartRateDeadLetter: async ({ params: { deadLetterId } }) => {
     try {
-    
-     
+      const discarded = await deadLetterService.discardHeartRateDeadLetter(deadLetterId);
+
+      if (!discarded) {
+        return {
+          status: 404,
+          body: {
+            message: `Dead letter ${deadLetterId} not found`,
+            code: 'DEAD_LETTER_NOT_FOUND',
+          },
+        };
+      }
+
+      return {
+        status: 200,
+        body: {
+          message: `Dead letter ${deadLetterId} discarded`,
+        },
+      };
+    } catch (error) {
+      console.error('Error discarding heart rate dead letter:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
 
-     
-      await vitalsService.storeWeightReading(body);
+  registerDevice: async ({ body }) => {
+    try {
+      const device = await deviceService.registerDevice(body);
 
       return {
         status: 201,
+        body: device,
+      };
+    } catch (error) {
+      if (error instanceof DeviceError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error registering device:', error);
+      return {
+        status: 500,
         body: {
-          message: 'Weight data stored successfully',
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
         },
       };
+    }
+  },
+
+  listDevices: async ({ query }) => {
+    try {
+      const devices = await deviceService.listDevices(query);
+
+      return {
+        status: 200,
+        body: devices,
+      };
     } catch (error) {
-      console.error('Error posting weight data:', error);
+      if (error instanceof DeviceError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error listing devices:', error);
       return {
         status: 500,
         body: {
@@ -137,17 +1287,26 @@ const router = s.router(contract, {
     }
   },
 
-  getHeartRateChart: async ({ params: { patientId, period } }) => {
+  getDevice: async ({ params: { deviceId } }) => {
     try {
-   
-      const data = await vitalsService.getHeartRateChartData(patientId, period);
+      const device = await deviceService.getDevice(deviceId);
 
       return {
         status: 200,
-        body: data,
+        body: device,
       };
     } catch (error) {
-      console.error('Error getting heart rate chart data:', error);
+      if (error instanceof DeviceError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting device:', error);
       return {
         status: 500,
         body: {
@@ -158,17 +1317,26 @@ const router = s.router(contract, {
     }
   },
 
-  getBloodPressureChart: async ({ params: { patientId, period } }) => {
+  updateDevice: async ({ params: { deviceId }, body }) => {
     try {
-   
-      const data = await vitalsService.getBloodPressureChartData(patientId, period);
+      const device = await deviceService.updateDevice(deviceId, body);
 
       return {
         status: 200,
-        body: data,
+        body: device,
       };
     } catch (error) {
-      console.error('Error getting blood pressure chart data:', error);
+      if (error instanceof DeviceError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error updating device:', error);
       return {
         status: 500,
         body: {
@@ -179,17 +1347,86 @@ const router = s.router(contract, {
     }
   },
 
-  getWeightChart: async ({ params: { patientId, period } }) => {
+  listDeviceTokens: async ({ params: { deviceId } }) => {
     try {
-   
-      const data = await vitalsService.getWeightChartData(patientId, period);
+      const tokens = await deviceService.listTokens(deviceId);
 
       return {
         status: 200,
-        body: data,
+        body: tokens,
       };
     } catch (error) {
-      console.error('Error getting weight chart data:', error);
+      if (error instanceof DeviceError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error listing device tokens:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  issueDeviceToken: async ({ params: { deviceId } }) => {
+    try {
+      const token = await deviceService.issueToken(deviceId);
+
+      return {
+        status: 201,
+        body: token,
+      };
+    } catch (error) {
+      if (error instanceof DeviceError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error issuing device token:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
+
+  revokeDeviceToken: async ({ params: { deviceId, tokenId } }) => {
+    try {
+      const token = await deviceService.revokeToken(deviceId, tokenId);
+
+      return {
+        status: 200,
+        body: token,
+      };
+    } catch (error) {
+      if (error instanceof DeviceError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error revoking device token:', error);
       return {
         status: 500,
         body: {
@@ -200,17 +1437,60 @@ const router = s.router(contract, {
     }
   },
 
+  rebuildHeartRateAggregates: async ({ body }) => {
+    try {
+      // Only a single patient's dry run is cheap enough to answer inline; one
+      // across every patient is queued like an applied rebuild
+      if (body.dryRun && body.patientId !== undefined) {
+        const report = await aggregateService.rebuildHeartRateAggregates(body);
+
+        return {
+          status: 200,
+          body: report,
+        };
+      }
+
+      const job = await queueService.addAggregateRebuildJob(body);
+
+      return {
+        status: 202,
+        body: {
+          message: body.dryRun ? 'Heart rate aggregate dry run queued' : 'Heart rate aggregate rebuild queued',
+          jobId: String(job.id),
+        },
+      };
+    } catch (error) {
+      console.error('Error rebuilding heart rate aggregates:', error);
+      return {
+        status: 500,
+        body: {
+          message: 'Internal server error',
+          code: 'INTERNAL_ERROR',
+        },
+      };
+    }
+  },
 
-  getHeartRateRecords: async ({ params: { patientId, period } }) => {
+  getHeartRateAggregateRebuild: async ({ params: { jobId } }) => {
     try {
-      const readings = await vitalsService.getHeartRateReadings(patientId, period);
+      const job = await queueService.getAggregateRebuildJob(jobId);
 
       return {
         status: 200,
-        body: readings,
+        body: job,
       };
     } catch (error) {
-      console.error('Error getting heart rate records:', error);
+      if (error instanceof QueueError) {
+        return {
+          status: error.statusCode,
+          body: {
+            message: error.message,
+            code: error.code,
+          },
+        };
+      }
+
+      console.error('Error getting heart rate aggregate rebuild:', error);
       return {
         status: 500,
         body: {
@@ -249,13 +1529,18 @@ async function startServer() {
       process.exit(1);
     }
 
-    await queueWorker.start();
+    if (queueWorker) {
+      await queueWorker.start();
+    }
+    await queueService.recoverOrphanedBuffers();
 
     app.listen(PORT, () => {
       console.log(`🚀 Server running on http://localhost:${PORT}`);
       console.log(`📋 API documentation available at http://localhost:${PORT}/health`);
       console.log(`⏰ Redis TTL set to 24 hours for automatic data cleanup`);
-      console.log(`🫀 Heart rate queue worker started`);
+      console.log(queueWorker
+        ? `🫀 Heart rate queue worker started`
+        : `📤 API-only mode: heart rate batches are enqueued for standalone workers`);
     });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -265,7 +1550,12 @@ async function startServer() {
 
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down server...');
-  await queueWorker.stop();
+  await queueService.shutdown();
+  if (queueWorker) {
+    await queueWorker.stop();
+  } else {
+    await closeQueues();
+  }
   await redisRepository.disconnect();
   await closeConnection();
   process.exit(0);
@@ -273,7 +1563,12 @@ process.on('SIGINT', async () => {
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Shutting down server...');
-  await queueWorker.stop();
+  await queueService.shutdown();
+  if (queueWorker) {
+    await queueWorker.stop();
+  } else {
+    await closeQueues();
+  }
   await redisRepository.disconnect();
   await closeConnection();
   process.exit(0);
@@ -0,0 +1,375 @@
+import { and, eq, gte, lt, lte, inArray, isNull, sql, count, SQL } from 'drizzle-orm';
+import { db } from '../db/connection';
+import {
+  heartRateAggregates,
+  heartRateRecords,
+  type HeartRateAggregateChange,
+  type HeartRateAggregateRebuildReport,
+  type RebuildHeartRateAggregatesRequest,
+} from '../db/schema';
+import { redisRepository } from '../db/redis-repository';
+import { VitalsService } from './vitals-service';
+import {
+  localDate,
+  localDateSql,
+  localTimestampSql,
+  startOfLocalDay,
+  addDays,
+  DEFAULT_TIME_ZONE,
+} from '../utils/time-zone';
+import {
+  emptyHeartRateTotals,
+  restingHeartRateEstimate,
+  type HeartRateTotals,
+} from '../utils/heart-rate';
+
+interface DailyHeartRateAggregate {
+  date: string;
+  bpmMin: number;
+  bpmMinRecordedAt: Date;
+  bpmMax: number;
+  bpmMaxRecordedAt: Date;
+  bpmSum: number;
+  bpmCount: number;
+  hourlyBpmSum: number[];
+  hourlyBpmCount: number[];
+  bpmRestingEstimate: number | null;
+}
+
+const CHANGE_COUNTERS = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+} as const;
+
+export type AggregateRebuildProgress = (patientsDone: number, patientsTotal: number) => Promise<void>;
+
+/**
+ * Recomputes `heart_rate_aggregates` from `heart_rate_records`, the source
+ * of truth, for one patient or all of them, optionally within a date range.
+ * Used after Redis data loss, bulk imports, corrected readings, or any other
+ * drift. Voided readings are left out.
+ */
+export class AggregateService {
+  private readonly MAX_REPORTED_CHANGES = 1000;
+
+  constructor(private vitalsService: VitalsService = new VitalsService()) {}
+
+  async rebuildHeartRateAggregates(
+    request: RebuildHeartRateAggregatesRequest,
+    onProgress?: AggregateRebuildProgress
+  ): Promise<HeartRateAggregateRebuildReport> {
+    const report: HeartRateAggregateRebuildReport = {
+      dryRun: request.dryRun,
+      patients: 0,
+      days: 0,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 0,
+      cacheWarmed: 0,
+      changes: [],
+      changesTruncated: false,
+    };
+
+    const patientIds = request.patientId
+      ? [request.patientId]
+      : await this.findPatientsWithHeartRateData(request);
+
+    console.log(`🔧 ${request.dryRun ? 'Checking' : 'Rebuilding'} heart rate aggregates for ${patientIds.length} patients`);
+
+    for (const [index, patientId] of patientIds.entries()) {
+      const changes = await this.rebuildPatient(patientId, request, report);
+
+      for (const change of changes) {
+        report[CHANGE_COUNTERS[change.action]]++;
+        if (report.changes.length < this.MAX_REPORTED_CHANGES) {
+          report.changes.push(change);
+        } else {
+          report.changesTruncated = true;
+        }
+      }
+
+      report.patients++;
+      await onProgress?.(index + 1, patientIds.length);
+    }
+
+    console.log(`✅ Heart rate aggregates ${request.dryRun ? 'checked' : 'rebuilt'}: ${report.created} created, ${report.updated} updated, ${report.deleted} deleted, ${report.unchanged} unchanged`);
+    return report;
+  }
+
+  // Rebuilds the patient's local day containing `recordedAt`
+  async rebuildHeartRateDay(patientId: number, recordedAt: Date): Promise<HeartRateAggregateRebuildReport> {
+    const timeZone = await this.getTimeZone(patientId);
+    const date = localDate(recordedAt, timeZone);
+
+    return this.rebuildHeartRateAggregates({
+      patientId,
+      from: date,
+      to: date,
+      dryRun: false,
+      warmCache: true,
+    });
+  }
+
+  private async rebuildPatient(
+    patientId: number,
+    request: RebuildHeartRateAggregatesRequest,
+    report: HeartRateAggregateRebuildReport
+  ): Promise<HeartRateAggregateChange[]> {
+    // `from` / `to` and the aggregate dates are the patient's local days
+    const timeZone = await this.getTimeZone(patientId);
+    const expected = await this.computeDailyAggregates(patientId, timeZone, request);
+    const existing = await db.select()
+      .from(heartRateAggregates)
+      .where(and(eq(heartRateAggregates.patientId, patientId), ...this.aggregateDateRange(request)));
+
+    const existingByDate = new Map(existing.map(aggregate => [aggregate.date, aggregate]));
+    const changes: HeartRateAggregateChange[] = [];
+    const upserts: DailyHeartRateAggregate[] = [];
+
+    for (const day of expected) {
+      report.days++;
+      const current = existingByDate.get(day.date);
+      existingByDate.delete(day.date);
+
+      if (current && this.sameAggregate(current, day)) {
+        report.unchanged++;
+        continue;
+      }
+
+      upserts.push(day);
+      changes.push({
+        patientId,
+        date: day.date,
+        action: current ? 'update' : 'create',
+        before: current ? this.toReportValues(current) : null,
+        after: this.toReportValues(day),
+      });
+    }
+
+    // Whatever is left has no readings behind it any more
+    const staleDates = [...existingByDate.keys()];
+    for (const date of staleDates) {
+      report.days++;
+      changes.push({
+        patientId,
+        date,
+        action: 'delete',
+        before: this.toReportValues(existingByDate.get(date)!),
+        after: null,
+      });
+    }
+
+    if (request.dryRun) return changes;
+
+    if (changes.length > 0) {
+      await db.transaction(async (tx) => {
+        if (upserts.length > 0) {
+          const now = new Date();
+          await tx.insert(heartRateAggregates)
+            .values(upserts.map(day => ({ patientId, ...day, createdAt: now, updatedAt: now })))
+            .onConflictDoUpdate({
+              target: [heartRateAggregates.patientId, heartRateAggregates.date],
+              // The recomputed values are authoritative, so they may also narrow a day
+              set: {
+                bpmMin: sql`excluded.bpm_min`,
+                bpmMinRecordedAt: sql`excluded.bpm_min_recorded_at`,
+                bpmMax: sql`excluded.bpm_max`,
+                bpmMaxRecordedAt: sql`excluded.bpm_max_recorded_at`,
+                bpmSum: sql`excluded.bpm_sum`,
+                bpmCount: sql`excluded.bpm_count`,
+                hourlyBpmSum: sql`excluded.hourly_bpm_sum`,
+                hourlyBpmCount: sql`excluded.hourly_bpm_count`,
+                bpmRestingEstimate: sql`excluded.bpm_resting_estimate`,
+                updatedAt: now,
+              },
+            });
+        }
+
+        if (staleDates.length > 0) {
+          await tx.delete(heartRateAggregates)
+            .where(and(
+              eq(heartRateAggregates.patientId, patientId),
+              inArray(heartRateAggregates.date, staleDates)
+            ));
+        }
+      });
+    }
+
+    if (request.warmCache) {
+      report.cacheWarmed += await this.warmCache(patientId, timeZone, expected, staleDates);
+    }
+
+    return changes;
+  }
+
+  private async computeDailyAggregates(
+    patientId: number,
+    timeZone: string,
+    request: RebuildHeartRateAggregatesRequest
+  ): Promise<DailyHeartRateAggregate[]> {
+    const day = localDateSql(heartRateRecords.recordedAt, timeZone);
+    const hour = sql<number>`extract(hour from ${localTimestampSql(heartRateRecords.recordedAt, timeZone)})`.mapWith(Number);
+    const conditions = and(eq(heartRateRecords.patientId, patientId), ...this.activeRecordConditions(request, timeZone));
+
+    const days = await db.select({
+      date: day,
+      bpmMin: sql<number>`min(${heartRateRecords.bpm})`.mapWith(Number),
+      // Earliest reading wins a tie, matching how the live path keeps the first extreme
+      bpmMinRecordedAt: sql<Date>`(array_agg(${heartRateRecords.recordedAt} ORDER BY ${heartRateRecords.bpm}, ${heartRateRecords.recordedAt}))[1]`
+        .mapWith(heartRateRecords.recordedAt),
+      bpmMax: sql<number>`max(${heartRateRecords.bpm})`.mapWith(Number),
+      bpmMaxRecordedAt: sql<Date>`(array_agg(${heartRateRecords.recordedAt} ORDER BY ${heartRateRecords.bpm} DESC, ${heartRateRecords.recordedAt}))[1]`
+        .mapWith(heartRateRecords.recordedAt),
+    })
+      .from(heartRateRecords)
+      .where(conditions)
+      .groupBy(day)
+      .orderBy(day);
+
+    const hours = await db.select({
+      date: day,
+      hour,
+      sum: sql<number>`sum(${heartRateRecords.bpm})`.mapWith(Number),
+      count: count(),
+    })
+      .from(heartRateRecords)
+      .where(conditions)
+      .groupBy(day, hour);
+
+    const totalsByDate = new Map<string, HeartRateTotals>();
+    for (const row of hours) {
+      const totals = totalsByDate.get(row.date) ?? emptyHeartRateTotals();
+      totals.sum += row.sum;
+      totals.count += row.count;
+      totals.hourlySum[row.hour] += row.sum;
+      totals.hourlyCount[row.hour] += row.count;
+      totalsByDate.set(row.date, totals);
+    }
+
+    return days.map(extremes => {
+      const totals = totalsByDate.get(extremes.date) ?? emptyHeartRateTotals();
+      return {
+        ...extremes,
+        bpmSum: totals.sum,
+        bpmCount: totals.count,
+        hourlyBpmSum: totals.hourlySum,
+        hourlyBpmCount: totals.hourlyCount,
+        bpmRestingEstimate: restingHeartRateEstimate(totals.hourlySum, totals.hourlyCount),
+      };
+    });
+  }
+
+  private async findPatientsWithHeartRateData(request: RebuildHeartRateAggregatesRequest): Promise<number[]> {
+    // Widened by a day either side so local days in any zone are covered;
+    // each patient's own range is applied when they are rebuilt
+    const widened = {
+      ...request,
+      from: request.from && addDays(request.from, -1),
+      to: request.to && addDays(request.to, 1),
+    };
+
+    const [withRecords, withAggregates] = await Promise.all([
+      db.selectDistinct({ patientId: heartRateRecords.patientId })
+        .from(heartRateRecords)
+        .where(and(...this.activeRecordConditions(widened, DEFAULT_TIME_ZONE))),
+      db.selectDistinct({ patientId: heartRateAggregates.patientId })
+        .from(heartRateAggregates)
+        .where(and(...this.aggregateDateRange(request))),
+    ]);
+
+    const patientIds = new Set([...withRecords, ...withAggregates].map(row => row.patientId));
+    return [...patientIds].sort((a, b) => a - b);
+  }
+
+  private activeRecordConditions(request: RebuildHeartRateAggregatesRequest, timeZone: string): SQL[] {
+    const conditions: SQL[] = [isNull(heartRateRecords.voidedAt)];
+    if (request.from) {
+      conditions.push(gte(heartRateRecords.recordedAt, startOfLocalDay(request.from, timeZone)));
+    }
+    if (request.to) {
+      conditions.push(lt(heartRateRecords.recordedAt, startOfLocalDay(addDays(request.to, 1), timeZone)));
+    }
+    return conditions;
+  }
+
+  private async getTimeZone(patientId: number): Promise<string> {
+    const timeZones = await this.vitalsService.getPatientTimeZones([patientId]);
+    return timeZones.get(patientId) ?? DEFAULT_TIME_ZONE;
+  }
+
+  private aggregateDateRange(request: RebuildHeartRateAggregatesRequest): SQL[] {
+    const conditions: SQL[] = [];
+    if (request.from) conditions.push(gte(heartRateAggregates.date, request.from));
+    if (request.to) conditions.push(lte(heartRateAggregates.date, request.to));
+    return conditions;
+  }
+
+  /**
+   * Rewrites the `daily_min_max` keys that would still be live (today and
+   * yesterday); older days are never read from the cache.
+   */
+  private async warmCache(
+    patientId: number,
+    timeZone: string,
+    days: DailyHeartRateAggregate[],
+    staleDates: string[]
+  ): Promise<number> {
+    let warmed = 0;
+
+    for (const day of days) {
+      const ttlSeconds = redisRepository.getDailyMinMaxTtlSeconds(day.date, timeZone);
+      if (ttlSeconds <= 0) continue;
+
+      await redisRepository.setDailyMinMax(
+        patientId,
+        day.date,
+        {
+          min: day.bpmMin,
+          max: day.bpmMax,
+          minTime: day.bpmMinRecordedAt.toISOString(),
+          maxTime: day.bpmMaxRecordedAt.toISOString(),
+          sum: day.bpmSum,
+          count: day.bpmCount,
+          hourlySum: day.hourlyBpmSum,
+          hourlyCount: day.hourlyBpmCount,
+        },
+        ttlSeconds
+      );
+      warmed++;
+    }
+
+    for (const date of staleDates) {
+      if (redisRepository.getDailyMinMaxTtlSeconds(date, timeZone) > 0) {
+        await redisRepository.clearDailyMinMax(patientId, date);
+      }
+    }
+
+    return warmed;
+  }
+
+  private sameAggregate(current: DailyHeartRateAggregate, expected: DailyHeartRateAggregate): boolean {
+    return current.bpmMin === expected.bpmMin
+      && current.bpmMax === expected.bpmMax
+      && current.bpmMinRecordedAt.getTime() === expected.bpmMinRecordedAt.getTime()
+      && current.bpmMaxRecordedAt.getTime() === expected.bpmMaxRecordedAt.getTime()
+      && current.bpmSum === expected.bpmSum
+      && current.bpmCount === expected.bpmCount
+      && current.bpmRestingEstimate === expected.bpmRestingEstimate
+      && current.hourlyBpmSum.join() === expected.hourlyBpmSum.join()
+      && current.hourlyBpmCount.join() === expected.hourlyBpmCount.join();
+  }
+
+  private toReportValues(day: Omit<DailyHeartRateAggregate, 'date'>) {
+    return {
+      bpmMin: day.bpmMin,
+      bpmMinRecordedAt: day.bpmMinRecordedAt.toISOString(),
+      bpmMax: day.bpmMax,
+      bpmMaxRecordedAt: day.bpmMaxRecordedAt.toISOString(),
+      bpmSum: day.bpmSum,
+      bpmCount: day.bpmCount,
+      bpmRestingEstimate: day.bpmRestingEstimate,
+    };
+  }
+}
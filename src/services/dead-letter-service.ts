@@ -0,0 +1,77 @@
+import { asc, count, inArray, eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import {
+  heartRateDeadLetters,
+  type DrizzleHeartRateDeadLetter,
+  type ListDeadLettersQuery,
+} from '../db/schema';
+import type { ReadingBatchFailure } from './vitals-service';
+import type { HeartRateBatchReading } from '../queue/queue-config';
+
+export class DeadLetterService {
+  async recordHeartRateFailures(
+    failures: ReadingBatchFailure<HeartRateBatchReading>[],
+    jobId: string
+  ): Promise<void> {
+    if (failures.length === 0) return;
+
+    await db.insert(heartRateDeadLetters).values(failures.map(failure => ({
+      receiptId: failure.reading.receiptId,
+      patientId: failure.reading.patientId,
+      bpm: failure.reading.bpm,
+      recordedAt: new Date(failure.reading.timestamp),
+      context: failure.reading.context ?? null,
+      deviceId: failure.reading.deviceId ?? null,
+      timestampFlag: failure.reading.timestampFlag ?? null,
+      error: failure.error.slice(0, 1024),
+      errorCode: failure.code ?? null,
+      jobId,
+      createdAt: new Date(),
+    })));
+
+    console.warn(`☠️ ${failures.length} heart rate readings from job ${jobId} moved to the dead-letter store`);
+  }
+
+  async listHeartRateDeadLetters(query: ListDeadLettersQuery): Promise<{
+    data: DrizzleHeartRateDeadLetter[];
+    total: number;
+  }> {
+    const [data, totals] = await Promise.all([
+      db.select()
+        .from(heartRateDeadLetters)
+        .orderBy(asc(heartRateDeadLetters.id))
+        .limit(query.limit)
+        .offset(query.offset),
+      db.select({ total: count() })
+        .from(heartRateDeadLetters),
+    ]);
+
+    return { data, total: totals[0]?.total ?? 0 };
+  }
+
+  async getHeartRateDeadLetters(ids?: number[], limit = 1000): Promise<DrizzleHeartRateDeadLetter[]> {
+    return db.select()
+      .from(heartRateDeadLetters)
+      .where(ids ? inArray(heartRateDeadLetters.id, ids) : undefined)
+      .orderBy(asc(heartRateDeadLetters.id))
+      .limit(limit);
+  }
+
+  async deleteHeartRateDeadLetters(ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const deleted = await db.delete(heartRateDeadLetters)
+      .where(inArray(heartRateDeadLetters.id, ids))
+      .returning({ id: heartRateDeadLetters.id });
+
+    return deleted.length;
+  }
+
+  async discardHeartRateDeadLetter(id: number): Promise<boolean> {
+    const deleted = await db.delete(heartRateDeadLetters)
+      .where(eq(heartRateDeadLetters.id, id))
+      .returning({ id: heartRateDeadLetters.id });
+
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,226 @@
+import { createHash, randomBytes } from 'crypto';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { db } from '../db/connection';
+import {
+  devices,
+  deviceTokens,
+  type DrizzleDevice,
+  type RegisterDevice,
+  type UpdateDevice,
+  type ListDevicesQuery,
+  type DeviceToken,
+  type IssuedDeviceToken,
+} from '../db/schema';
+
+export class DeviceError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: 400 | 401 | 403 | 404 | 409 | 500 = 500
+  ) {
+    super(message);
+    this.name = 'DeviceError';
+  }
+}
+
+// A device whose token was accepted; only bound devices get this far
+export interface AuthenticatedDevice {
+  id: number;
+  patientId: number;
+}
+
+const TOKEN_PREFIX = 'dvt_';
+const MAX_FIRMWARE_LENGTH = 64;
+
+export function hashDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class DeviceService {
+  async registerDevice(device: RegisterDevice): Promise<DrizzleDevice> {
+    try {
+      const result = await db.insert(devices).values(device).returning();
+      return result[0];
+    } catch (error: any) {
+      throw this.mapConstraintViolation(error, device);
+    }
+  }
+
+  async getDevice(deviceId: number): Promise<DrizzleDevice> {
+    const result = await db.select()
+      .from(devices)
+      .where(eq(devices.id, deviceId));
+
+    if (result.length === 0) {
+      throw this.deviceNotFound(deviceId);
+    }
+
+    return result[0];
+  }
+
+  async listDevices(query: ListDevicesQuery): Promise<DrizzleDevice[]> {
+    return db.select()
+      .from(devices)
+      .where(query.patientId !== undefined ? eq(devices.patientId, query.patientId) : undefined)
+      .orderBy(asc(devices.id));
+  }
+
+  /**
+   * Binding the device to another patient, or unbinding it, revokes its
+   * tokens, so a token never submits readings for a patient it was not
+   * issued under.
+   */
+  async updateDevice(deviceId: number, changes: UpdateDevice): Promise<DrizzleDevice> {
+    try {
+      return await db.transaction(async (tx) => {
+        const current = await tx.select({ patientId: devices.patientId })
+          .from(devices)
+          .where(eq(devices.id, deviceId))
+          .for('update');
+
+        if (current.length === 0) {
+          throw this.deviceNotFound(deviceId);
+        }
+
+        const now = new Date();
+        const result = await tx.update(devices)
+          .set({ ...changes, updatedAt: now })
+          .where(eq(devices.id, deviceId))
+          .returning();
+
+        if (changes.patientId !== undefined && changes.patientId !== current[0].patientId) {
+          await tx.update(deviceTokens)
+            .set({ revokedAt: now })
+            .where(and(eq(deviceTokens.deviceId, deviceId), isNull(deviceTokens.revokedAt)));
+        }
+
+        return result[0];
+      });
+    } catch (error: any) {
+      throw this.mapConstraintViolation(error, changes);
+    }
+  }
+
+  // The token is returned here only; the database keeps its hash
+  async issueToken(deviceId: number): Promise<IssuedDeviceToken> {
+    await this.getDevice(deviceId);
+
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const result = await db.insert(deviceTokens)
+      .values({
+        deviceId,
+        tokenHash: hashDeviceToken(token),
+        createdAt: new Date(),
+      })
+      .returning({
+        id: deviceTokens.id,
+        deviceId: deviceTokens.deviceId,
+        createdAt: deviceTokens.createdAt,
+        revokedAt: deviceTokens.revokedAt,
+      });
+
+    return { ...result[0], token };
+  }
+
+  async listTokens(deviceId: number): Promise<DeviceToken[]> {
+    await this.getDevice(deviceId);
+
+    return db.select({
+      id: deviceTokens.id,
+      deviceId: deviceTokens.deviceId,
+      createdAt: deviceTokens.createdAt,
+      revokedAt: deviceTokens.revokedAt,
+    })
+      .from(deviceTokens)
+      .where(eq(deviceTokens.deviceId, deviceId))
+      .orderBy(asc(deviceTokens.id));
+  }
+
+  async revokeToken(deviceId: number, tokenId: number): Promise<DeviceToken> {
+    const result = await db.update(deviceTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(deviceTokens.id, tokenId),
+          eq(deviceTokens.deviceId, deviceId),
+          isNull(deviceTokens.revokedAt)
+        )
+      )
+      .returning({
+        id: deviceTokens.id,
+        deviceId: deviceTokens.deviceId,
+        createdAt: deviceTokens.createdAt,
+        revokedAt: deviceTokens.revokedAt,
+      });
+
+    if (result.length === 0) {
+      throw new DeviceError(
+        `Device ${deviceId} has no active token ${tokenId}`,
+        'TOKEN_NOT_FOUND',
+        404
+      );
+    }
+
+    return result[0];
+  }
+
+  /**
+   * Resolves a presented token to its device and records that the device
+   * was seen, with the firmware it reported if any.
+   */
+  async authenticate(token: string, firmwareVersion?: string): Promise<AuthenticatedDevice> {
+    const result = await db.select({ id: devices.id, patientId: devices.patientId })
+      .from(deviceTokens)
+      .innerJoin(devices, eq(deviceTokens.deviceId, devices.id))
+      .where(
+        and(
+          eq(deviceTokens.tokenHash, hashDeviceToken(token)),
+          isNull(deviceTokens.revokedAt)
+        )
+      )
+      .limit(1);
+
+    if (result.length === 0) {
+      throw new DeviceError('Invalid or revoked device token', 'INVALID_DEVICE_TOKEN', 401);
+    }
+
+    const { id, patientId } = result[0];
+    if (patientId === null) {
+      throw new DeviceError(`Device ${id} is not bound to a patient`, 'DEVICE_NOT_BOUND', 403);
+    }
+
+    const firmware = firmwareVersion?.trim().slice(0, MAX_FIRMWARE_LENGTH);
+    await db.update(devices)
+      .set({ lastSeenAt: new Date(), ...(firmware && { firmwareVersion: firmware }) })
+      .where(eq(devices.id, id));
+
+    return { id, patientId };
+  }
+
+  private deviceNotFound(deviceId: number): DeviceError {
+    return new DeviceError(
+      `Device ${deviceId} not found`,
+      'DEVICE_NOT_FOUND',
+      404
+    );
+  }
+
+  private mapConstraintViolation(error: any, device: { serialNumber?: string; patientId?: number | null }): Error {
+    if (error.code === '23505') {
+      return new DeviceError(
+        `A device with serial number ${device.serialNumber} is already registered`,
+        'DEVICE_ALREADY_EXISTS',
+        409
+      );
+    }
+    if (error.code === '23503') {
+      return new DeviceError(
+        `Patient ${device.patientId} not found`,
+        'PATIENT_NOT_FOUND',
+        404
+      );
+    }
+
+    return error;
+  }
+}
@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import {
+  postHeartRateDataSchema,
+  postBloodPressureDataSchema,
+  postWeightDataSchema,
+  type PostHeartRateData,
+  type PostBloodPressureData,
+  type PostWeightData,
+  type PostMetricData,
+  type ReadingOrigin,
+  type VitalsType,
+  type VitalsBatchItem,
+  type VitalsBatchItemResult,
+} from '../db/schema';
+import { VitalsService, VitalsError, type IngestionClaim } from './vitals-service';
+import type { QueueService } from '../queue/queue-service';
+import { jobKinds, type VitalsReadingByKind } from '../queue/queue-config';
+import { metricReadingSchema } from '../utils/metric-registry';
+
+export const vitalsBatchConfig = {
+  maxItems: parseInt(process.env.VITALS_BATCH_MAX_ITEMS || '1000'),
+};
+
+export interface IngestionResult {
+  duplicate: boolean;
+  // True when the reading went to the queue and will be stored later
+  queued: boolean;
+  receiptId?: string;
+  warning?: { message: string; code: string };
+}
+
+const READING_WINDOW_WARNINGS = {
+  late: { message: 'Reading is older than the accepted window and was flagged', code: 'READING_TOO_OLD' },
+  future: { message: 'Reading timestamp is in the future and was flagged', code: 'READING_IN_FUTURE' },
+};
+
+/**
+ * Entry point for vitals submissions: patient checks, deduplication, and
+ * routing each reading to its queue (`async` kinds) or straight to SQL
+ * (`sync` kinds), as configured in `jobKinds`.
+ */
+export class IngestionService {
+  constructor(
+    private readonly vitalsService: VitalsService,
+    private readonly queueService: QueueService,
+  ) {}
+
+  async ingestHeartRate(data: PostHeartRateData, idempotencyKey?: string): Promise<IngestionResult> {
+    // Throws READING_TOO_OLD / READING_IN_FUTURE under the `reject` policy.
+    // The flag travels with the reading, so a queued one is not reclassified
+    // against the time the worker gets to it.
+    const flag = this.vitalsService.checkReadingWindow(data.timestamp);
+    const reading: PostHeartRateData = flag ? { ...data, timestampFlag: flag } : data;
+
+    const result = await this.ingest('heart_rate', reading, idempotencyKey, () =>
+      this.vitalsService.processHeartRateReading(reading)
+    );
+    return flag ? { ...result, warning: READING_WINDOW_WARNINGS[flag] } : result;
+  }
+
+  async ingestBloodPressure(data: PostBloodPressureData, idempotencyKey?: string): Promise<IngestionResult> {
+    return this.ingest('blood_pressure', data, idempotencyKey, async () =>
+      (await this.vitalsService.storeBloodPressureReading(data)) !== null
+    );
+  }
+
+  async ingestWeight(data: PostWeightData, idempotencyKey?: string): Promise<IngestionResult> {
+    return this.ingest('weight', data, idempotencyKey, async () =>
+      (await this.vitalsService.storeWeightReading(data)) !== null
+    );
+  }
+
+  /**
+   * Registry metrics are validated against their definition here, since the
+   * route only knows the envelope, and are always stored within the request.
+   */
+  async ingestMetric(metric: string, data: PostMetricData, idempotencyKey?: string): Promise<IngestionResult> {
+    const reading = {
+      ...this.parseItem(metricReadingSchema(this.vitalsService.getMetric(metric)), data),
+      deviceId: data.deviceId,
+    };
+
+    const claim = await this.vitalsService.claimIngestion(metric, reading, idempotencyKey);
+    if (claim.duplicateOf) {
+      return { duplicate: true, queued: false };
+    }
+
+    const stored = await this.releaseOnFailure(claim, async () =>
+      (await this.vitalsService.storeMetricReading(metric, reading)) !== null
+    );
+    return { duplicate: !stored, queued: false };
+  }
+
+  /**
+   * Claims the reading for deduplication, then either buffers it for a batch
+   * job or runs `store` inside the request. `store` resolves false when the
+   * database already had the reading.
+   */
+  private async ingest<K extends VitalsType>(
+    kind: K,
+    data: VitalsReadingByKind[K],
+    idempotencyKey: string | undefined,
+    store: () => Promise<boolean>
+  ): Promise<IngestionResult> {
+    const queued = jobKinds[kind].mode === 'async';
+
+    // Queued readings are only checked against the database by the worker
+    if (queued) {
+      await this.vitalsService.assertPatientExists(data.patientId);
+    }
+
+    const receiptId = randomUUID();
+    const claim = await this.vitalsService.claimIngestion(kind, data, idempotencyKey, receiptId);
+    if (claim.duplicateOf) {
+      return { duplicate: true, queued, receiptId: queued ? claim.duplicateOf : undefined };
+    }
+
+    if (queued) {
+      await this.releaseOnFailure(claim, () => this.queueService.addReadingJob(kind, data, receiptId, claim.dedupKey));
+      return { duplicate: false, queued, receiptId };
+    }
+
+    const stored = await this.releaseOnFailure(claim, store);
+    return { duplicate: !stored, queued };
+  }
+
+  /**
+   * Validates and ingests each item on its own, so one bad reading never
+   * rejects the rest. Results keep the request order; clients resend only
+   * the `rejected` items. `origin` applies to every item.
+   */
+  async ingestBatch(items: VitalsBatchItem[], origin: ReadingOrigin = {}): Promise<VitalsBatchItemResult[]> {
+    if (items.length > vitalsBatchConfig.maxItems) {
+      throw new VitalsError(
+        `A batch may contain at most ${vitalsBatchConfig.maxItems} readings`,
+        'BATCH_TOO_LARGE',
+        400
+      );
+    }
+
+    const results: VitalsBatchItemResult[] = [];
+
+    for (const [index, item] of items.entries()) {
+      const { type, ...reading } = item;
+
+      try {
+        let result: IngestionResult;
+        switch (type) {
+          case 'heart_rate':
+            result = await this.ingestHeartRate({ ...this.parseItem(postHeartRateDataSchema, reading), ...origin });
+            break;
+          case 'blood_pressure':
+            result = await this.ingestBloodPressure({ ...this.parseItem(postBloodPressureDataSchema, reading), ...origin });
+            break;
+          case 'weight':
+            result = await this.ingestWeight({ ...this.parseItem(postWeightDataSchema, reading), ...origin });
+            break;
+        }
+
+        results.push({
+          index,
+          type,
+          status: result.duplicate ? 'duplicate' : 'accepted',
+          receiptId: result.receiptId,
+          warning: result.warning,
+        });
+      } catch (error: any) {
+        if (!(error instanceof VitalsError)) {
+          console.error(`Error ingesting batch item ${index}:`, error);
+        }
+
+        results.push({
+          index,
+          type,
+          status: 'rejected',
+          error: error instanceof VitalsError
+            ? { message: error.message, code: error.code }
+            : { message: 'Internal server error', code: 'INTERNAL_ERROR' },
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private parseItem<T>(schema: z.ZodType<T, any, any>, reading: unknown): T {
+    const parsed = schema.safeParse(reading);
+    if (!parsed.success) {
+      throw new VitalsError(
+        parsed.error.issues.map(issue => `${issue.path.join('.') || 'reading'}: ${issue.message}`).join('; '),
+        'VALIDATION_ERROR',
+        400
+      );
+    }
+    return parsed.data;
+  }
+
+  // Frees the dedup key when storing fails, so the client can retry the reading
+  private async releaseOnFailure<T>(claim: IngestionClaim, store: () => Promise<T>): Promise<T> {
+    try {
+      return await store();
+    } catch (error) {
+      await this.vitalsService.releaseIngestion(claim).catch(() => undefined);
+      throw error;
+    }
+  }
+}
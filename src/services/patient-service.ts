@@ -1,39 +1,178 @@
+import { eq, or, asc, count, sql, type AnyColumn, type SQL } from 'drizzle-orm';
 import { db } from '../db/connection';
-import { patients, type DrizzleNewPatient } from '../db/schema';
+import { redisRepository } from '../db/redis-repository';
+import {
+  patients,
+  type DrizzlePatient,
+  type DrizzleNewPatient,
+  type ListPatientsQuery,
+} from '../db/schema';
+
+// Case-insensitive substring match; `%`, `_` and `\` in the search match themselves
+function containsIgnoringCase(column: AnyColumn, search: string): SQL {
+  const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+  return sql`${column} ilike ${pattern} escape '\\'`;
+}
 
 export class PatientError extends Error {
   constructor(
     message: string,
     public code: string,
-    public statusCode: 400 | 409 | 500 = 500
+    public statusCode: 400 | 404 | 409 | 500 = 500
   ) {
     super(message);
     this.name = 'PatientError';
   }
 }
 
+export interface PatientUpdate {
+  patient: DrizzlePatient;
+  // Stored aggregates are bucketed by the old zone's days when this is set
+  timezoneChanged: boolean;
+}
+
 export class PatientService {
   async createPatient(patient: DrizzleNewPatient): Promise<DrizzleNewPatient> {
     try {
       const newPatient = await db.insert(patients).values(patient).returning();
       return newPatient[0];
     } catch (error: any) {
-      if (error.code === '23505') {
-        if (error.constraint && error.constraint.includes('email')) {
-          throw new PatientError(
-            'A patient with this email address already exists',
-            'EMAIL_ALREADY_EXISTS',
-            409
-          );
+      throw this.mapUniqueViolation(error);
+    }
+  }
+
+  async getPatient(patientId: number): Promise<DrizzlePatient> {
+    const result = await db.select()
+      .from(patients)
+      .where(eq(patients.id, patientId));
+
+    if (result.length === 0) {
+      throw this.patientNotFound(patientId);
+    }
+
+    return result[0];
+  }
+
+  async listPatients(query: ListPatientsQuery): Promise<{
+    data: DrizzlePatient[];
+    page: number;
+    pageSize: number;
+    total: number;
+  }> {
+    const { page, pageSize, search } = query;
+
+    const where = search
+      ? or(
+          containsIgnoringCase(patients.name, search),
+          containsIgnoringCase(patients.email, search),
+        )
+      : undefined;
+
+    const [data, totals] = await Promise.all([
+      db.select()
+        .from(patients)
+        .where(where)
+        .orderBy(asc(patients.id))
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db.select({ total: count() })
+        .from(patients)
+        .where(where),
+    ]);
+
+    return {
+      data,
+      page,
+      pageSize,
+      total: totals[0]?.total ?? 0,
+    };
+  }
+
+  async updatePatient(patientId: number, changes: Partial<DrizzleNewPatient>): Promise<PatientUpdate> {
+    if (Object.keys(changes).length === 0) {
+      throw new PatientError(
+        'At least one field must be provided to update a patient',
+        'NO_FIELDS_TO_UPDATE',
+        400
+      );
+    }
+
+    try {
+      const { patient, previousTimezone } = await db.transaction(async (tx) => {
+        const current = await tx.select({ timezone: patients.timezone })
+          .from(patients)
+          .where(eq(patients.id, patientId))
+          .for('update');
+
+        if (current.length === 0) {
+          throw this.patientNotFound(patientId);
         }
-        throw new PatientError(
-          'A patient with these details already exists',
-          'PATIENT_ALREADY_EXISTS',
+
+        const result = await tx.update(patients)
+          .set({
+            ...changes,
+            updatedAt: new Date(),
+          })
+          .where(eq(patients.id, patientId))
+          .returning();
+
+        return { patient: result[0], previousTimezone: current[0].timezone };
+      });
+
+      // The known-patient cache holds the time zone
+      await this.forgetCachedPatient(patientId);
+      return { patient, timezoneChanged: patient.timezone !== previousTimezone };
+    } catch (error: any) {
+      throw this.mapUniqueViolation(error);
+    }
+  }
+
+  async deletePatient(patientId: number): Promise<void> {
+    const result = await db.delete(patients)
+      .where(eq(patients.id, patientId))
+      .returning({ id: patients.id });
+
+    if (result.length === 0) {
+      throw this.patientNotFound(patientId);
+    }
+
+    await this.forgetCachedPatient(patientId);
+  }
+
+  // Best effort once the change is committed: a stale entry expires with the
+  // cache's TTL, and failing here would report a persisted change as failed
+  private async forgetCachedPatient(patientId: number): Promise<void> {
+    try {
+      await redisRepository.forgetPatient(patientId);
+    } catch (error) {
+      console.error(`Failed to evict patient ${patientId} from the known-patient cache:`, error);
+    }
+  }
+
+  private patientNotFound(patientId: number): PatientError {
+    return new PatientError(
+      `Patient ${patientId} not found`,
+      'PATIENT_NOT_FOUND',
+      404
+    );
+  }
+
+  private mapUniqueViolation(error: any): Error {
+    if (error.code === '23505') {
+      if (error.constraint && error.constraint.includes('email')) {
+        return new PatientError(
+          'A patient with this email address already exists',
+          'EMAIL_ALREADY_EXISTS',
           409
         );
       }
-      
-      throw error;
+      return new PatientError(
+        'A patient with these details already exists',
+        'PATIENT_ALREADY_EXISTS',
+        409
+      );
     }
+
+    return error;
   }
 }
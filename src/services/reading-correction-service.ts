@@ -0,0 +1,218 @@
+import { desc, and, eq } from 'drizzle-orm';
+import { db } from '../db/connection';
+import {
+  heartRateRecords,
+  bloodPressureRecords,
+  weightRecords,
+  vitalsReadingAudits,
+  type DrizzleVitalsReadingAudit,
+  type ReadingChange,
+  type VitalsType,
+} from '../db/schema';
+import { VitalsError } from './vitals-service';
+import { AggregateService } from './aggregate-service';
+
+const readingTables = {
+  heart_rate: heartRateRecords,
+  blood_pressure: bloodPressureRecords,
+  weight: weightRecords,
+};
+
+// The columns an amendment may change, and that the audit trail keeps
+const readingValueColumns: Record<VitalsType, string[]> = {
+  heart_rate: ['bpm'],
+  blood_pressure: ['systolic', 'diastolic'],
+  weight: ['weightKg'],
+};
+
+const readingLabels: Record<VitalsType, string> = {
+  heart_rate: 'Heart rate',
+  blood_pressure: 'Blood pressure',
+  weight: 'Weight',
+};
+
+// `changedBy` is the admin key's actor, never taken from the request body
+export interface ReadingCorrection extends ReadingChange {
+  changedBy: string;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface StoredReading {
+  id: number;
+  patientId: number;
+  recordedAt: Date;
+  voidedAt: Date | null;
+  [column: string]: unknown;
+}
+
+/**
+ * Clinician corrections to stored readings. Rows are amended in place or
+ * marked voided, never deleted; every change is recorded in
+ * `vitals_reading_audits` with the value it replaced, the admin who made it
+ * and why.
+ */
+export class ReadingCorrectionService {
+  constructor(private aggregateService: AggregateService = new AggregateService()) {}
+
+  async amendReading(
+    type: VitalsType,
+    recordId: number,
+    values: Record<string, number>,
+    change: ReadingCorrection
+  ): Promise<DrizzleVitalsReadingAudit> {
+    const newValue = this.pickValues(type, values);
+
+    const { audit, reading } = await db.transaction(async (tx) => {
+      const reading = await this.lockActiveReading(tx, type, recordId);
+      const table = readingTables[type];
+
+      try {
+        await tx.update(table)
+          .set(newValue)
+          .where(eq(table.id, recordId));
+      } catch (error: any) {
+        // The dedup index already holds an identical reading
+        if (error.code === '23505') {
+          throw new VitalsError(
+            `${readingLabels[type]} reading ${recordId} would duplicate an existing reading`,
+            'DUPLICATE_READING',
+            409
+          );
+        }
+        throw error;
+      }
+
+      const [audit] = await tx.insert(vitalsReadingAudits)
+        .values({
+          type,
+          recordId,
+          patientId: reading.patientId,
+          action: 'amend',
+          previousValue: this.pickValues(type, reading),
+          newValue,
+          changedBy: change.changedBy,
+          reason: change.reason,
+          createdAt: new Date(),
+        })
+        .returning();
+
+      return { audit, reading };
+    });
+
+    await this.refreshAggregates(type, reading);
+    return audit;
+  }
+
+  async voidReading(type: VitalsType, recordId: number, change: ReadingCorrection): Promise<DrizzleVitalsReadingAudit> {
+    const { audit, reading } = await db.transaction(async (tx) => {
+      const reading = await this.lockActiveReading(tx, type, recordId);
+      const table = readingTables[type];
+      const now = new Date();
+
+      await tx.update(table)
+        .set({ voidedAt: now })
+        .where(eq(table.id, recordId));
+
+      const [audit] = await tx.insert(vitalsReadingAudits)
+        .values({
+          type,
+          recordId,
+          patientId: reading.patientId,
+          action: 'void',
+          previousValue: this.pickValues(type, reading),
+          newValue: null,
+          changedBy: change.changedBy,
+          reason: change.reason,
+          createdAt: now,
+        })
+        .returning();
+
+      return { audit, reading };
+    });
+
+    await this.refreshAggregates(type, reading);
+    return audit;
+  }
+
+  async getReadingAudit(type: VitalsType, recordId: number): Promise<DrizzleVitalsReadingAudit[]> {
+    const audits = await db.select()
+      .from(vitalsReadingAudits)
+      .where(and(
+        eq(vitalsReadingAudits.type, type),
+        eq(vitalsReadingAudits.recordId, recordId)
+      ))
+      .orderBy(desc(vitalsReadingAudits.createdAt));
+
+    if (audits.length === 0) {
+      await this.findReading(type, recordId);
+    }
+
+    return audits;
+  }
+
+  // Row-locks the reading so concurrent corrections apply one after the other
+  private async lockActiveReading(tx: Transaction, type: VitalsType, recordId: number): Promise<StoredReading> {
+    const table = readingTables[type];
+    const [reading] = await tx.select()
+      .from(table)
+      .where(eq(table.id, recordId))
+      .for('update');
+
+    if (!reading) throw this.readingNotFound(type, recordId);
+
+    if (reading.voidedAt) {
+      throw new VitalsError(
+        `${readingLabels[type]} reading ${recordId} has been voided`,
+        'READING_VOIDED',
+        409
+      );
+    }
+
+    return reading;
+  }
+
+  private async findReading(type: VitalsType, recordId: number): Promise<void> {
+    const table = readingTables[type];
+    const [reading] = await db.select({ id: table.id })
+      .from(table)
+      .where(eq(table.id, recordId));
+
+    if (!reading) throw this.readingNotFound(type, recordId);
+  }
+
+  /**
+   * Heart rate charts are served from `heart_rate_aggregates`, so the
+   * reading's day is recomputed from the remaining records (and its cache
+   * key rewritten). One patient-day is cheap to rebuild, so this runs for
+   * every heart rate correction rather than only when the reading was an
+   * extreme. The correction is already committed by then, so a failed
+   * rebuild is logged rather than reported; the day can be rebuilt later.
+   */
+  private async refreshAggregates(type: VitalsType, reading: StoredReading): Promise<void> {
+    if (type !== 'heart_rate') return;
+
+    try {
+      await this.aggregateService.rebuildHeartRateDay(reading.patientId, reading.recordedAt);
+    } catch (error) {
+      console.error(
+        `Failed to rebuild heart rate aggregates of patient ${reading.patientId} for ${reading.recordedAt.toISOString()}:`,
+        error
+      );
+    }
+  }
+
+  private pickValues(type: VitalsType, source: Record<string, unknown>): Record<string, number> {
+    return Object.fromEntries(
+      readingValueColumns[type].map(column => [column, source[column] as number])
+    );
+  }
+
+  private readingNotFound(type: VitalsType, recordId: number): VitalsError {
+    return new VitalsError(
+      `${readingLabels[type]} reading ${recordId} not found`,
+      'READING_NOT_FOUND',
+      404
+    );
+  }
+}
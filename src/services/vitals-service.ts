@@ -1,66 +1,380 @@
-import { eq, and, gte,  desc } from 'drizzle-orm';
+import { eq, and, gte, lt, lte, desc, inArray, isNull, sql, count, type AnyColumn, type SQL } from 'drizzle-orm';
 import { db } from '../db/connection';
 import {
+  patients,
   bloodPressureRecords,
   weightRecords,
   heartRateAggregates,
   heartRateRecords,
+  healthMetrics,
   type DrizzleBloodPressureRecord,
   type DrizzleWeightRecord,
   type DrizzleHeartRateAggregate,
   type DrizzleHeartRateRecord,
+  type DrizzleHealthMetric,
   type PostHeartRateData,
+  type ReadingTimestampFlag,
   PostBloodPressureData,
   PostWeightData,
+  PostMetricData,
   WeightSummary,
   HeartRateSummary,
   ChartPeriod,
+  ChartQuery,
+  ChartRangeQuery,
+  HeartRateChartQuery,
+  HeartRateRecordsQuery,
+  MeasurementContext,
+  ChartBucket,
+  ValueStats,
+  BloodPressureSummary,
+  BloodPressureSummaryReport,
+  BloodPressureChartQuery,
+  BloodPressureSummaryQuery,
+  BloodPressureCategory,
+  MetricAggregation,
+  MetricChartBucket,
+  MetricChartQuery,
+  WeightChartQuery,
+  MetricFieldStats,
 } from '../db/schema';
-import { redisRepository } from '../db/redis-repository';
+import type { SelectedFields } from 'drizzle-orm/pg-core';
+import { redisRepository, type HeartRateAggregate } from '../db/redis-repository';
+import {
+  localDate,
+  startOfLocalDay,
+  addDays,
+  addMonths,
+  DEFAULT_TIME_ZONE,
+} from '../utils/time-zone';
+import {
+  bucketLabelSql,
+  bucketDateLabelSql,
+  bucketSlots,
+  estimateBucketCount,
+  type ChartRange,
+} from '../utils/chart-buckets';
+import { classifyBloodPressure, bloodPressureConfig, BLOOD_PRESSURE_CATEGORIES } from '../utils/blood-pressure';
+import {
+  heartRateTotals,
+  restingHeartRateEstimate,
+  restingHeartRateEstimateSql,
+  addHourlySql,
+  type HeartRateTotals,
+} from '../utils/heart-rate';
+import { getMetricDefinition, type MetricDefinition } from '../utils/metric-registry';
+import { convertWeight, roundTo, type UnitPreferences } from '../utils/units';
+
+export class VitalsError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: 400 | 404 | 409 | 500 = 500
+  ) {
+    super(message);
+    this.name = 'VitalsError';
+  }
+}
+
+export interface ReadingBatchFailure<T> {
+  reading: T;
+  error: string;
+  code?: string;
+}
+
+export interface ReadingBatchResult<T> {
+  processed: T[];
+  failed: ReadingBatchFailure<T>[];
+}
+
+export interface IngestionClaim {
+  dedupKey: string;
+  // Reference stored by the first submission when this one is a duplicate
+  duplicateOf: string | null;
+}
+
+// What happens to readings timestamped outside the accepted window
+export type ReadingWindowPolicy = 'accept' | 'flag' | 'reject';
+
+function readingWindowPolicy(value: string | undefined): ReadingWindowPolicy {
+  return value === 'accept' || value === 'reject' ? value : 'flag';
+}
+
+export const readingWindowConfig = {
+  maxAgeDays: parseInt(process.env.HEART_RATE_MAX_READING_AGE_DAYS || '30'),
+  maxFutureSkewSeconds: parseInt(process.env.HEART_RATE_MAX_FUTURE_SKEW_SECONDS || '300'),
+  policy: readingWindowPolicy(process.env.HEART_RATE_READING_WINDOW_POLICY),
+};
+
+const DEFAULT_CHART_QUERY: ChartQuery = { bucket: 'day', fillGaps: false };
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type ChartRecordTable = typeof heartRateRecords | typeof bloodPressureRecords | typeof weightRecords | typeof healthMetrics;
+
+interface ChartBucketEntry {
+  bucket: string;
+  start: Date;
+  count: number;
+}
+
+const EMPTY_VALUE_STATS: ValueStats = { min: null, max: null, mean: null };
+
+// Min, max and mean of a column across the readings in a bucket
+function valueStatsSql(column: AnyColumn | SQL) {
+  return {
+    min: sql<number>`min(${column})`.mapWith(Number),
+    max: sql<number>`max(${column})`.mapWith(Number),
+    mean: sql<number>`avg(${column})`.mapWith(Number),
+  };
+}
+
+const EMPTY_METRIC_STATS: Record<MetricAggregation, MetricFieldStats> = {
+  stats: EMPTY_VALUE_STATS,
+  sum: { sum: null },
+  latest: { latest: null },
+};
+
+// A numeric field of a registry metric's `value`
+function metricFieldSql(field: string): SQL<number> {
+  return sql<number>`(${healthMetrics.value} ->> ${field})::float8`;
+}
+
+function metricStatsSql(value: SQL<number>, aggregation: MetricAggregation): Record<string, SQL<number>> {
+  switch (aggregation) {
+    case 'stats':
+      return valueStatsSql(value);
+    case 'sum':
+      return { sum: sql<number>`sum(${value})`.mapWith(Number) };
+    case 'latest':
+      return {
+        latest: sql<number>`(array_agg(${value} ORDER BY ${healthMetrics.recordedAt} DESC))[1]`.mapWith(Number),
+      };
+  }
+}
+
+// Readings whose measurement context has every given value; undefined without filters
+function contextFilterSql(
+  table: typeof heartRateRecords | typeof bloodPressureRecords | typeof weightRecords,
+  filters: Partial<MeasurementContext>
+): SQL | undefined {
+  const conditions = Object.entries(filters)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => sql`${table.context} ->> ${key} = ${value}`);
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// Chart stats in another unit, rounded to 0.01
+function convertStats<T extends object>(stats: T, convert: (value: number) => number): T {
+  return Object.fromEntries(Object.entries(stats).map(([key, value]) =>
+    [key, typeof value === 'number' ? roundTo(convert(value), 2) : value]
+  )) as T;
+}
+
+export interface HeartRateAggregateUpsert {
+  patientId: number;
+  date: string;
+  bpmMin: number;
+  bpmMinRecordedAt: Date;
+  bpmMax: number;
+  bpmMaxRecordedAt: Date;
+  // Added to the stored totals, so only readings this write stored
+  bpmSum: number;
+  bpmCount: number;
+  hourlyBpmSum: number[];
+  hourlyBpmCount: number[];
+}
+
+export interface HeartRateBatchOptions<T> {
+  // `${patientId}_${date}` groups already committed by a previous attempt
+  completedGroups?: Set<string>;
+  // Receives the group's own outcome, so its failures are saved before the
+  // group is marked completed
+  onGroupCommitted?: (groupKey: string, outcome: ReadingBatchResult<T>) => Promise<void>;
+}
 
 export class VitalsService {
+  private readonly MAX_CHART_BUCKETS = 2000;
+
+  async assertPatientExists(patientId: number): Promise<void> {
+    if (await redisRepository.isKnownPatient(patientId)) return;
+
+    const result = await db.select({ id: patients.id, timezone: patients.timezone })
+      .from(patients)
+      .where(eq(patients.id, patientId))
+      .limit(1);
+
+    if (result.length === 0) {
+      throw this.patientNotFound(patientId);
+    }
+
+    await redisRepository.markPatientKnown(patientId, result[0].timezone);
+  }
+
+  async getPatientTimeZone(patientId: number): Promise<string> {
+    const timeZone = (await this.getPatientTimeZones([patientId])).get(patientId);
+    if (!timeZone) throw this.patientNotFound(patientId);
+    return timeZone;
+  }
+
+  /**
+   * IANA time zones of the given patients, from the known-patient cache or
+   * the database. Patients that do not exist are left out.
+   */
+  async getPatientTimeZones(patientIds: number[]): Promise<Map<number, string>> {
+    const timeZones = await redisRepository.getKnownPatientTimeZones(patientIds);
+    const missing = patientIds.filter(id => !timeZones.has(id));
+    if (missing.length === 0) return timeZones;
+
+    const rows = await db.select({ id: patients.id, timezone: patients.timezone })
+      .from(patients)
+      .where(inArray(patients.id, missing));
+
+    for (const row of rows) {
+      timeZones.set(row.id, row.timezone);
+      await redisRepository.markPatientKnown(row.id, row.timezone);
+    }
+    return timeZones;
+  }
   
-  async processHeartRateReading(data: PostHeartRateData): Promise<void> {
+  /**
+   * Deduplicates a submission before it is stored or queued. The key is the
+   * `Idempotency-Key` header, else the body's `readingId`, else the reading's
+   * patient + timestamp + value. Call `releaseIngestion` if storing fails so
+   * the client can retry. `metric` is a vitals type or a registry metric.
+   */
+  async claimIngestion(
+    metric: string,
+    data: PostHeartRateData | PostBloodPressureData | PostWeightData | PostMetricData,
+    idempotencyKey?: string,
+    reference = '1'
+  ): Promise<IngestionClaim> {
+    const clientKey = idempotencyKey ?? data.readingId;
+    const dedupKey = clientKey
+      ? `${metric}:${data.patientId}:key:${clientKey}`
+      : this.readingFingerprint(metric, data);
+
+    const duplicateOf = await redisRepository.claimIngestionKey(dedupKey, reference);
+    return { dedupKey, duplicateOf };
+  }
+
+  async releaseIngestion(claim: IngestionClaim): Promise<void> {
+    await redisRepository.releaseIngestionKey(claim.dedupKey);
+  }
+
+  private readingFingerprint(
+    metric: string,
+    data: PostHeartRateData | PostBloodPressureData | PostWeightData | PostMetricData
+  ): string {
+    const recordedAt = new Date(data.timestamp).toISOString();
+    let value: string;
+
+    switch (metric) {
+      case 'heart_rate':
+        value = String((data as PostHeartRateData).bpm);
+        break;
+      case 'blood_pressure':
+        value = `${(data as PostBloodPressureData).systolic}/${(data as PostBloodPressureData).diastolic}`;
+        break;
+      case 'weight':
+        value = String((data as PostWeightData).weightKg);
+        break;
+      default:
+        // Registry metrics; parsed values keep their schema's key order
+        value = JSON.stringify((data as PostMetricData).value);
+    }
+
+    return `${metric}:${data.patientId}:${recordedAt}:${value}`;
+  }
+
+  // Resolves false when the reading was an exact duplicate of a stored one
+  async processHeartRateReading(data: PostHeartRateData): Promise<boolean> {
     const timestamp = data.timestamp;
-    const date = new Date(timestamp).toISOString().split('T')[0]; 
+    const timeZone = await this.getPatientTimeZone(data.patientId);
+    const date = localDate(timestamp, timeZone);
     
-    await db.insert(heartRateRecords)
-      .values({
-        patientId: data.patientId,
-        bpm: data.bpm,
-        recordedAt: new Date(timestamp),
-        createdAt: new Date(),
-      });
+    // The reading and its day's aggregate are written together, so a failed
+    // upsert never leaves a stored reading missing from the day's totals
+    return db.transaction(async (tx) => {
+      let inserted: { id: number }[];
+      try {
+        inserted = await tx.insert(heartRateRecords)
+          .values({
+            patientId: data.patientId,
+            bpm: data.bpm,
+            recordedAt: new Date(timestamp),
+            timestampFlag: data.timestampFlag ?? null,
+            context: data.context ?? null,
+            deviceId: data.deviceId ?? null,
+            createdAt: new Date(),
+          })
+          .onConflictDoNothing()
+          .returning({ id: heartRateRecords.id });
+      } catch (error: any) {
+        throw this.mapForeignKeyViolation(error, data.patientId);
+      }
 
-    const dailyMinMax = await this.updateDailyMinMaxCache(
-      data.patientId,
-      date,
-      data.bpm,
-      timestamp
-    );
-    
-    if (!dailyMinMax) return;
-    
-    await this.upsertHeartRateAggregate(
-      data.patientId,
-      date,
-      dailyMinMax.min,
-      new Date(dailyMinMax.minTime),
-      dailyMinMax.max,
-      new Date(dailyMinMax.maxTime),
-    );
+      if (inserted.length === 0) return false;
+
+      const totals = heartRateTotals([{ bpm: data.bpm, recordedAt: new Date(timestamp) }], timeZone);
+      const dailyMinMax = await this.updateDailyMinMaxCache(
+        data.patientId,
+        date,
+        timeZone,
+        data.bpm,
+        timestamp,
+        totals
+      );
+
+      try {
+        // Written for every stored reading, since each adds to the day's totals
+        await this.upsertHeartRateAggregates([{
+          patientId: data.patientId,
+          date,
+          bpmMin: dailyMinMax.min,
+          bpmMinRecordedAt: new Date(dailyMinMax.minTime),
+          bpmMax: dailyMinMax.max,
+          bpmMaxRecordedAt: new Date(dailyMinMax.maxTime),
+          ...this.toAggregateTotals(totals),
+        }], tx);
+      } catch (error) {
+        // The cache already counts the reading that is about to be rolled
+        // back; dropping the day makes the next reading reseed it
+        await redisRepository.clearDailyMinMax(data.patientId, date).catch(clearError => {
+          console.error(`Failed to clear the heart rate cache of patient ${data.patientId} for ${date}:`, clearError);
+        });
+        throw error;
+      }
+      return true;
+    });
   }
 
-  async processHeartRateBatch(readings: PostHeartRateData[]): Promise<void> {
-    if (readings.length === 0) return;
+  async processHeartRateBatch<T extends PostHeartRateData>(
+    readings: T[],
+    options: HeartRateBatchOptions<T> = {}
+  ): Promise<ReadingBatchResult<T>> {
+    const result: ReadingBatchResult<T> = { processed: [], failed: [] };
+    if (readings.length === 0) return result;
     
     console.log(`🔄 Processing batch of ${readings.length} heart rate readings`);
     
     // Group readings by patient and date for efficient processing
-    const readingsByPatientAndDate = new Map<string, PostHeartRateData[]>();
+    const readingsByPatientAndDate = new Map<string, T[]>();
+    
+    const seen = new Set<string>();
+    // Days are the patient's local calendar days; unknown patients fail on insert anyway
+    const timeZones = await this.getPatientTimeZones([...new Set(readings.map(reading => reading.patientId))]);
     
     for (const reading of readings) {
-      const date = new Date(reading.timestamp).toISOString().split('T')[0];
+      // Exact re-sends within the batch are collapsed; they still count as processed
+      const fingerprint = this.readingFingerprint('heart_rate', reading);
+      if (seen.has(fingerprint)) {
+        result.processed.push(reading);
+        continue;
+      }
+      seen.add(fingerprint);
+
+      const date = localDate(reading.timestamp, timeZones.get(reading.patientId) ?? DEFAULT_TIME_ZONE);
       const key = `${reading.patientId}_${date}`;
       
       if (!readingsByPatientAndDate.has(key)) {
@@ -69,37 +383,181 @@ export class VitalsService {
       readingsByPatientAndDate.get(key)?.push(reading);
     }
     
+    const aggregates: HeartRateAggregateUpsert[] = [];
+    const committedGroups: { key: string; outcome: ReadingBatchResult<T> }[] = [];
+
     // Process each group
     for (const [key, groupReadings] of readingsByPatientAndDate) {
+      // Committed and settled by an earlier attempt of the same job; inserting
+      // again would duplicate rows, and reporting its readings again would
+      // mark its rejected readings processed
+      if (options.completedGroups?.has(key)) {
+        continue;
+      }
+
       const [patientIdStr, date] = key.split('_');
       const patientId = parseInt(patientIdStr);
       
-      // Bulk insert all readings for this patient/date
-      const recordsToInsert = groupReadings.map(reading => ({
-        patientId: reading.patientId,
-        bpm: reading.bpm,
-        recordedAt: new Date(reading.timestamp),
-        createdAt: new Date(),
-      }));
-      
-      await db.insert(heartRateRecords).values(recordsToInsert);
+      const failedBefore = result.failed.length;
+      const { inserted, stored } = await this.insertHeartRateGroup(groupReadings, result.failed);
+      const timeZone = timeZones.get(patientId) ?? DEFAULT_TIME_ZONE;
       
       // Update daily min/max cache for this patient/date
-      await this.updateDailyMinMaxCacheForBatch(patientId, date, groupReadings);
+      const aggregate = await this.updateDailyMinMaxCacheForBatch(
+        patientId,
+        date,
+        timeZone,
+        inserted,
+        heartRateTotals(stored, timeZone)
+      );
+      if (aggregate) aggregates.push(aggregate);
+
+      result.processed.push(...inserted);
+      committedGroups.push({ key, outcome: { processed: inserted, failed: result.failed.slice(failedBefore) } });
+    }
+
+    // One statement for every day touched by the batch. It is written even when
+    // the cache did not change, so a retry repairs extremes lost to a crash.
+    // Totals only count readings stored by this attempt, so such a crash
+    // leaves them short until the day is rebuilt.
+    await this.upsertHeartRateAggregates(aggregates);
+
+    for (const { key, outcome } of committedGroups) {
+      await options.onGroupCommitted?.(key, outcome);
     }
     
-    console.log(`✅ Batch processing completed for ${readings.length} readings across ${readingsByPatientAndDate.size} patient/date groups`);
+    console.log(`✅ Batch processing completed for ${result.processed.length} readings across ${readingsByPatientAndDate.size} patient/date groups (${result.failed.length} failed)`);
+    return result;
+  }
+
+  /**
+   * Bulk inserts a patient/date group. See `insertIsolated` for how bad
+   * readings are set aside. `stored` leaves out readings the database
+   * already had.
+   */
+  private async insertHeartRateGroup<T extends PostHeartRateData>(
+    readings: T[],
+    failed: ReadingBatchFailure<T>[]
+  ): Promise<{ inserted: T[]; stored: { bpm: number; recordedAt: Date }[] }> {
+    const stored: { bpm: number; recordedAt: Date }[] = [];
+
+    const inserted = await this.insertIsolated(
+      readings,
+      failed,
+      // Rows already stored (e.g. a replayed reading) are skipped by the dedup index
+      async (batch) => {
+        stored.push(...await db.insert(heartRateRecords).values(batch.map(reading => ({
+          patientId: reading.patientId,
+          bpm: reading.bpm,
+          recordedAt: new Date(reading.timestamp),
+          timestampFlag: reading.timestampFlag ?? null,
+          context: reading.context ?? null,
+          deviceId: reading.deviceId ?? null,
+          createdAt: new Date(),
+        }))).onConflictDoNothing()
+          .returning({ bpm: heartRateRecords.bpm, recordedAt: heartRateRecords.recordedAt }));
+      },
+    );
+
+    return { inserted, stored };
+  }
+
+  async storeBloodPressureBatch<T extends PostBloodPressureData>(readings: T[]): Promise<ReadingBatchResult<T>> {
+    const failed: ReadingBatchFailure<T>[] = [];
+    if (readings.length === 0) return { processed: [], failed };
+
+    const processed = await this.insertIsolated(
+      readings,
+      failed,
+      (batch) => db.insert(bloodPressureRecords).values(batch.map(reading => ({
+        patientId: reading.patientId,
+        systolic: reading.systolic,
+        diastolic: reading.diastolic,
+        recordedAt: new Date(reading.timestamp),
+        context: reading.context ?? null,
+        deviceId: reading.deviceId ?? null,
+        createdAt: new Date(),
+      }))).onConflictDoNothing(),
+    );
+
+    return { processed, failed };
+  }
+
+  async storeWeightBatch<T extends PostWeightData>(readings: T[]): Promise<ReadingBatchResult<T>> {
+    const failed: ReadingBatchFailure<T>[] = [];
+    if (readings.length === 0) return { processed: [], failed };
+
+    const processed = await this.insertIsolated(
+      readings,
+      failed,
+      (batch) => db.insert(weightRecords).values(batch.map(reading => ({
+        patientId: reading.patientId,
+        weightKg: reading.weightKg,
+        recordedAt: new Date(reading.timestamp),
+        context: reading.context ?? null,
+        deviceId: reading.deviceId ?? null,
+        createdAt: new Date(),
+      }))).onConflictDoNothing(),
+    );
+
+    return { processed, failed };
+  }
+
+  /**
+   * Runs a bulk insert. If it is rejected for a data reason (e.g. the
+   * patient was deleted), falls back to one insert per reading so only the
+   * offending readings are set aside in `failed`. Infrastructure errors are
+   * rethrown so the whole job is retried.
+   */
+  private async insertIsolated<T extends { patientId: number }>(
+    readings: T[],
+    failed: ReadingBatchFailure<T>[],
+    insert: (batch: T[]) => Promise<unknown>
+  ): Promise<T[]> {
+    try {
+      await insert(readings);
+      return readings;
+    } catch (error: any) {
+      if (!this.isReadingError(error)) throw error;
+    }
+
+    const inserted: T[] = [];
+    for (const reading of readings) {
+      try {
+        await insert([reading]);
+        inserted.push(reading);
+      } catch (error: any) {
+        if (!this.isReadingError(error)) throw error;
+
+        const reason = error.code === '23503'
+          ? this.patientNotFound(reading.patientId)
+          : error;
+        failed.push({
+          reading,
+          error: reason.message,
+          code: reason instanceof VitalsError ? reason.code : error.code,
+        });
+      }
+    }
+
+    return inserted;
   }
 
+  // Postgres classes 22 (data exception) and 23 (integrity constraint violation)
+  // are caused by the reading itself and will fail again on retry.
+  private isReadingError(error: any): boolean {
+    return typeof error?.code === 'string' && /^2[23]/.test(error.code);
+  }
+
+  // Merges the batch into the cached day and returns the row to upsert
   private async updateDailyMinMaxCacheForBatch(
     patientId: number, 
     date: string, 
-    readings: PostHeartRateData[]
-  ): Promise<void> {
-    if (readings.length === 0) return;
-    
-    const current = await redisRepository.getDailyMinMax(patientId, date);
-    const ttlSeconds = this.getSecondsUntilEndOfNextDay();
+    timeZone: string,
+    readings: PostHeartRateData[],
+    totals: HeartRateTotals
+  ): Promise<HeartRateAggregateUpsert | null> {
+    if (readings.length === 0) return null;
     
     // Find min and max from all readings in this batch
     let minBpm = readings[0].bpm;
@@ -118,220 +576,450 @@ export class VitalsService {
       }
     }
     
-    if (!current) {
-      // No existing cache, create new one
-      await redisRepository.setDailyMinMax(
-        patientId,
-        date,
-        minBpm,
-        maxBpm,
-        minTime,
-        maxTime,
-        ttlSeconds
-      );
-    } else {
-      // Update existing cache if we have new min/max
-      const isNewMin = minBpm < current.min;
-      const isNewMax = maxBpm > current.max;
-      
-      if (isNewMin || isNewMax) {
-        const finalMin = isNewMin ? minBpm : current.min;
-        const finalMax = isNewMax ? maxBpm : current.max;
-        const finalMinTime = isNewMin ? minTime : current.minTime;
-        const finalMaxTime = isNewMax ? maxTime : current.maxTime;
-        
-        await redisRepository.setDailyMinMax(
-          patientId,
-          date,
-          finalMin,
-          finalMax,
-          finalMinTime,
-          finalMaxTime,
-          ttlSeconds
-        );
-      }
-    }
+    const extremes = { min: minBpm, max: maxBpm, minTime, maxTime };
+    const aggregate = await this.mergeIntoDailyCache(
+      patientId,
+      date,
+      timeZone,
+      { ...extremes, ...totals }
+    ) ?? extremes;
     
-    // Update aggregates in database
-    await this.upsertHeartRateAggregate(
+    // The merged day extremes where cached; the upsert merges with the stored row either way
+    return {
       patientId,
       date,
-      minBpm,
-      new Date(minTime),
-      maxBpm,
-      new Date(maxTime),
-    );
+      bpmMin: aggregate.min,
+      bpmMinRecordedAt: new Date(aggregate.minTime),
+      bpmMax: aggregate.max,
+      bpmMaxRecordedAt: new Date(aggregate.maxTime),
+      ...this.toAggregateTotals(totals),
+    };
   }
 
-  async storeBloodPressureReading(data: PostBloodPressureData): Promise<DrizzleBloodPressureRecord> {
+  private toAggregateTotals(totals: HeartRateTotals) {
+    return {
+      bpmSum: totals.sum,
+      bpmCount: totals.count,
+      hourlyBpmSum: totals.hourlySum,
+      hourlyBpmCount: totals.hourlyCount,
+    };
+  }
+
+  // Resolves to null when the reading duplicates one already stored
+  async storeBloodPressureReading(data: PostBloodPressureData): Promise<DrizzleBloodPressureRecord | null> {
     const recordedAt = new Date(data.timestamp);
     
-    const result = await db.insert(bloodPressureRecords)
-      .values({
-        patientId: data.patientId,
-        systolic: data.systolic,
-        diastolic: data.diastolic,
-        recordedAt,
-        createdAt: new Date(),
+    try {
+      const result = await db.insert(bloodPressureRecords)
+        .values({
+          patientId: data.patientId,
+          systolic: data.systolic,
+          diastolic: data.diastolic,
+          recordedAt,
+          context: data.context ?? null,
+          deviceId: data.deviceId ?? null,
+          createdAt: new Date(),
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      return result[0] ?? null;
+    } catch (error: any) {
+      throw this.mapForeignKeyViolation(error, data.patientId);
+    }
+  }
+
+  async getBloodPressureChartData(
+    patientId: number,
+    period: ChartPeriod,
+    query: BloodPressureChartQuery = DEFAULT_CHART_QUERY
+  ): Promise<BloodPressureSummary[]> {
+    const range = await this.getChartRange(patientId, period, query);
+    const guideline = query.guideline ?? bloodPressureConfig.guideline;
+
+    const buckets = await this.getBucketStats(
+      bloodPressureRecords,
+      {
+        systolic: valueStatsSql(bloodPressureRecords.systolic),
+        diastolic: valueStatsSql(bloodPressureRecords.diastolic),
+      },
+      { systolic: EMPTY_VALUE_STATS, diastolic: EMPTY_VALUE_STATS },
+      patientId,
+      range,
+      query,
+      contextFilterSql(bloodPressureRecords, {
+        source: query.source,
+        bodyPosition: query.bodyPosition,
+        arm: query.arm,
       })
-      .returning();
-    
-    return result[0];
+    );
+
+    return buckets.map(entry => ({
+      ...entry,
+      category: entry.systolic.mean !== null && entry.diastolic.mean !== null
+        ? classifyBloodPressure(entry.systolic.mean, entry.diastolic.mean, guideline)
+        : null,
+    }));
   }
 
-  async getBloodPressureChartData(patientId: number, period: ChartPeriod) {
-    const { startDate } = this.getDateRange(period);
-    
-    const records = await db.select()
+  /**
+   * Share of readings per category over the range, and every crisis
+   * reading. Readings are classified one by one rather than per bucket.
+   */
+  async getBloodPressureSummary(
+    patientId: number,
+    period: ChartPeriod,
+    query: BloodPressureSummaryQuery = {}
+  ): Promise<BloodPressureSummaryReport> {
+    const range = await this.getChartRange(patientId, period, query);
+    const guideline = query.guideline ?? bloodPressureConfig.guideline;
+
+    const readings = await db.select({
+      id: bloodPressureRecords.id,
+      recordedAt: bloodPressureRecords.recordedAt,
+      systolic: bloodPressureRecords.systolic,
+      diastolic: bloodPressureRecords.diastolic,
+    })
       .from(bloodPressureRecords)
       .where(
         and(
           eq(bloodPressureRecords.patientId, patientId),
-          gte(bloodPressureRecords.recordedAt, startDate)
+          gte(bloodPressureRecords.recordedAt, range.startDate),
+          lt(bloodPressureRecords.recordedAt, range.endDate),
+          isNull(bloodPressureRecords.voidedAt)
         )
       )
-      .orderBy(desc(bloodPressureRecords.recordedAt));
-      
-    const diastolicByDate: { [key: string]: number[] } = {};
-    const systolicByDate: { [key: string]: number[] } = {};
-  
-
-    for (const record of records) {
-      const date = record.recordedAt.toISOString().split('T')[0];
-      diastolicByDate[date] = [...(diastolicByDate[date] ?? []), record.diastolic] ;
-      systolicByDate[date] = [...(systolicByDate[date] ?? []), record.systolic] ;
-    } 
+      .orderBy(bloodPressureRecords.recordedAt);
 
+    const counts = new Map<BloodPressureCategory, number>();
+    const crisisReadings: typeof readings = [];
 
-    const diastolicAverages: { [key: string]: number } = {};
-    const systolicAverages: { [key: string]: number } = {};
-
-    for (const date in diastolicByDate) {
-      diastolicAverages[date] = diastolicByDate[date].reduce((acc, curr) => acc + curr, 0) / diastolicByDate[date].length;
-      systolicAverages[date] = systolicByDate[date].reduce((acc, curr) => acc + curr, 0) / systolicByDate[date].length;
+    for (const reading of readings) {
+      const category = classifyBloodPressure(reading.systolic, reading.diastolic, guideline);
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+      if (category === 'crisis') crisisReadings.push(reading);
     }
-    
+
     return {
-      diastolicMeasuments: diastolicAverages,
-      systolicMeasuments: systolicAverages,
-    }
+      guideline,
+      from: range.startDay,
+      to: range.endDay,
+      readings: readings.length,
+      categories: BLOOD_PRESSURE_CATEGORIES.map(category => {
+        const count = counts.get(category) ?? 0;
+        return { category, count, share: readings.length > 0 ? count / readings.length : 0 };
+      }),
+      crisisReadings,
+    };
   }
   
  
-  async storeWeightReading(data: PostWeightData): Promise<DrizzleWeightRecord> {
+  // Resolves to null when the reading duplicates one already stored
+  async storeWeightReading(data: PostWeightData): Promise<DrizzleWeightRecord | null> {
     const recordedAt = new Date(data.timestamp);
     
-    const result = await db.insert(weightRecords)
-      .values({
-        patientId: data.patientId,
-        weightKg: data.weightKg,
-        recordedAt,
-        createdAt: new Date(),
-      })
-      .returning();
-    
-    return result[0];
+    try {
+      const result = await db.insert(weightRecords)
+        .values({
+          patientId: data.patientId,
+          weightKg: data.weightKg,
+          recordedAt,
+          context: data.context ?? null,
+          deviceId: data.deviceId ?? null,
+          createdAt: new Date(),
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      return result[0] ?? null;
+    } catch (error: any) {
+      throw this.mapForeignKeyViolation(error, data.patientId);
+    }
   }
 
-  async getWeightChartData(patientId: number, period: ChartPeriod): Promise<WeightSummary[]> {
-    const { startDate } = this.getDateRange(period);
-    
-    const records = await db.select()
-      .from(weightRecords)
-      .where(
-        and(
-          eq(weightRecords.patientId, patientId),
-          gte(weightRecords.recordedAt, startDate)
-        )
-      )
-      .orderBy(desc(weightRecords.recordedAt));
+  async getWeightChartData(patientId: number, period: ChartPeriod, query: WeightChartQuery = DEFAULT_CHART_QUERY): Promise<WeightSummary[]> {
+    const range = await this.getChartRange(patientId, period, query);
+    const unit = query.unit ?? (await this.getPatientUnitPreferences(patientId)).weightUnit;
 
-    return records.map(record => ({
-      recordedAt: record.recordedAt,
-      weightKg: record.weightKg,
+    const buckets = await this.getBucketStats(
+      weightRecords,
+      valueStatsSql(weightRecords.weightKg),
+      EMPTY_VALUE_STATS,
+      patientId,
+      range,
+      query,
+      contextFilterSql(weightRecords, { source: query.source })
+    );
+
+    return buckets.map(({ min, max, mean, ...entry }) => ({
+      ...entry,
+      ...(unit === 'kg' ? { min, max, mean } : convertStats({ min, max, mean }, value => convertWeight(value, 'kg', unit))),
+      unit,
     }));
   }
 
+  async getPatientUnitPreferences(patientId: number): Promise<UnitPreferences> {
+    const result = await db.select({ weightUnit: patients.weightUnit, glucoseUnit: patients.glucoseUnit })
+      .from(patients)
+      .where(eq(patients.id, patientId))
+      .limit(1);
+
+    if (result.length === 0) {
+      throw this.patientNotFound(patientId);
+    }
+    // Both columns are validated against the unit lists on write
+    return result[0] as UnitPreferences;
+  }
+
+  getMetric(type: string): MetricDefinition {
+    const definition = getMetricDefinition(type);
+    if (!definition) {
+      throw new VitalsError(`Unknown metric ${type}`, 'UNKNOWN_METRIC', 404);
+    }
+    return definition;
+  }
+
+  // `data` must already be parsed with the metric's `metricReadingSchema`
+  async storeMetricReading(metric: string, data: PostMetricData): Promise<DrizzleHealthMetric | null> {
+    const recordedAt = new Date(data.timestamp);
+
+    try {
+      const result = await db.insert(healthMetrics)
+        .values({
+          patientId: data.patientId,
+          metric,
+          value: data.value,
+          recordedAt,
+          deviceId: data.deviceId ?? null,
+          createdAt: new Date(),
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      return result[0] ?? null;
+    } catch (error: any) {
+      throw this.mapForeignKeyViolation(error, data.patientId);
+    }
+  }
+
+  async getMetricChartData(
+    metric: string,
+    patientId: number,
+    period: ChartPeriod,
+    query: MetricChartQuery = DEFAULT_CHART_QUERY
+  ): Promise<MetricChartBucket[]> {
+    const definition = this.getMetric(metric);
+    if (query.context !== undefined && !definition.contexts?.includes(query.context)) {
+      throw new VitalsError(
+        definition.contexts
+          ? `${metric} context must be one of ${definition.contexts.join(', ')}`
+          : `${metric} readings have no context to filter on`,
+        'INVALID_CONTEXT',
+        400
+      );
+    }
+
+    const offersUnit = (unit: string) => Object.values(definition.fields)
+      .some(field => field.unit === unit || field.chartUnits?.units.includes(unit));
+    if (query.unit !== undefined && !offersUnit(query.unit)) {
+      throw new VitalsError(`${metric} cannot be charted in ${query.unit}`, 'INVALID_UNIT', 400);
+    }
+
+    const range = await this.getChartRange(patientId, period, query);
+    const fields = Object.keys(definition.fields);
+
+    const requestedUnit = query.unit ?? (definition.preferredUnit
+      ? (await this.getPatientUnitPreferences(patientId))[definition.preferredUnit]
+      : undefined);
+    const units = Object.fromEntries(fields.map(field => {
+      const { unit, chartUnits } = definition.fields[field];
+      return [field, requestedUnit && chartUnits?.units.includes(requestedUnit) ? requestedUnit : unit];
+    }));
+
+    // Selected flat, one key per field, and regrouped under `values`
+    const buckets = await this.getBucketStats(
+      healthMetrics,
+      Object.fromEntries(fields.map(field => [field, metricStatsSql(metricFieldSql(field), definition.aggregation)])),
+      Object.fromEntries(fields.map(field => [field, EMPTY_METRIC_STATS[definition.aggregation]])),
+      patientId,
+      range,
+      query,
+      and(
+        eq(healthMetrics.metric, metric),
+        query.context !== undefined ? sql`${healthMetrics.value} ->> 'context' = ${query.context}` : undefined
+      )
+    ) as Array<ChartBucketEntry & Record<string, MetricFieldStats>>;
+
+    return buckets.map(entry => ({
+      bucket: entry.bucket,
+      start: entry.start,
+      count: entry.count,
+      values: Object.fromEntries(fields.map(field => {
+        const { unit, chartUnits } = definition.fields[field];
+        return [
+          field,
+          units[field] === unit ? entry[field] : convertStats(entry[field], value => chartUnits!.convert(value, units[field])),
+        ];
+      })),
+      units,
+    }));
+  }
 
 
   private async updateDailyMinMaxCache(
     patientId: number, 
     date: string, 
+    timeZone: string,
     bpm: number, 
-    timestamp: string
-  ): Promise<{min: number, max: number, minTime: string, maxTime: string} | null> {
-    const current = await redisRepository.getDailyMinMax(patientId, date);
-    const ttlSeconds = this.getSecondsUntilEndOfNextDay();
+    timestamp: string,
+    totals: HeartRateTotals
+  ): Promise<HeartRateAggregate> {
+    const candidate = { min: bpm, max: bpm, minTime: timestamp, maxTime: timestamp };
 
-    if (!current) {
-    
-      await redisRepository.setDailyMinMax(
-        patientId,
-        date,
-        bpm,
-        bpm,
-        timestamp,
-        timestamp,
-        ttlSeconds
-      );
-      
-      return { min: bpm, max: bpm, minTime: timestamp, maxTime: timestamp };
+    // Past the cache window: nothing to compare against here, the upsert
+    // merges the reading with the persisted row
+    return await this.mergeIntoDailyCache(patientId, date, timeZone, { ...candidate, ...totals }) ?? candidate;
+  }
+
+  /**
+   * Merges a candidate into the day's Redis hash. A missing key (expired or
+   * lost) is first seeded from the persisted aggregate, so a late reading is
+   * never mistaken for the first of its day.
+   *
+   * Resolves to the merged extremes, or undefined when the day is too old to
+   * be cached.
+   */
+  private async mergeIntoDailyCache(
+    patientId: number,
+    date: string,
+    timeZone: string,
+    candidate: HeartRateAggregate & HeartRateTotals
+  ): Promise<HeartRateAggregate | undefined> {
+    const ttlSeconds = redisRepository.getDailyMinMaxTtlSeconds(date, timeZone);
+    if (ttlSeconds <= 0) return undefined;
+
+    const { aggregate, created } = await redisRepository.mergeDailyMinMax(
+      patientId,
+      date,
+      candidate,
+      ttlSeconds
+    );
+    if (!created) return aggregate;
+
+    const persisted = await this.getExistingHeartRateAggregate(patientId, date);
+    if (!persisted) return aggregate;
+
+    const seeded = await redisRepository.mergeDailyMinMax(
+      patientId,
+      date,
+      {
+        min: persisted.bpmMin,
+        max: persisted.bpmMax,
+        minTime: persisted.bpmMinRecordedAt.toISOString(),
+        maxTime: persisted.bpmMaxRecordedAt.toISOString(),
+        sum: persisted.bpmSum,
+        count: persisted.bpmCount,
+        hourlySum: persisted.hourlyBpmSum,
+        hourlyCount: persisted.hourlyBpmCount,
+      },
+      ttlSeconds
+    );
+    return seeded.aggregate;
+  }
+
+  /**
+   * Applies the reading time window to a new heart rate reading. Throws
+   * under the `reject` policy; otherwise returns the flag to report, if any.
+   */
+  checkReadingWindow(timestamp: string, now: Date = new Date()): ReadingTimestampFlag | null {
+    const flag = this.classifyReadingTime(timestamp, now);
+    if (!flag || readingWindowConfig.policy === 'accept') return null;
+
+    if (readingWindowConfig.policy === 'reject') {
+      throw flag === 'late'
+        ? new VitalsError(
+          `Readings older than ${readingWindowConfig.maxAgeDays} days are not accepted`,
+          'READING_TOO_OLD',
+          400
+        )
+        : new VitalsError('Reading timestamp is in the future', 'READING_IN_FUTURE', 400);
     }
 
-    const isNewMin = bpm < current.min;
-    const isNewMax = bpm > current.max;
+    return flag;
+  }
 
-    if (!isNewMin && !isNewMax) return null;
-  
+  private classifyReadingTime(timestamp: string, now: Date): ReadingTimestampFlag | null {
+    const recordedAt = new Date(timestamp).getTime();
 
-    if (isNewMin) {
-      await redisRepository.updateDailyMin(
-        patientId,
-        date,
-        bpm,
-        timestamp,
-        ttlSeconds
-      );
+    if (recordedAt < now.getTime() - readingWindowConfig.maxAgeDays * 24 * 60 * 60 * 1000) {
+      return 'late';
     }
-    
-    if (isNewMax) {
-      await redisRepository.updateDailyMax(
-        patientId,
-        date,
-        bpm,
-        timestamp,
-        ttlSeconds
-      );
+    if (recordedAt > now.getTime() + readingWindowConfig.maxFutureSkewSeconds * 1000) {
+      return 'future';
     }
-    
-  
-    return {
-      min: isNewMin ? bpm : current.min,
-      max: isNewMax ? bpm : current.max,
-      minTime: isNewMin ? timestamp : current.minTime,
-      maxTime: isNewMax ? timestamp : current.maxTime,
-    };
+    return null;
   }
 
-  async getHeartRateChartData(patientId: number, period: ChartPeriod): Promise<HeartRateSummary[]> {
-    const { startDate } = this.getDateRange(period);
-    const startDateString = startDate.toISOString().split('T')[0]; 
-    
-    const aggregates = await db.select()
+  /**
+   * Day, week and month buckets in the patient's own zone are read from the
+   * daily aggregates. Hour buckets and `tz` overrides cut across stored days,
+   * and the aggregates count readings of every context, so those charts and
+   * context-filtered ones are computed from the records.
+   */
+  async getHeartRateChartData(
+    patientId: number,
+    period: ChartPeriod,
+    query: HeartRateChartQuery = DEFAULT_CHART_QUERY
+  ): Promise<HeartRateSummary[]> {
+    const patientTimeZone = await this.getPatientTimeZone(patientId);
+    const range = this.getDateRange(period, query.tz ?? patientTimeZone, query);
+    const filter = contextFilterSql(heartRateRecords, { source: query.source, activityState: query.activityState });
+
+    if (query.bucket !== 'hour' && range.timeZone === patientTimeZone && !filter) {
+      return this.getHeartRateAggregateBuckets(patientId, range, { ...query, bucket: query.bucket });
+    }
+
+    const buckets = await this.getBucketStats(
+      heartRateRecords,
+      valueStatsSql(heartRateRecords.bpm),
+      EMPTY_VALUE_STATS,
+      patientId,
+      range,
+      query,
+      filter
+    );
+    return buckets.map(entry => ({ ...entry, restingEstimate: null }));
+  }
+
+  private async getHeartRateAggregateBuckets(
+    patientId: number,
+    range: ChartRange,
+    query: ChartQuery & { bucket: Exclude<ChartBucket, 'hour'> }
+  ): Promise<HeartRateSummary[]> {
+    this.assertBucketLimit(range, query.bucket);
+
+    const bucket = bucketDateLabelSql(heartRateAggregates.date, query.bucket);
+    const rows = await db.select({
+      bucket,
+      min: sql<number>`min(${heartRateAggregates.bpmMin})`.mapWith(Number),
+      max: sql<number>`max(${heartRateAggregates.bpmMax})`.mapWith(Number),
+      mean: sql<number | null>`sum(${heartRateAggregates.bpmSum})::float / nullif(sum(${heartRateAggregates.bpmCount}), 0)`
+        .mapWith(Number),
+      count: sql<number>`sum(${heartRateAggregates.bpmCount})`.mapWith(Number),
+      restingEstimate: sql<number | null>`avg(${heartRateAggregates.bpmRestingEstimate})`.mapWith(Number),
+    })
       .from(heartRateAggregates)
       .where(
         and(
           eq(heartRateAggregates.patientId, patientId),
-          gte(heartRateAggregates.date, startDateString)
+          gte(heartRateAggregates.date, range.startDay),
+          lte(heartRateAggregates.date, range.endDay)
         )
       )
-      .orderBy(desc(heartRateAggregates.date));
+      .groupBy(bucket);
 
-    return aggregates.map(aggregate => ({
-      date: aggregate.date,
-      min: aggregate.bpmMin,
-      max: aggregate.bpmMax,
-    }));
+    const empty: ValueStats & { restingEstimate: number | null } = { ...EMPTY_VALUE_STATS, restingEstimate: null };
+    return this.fillBuckets(rows, empty, range, query);
   }
 
   async getExistingHeartRateAggregate(patientId: number, date: string): Promise<DrizzleHeartRateAggregate | null> {
@@ -347,101 +1035,195 @@ export class VitalsService {
     return existing.length > 0 ? existing[0] : null;
   }
 
-  async upsertHeartRateAggregate(
-    patientId: number,
-    date: string,
-    bpmMin: number,
-    bpmMinRecordedAt: Date,
-    bpmMax: number,
-    bpmMaxRecordedAt: Date,
-  ): Promise<DrizzleHeartRateAggregate> {
-    const existing = await db.select()
-      .from(heartRateAggregates)
-      .where(
-        and(
-          eq(heartRateAggregates.patientId, patientId),
-          eq(heartRateAggregates.date, date)
-        )
-      );
+  /**
+   * Inserts or widens the day rows in a single statement. Existing rows keep
+   * whichever extreme is more extreme (LEAST/GREATEST), so concurrent or
+   * out-of-order writers can only ever widen a day's range. Totals are added
+   * to the stored ones and the resting estimate recomputed from the summed
+   * hours. Rows must have distinct (patientId, date) pairs.
+   */
+  async upsertHeartRateAggregates(
+    rows: HeartRateAggregateUpsert[],
+    executor: typeof db | Transaction = db
+  ): Promise<DrizzleHeartRateAggregate[]> {
+    if (rows.length === 0) return [];
 
-    if (existing.length > 0) {
-      const result = await db.update(heartRateAggregates)
-        .set({
-          bpmMin,
-          bpmMinRecordedAt,
-          bpmMax,
-          bpmMaxRecordedAt,
-          updatedAt: new Date(),
-        })
-        .where(
-          and(
-            eq(heartRateAggregates.patientId, patientId),
-            eq(heartRateAggregates.date, date)
-          )
-        )
-        .returning();
-      
-      return result[0];
-    }
-    
-    const result = await db.insert(heartRateAggregates)
-      .values({
-        patientId,
-        date,
-        bpmMin,
-        bpmMinRecordedAt,
-        bpmMax,
-        bpmMaxRecordedAt,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+    const now = new Date();
+    const hourlySum = addHourlySql(sql`${heartRateAggregates.hourlyBpmSum}`, sql`excluded.hourly_bpm_sum`);
+    const hourlyCount = addHourlySql(sql`${heartRateAggregates.hourlyBpmCount}`, sql`excluded.hourly_bpm_count`);
+
+    return executor.insert(heartRateAggregates)
+      .values(rows.map(row => ({
+        ...row,
+        bpmRestingEstimate: restingHeartRateEstimate(row.hourlyBpmSum, row.hourlyBpmCount),
+        createdAt: now,
+        updatedAt: now,
+      })))
+      .onConflictDoUpdate({
+        target: [heartRateAggregates.patientId, heartRateAggregates.date],
+        set: {
+          bpmMin: sql`LEAST(${heartRateAggregates.bpmMin}, excluded.bpm_min)`,
+          bpmMinRecordedAt: sql`CASE WHEN excluded.bpm_min < ${heartRateAggregates.bpmMin}
+            THEN excluded.bpm_min_recorded_at ELSE ${heartRateAggregates.bpmMinRecordedAt} END`,
+          bpmMax: sql`GREATEST(${heartRateAggregates.bpmMax}, excluded.bpm_max)`,
+          bpmMaxRecordedAt: sql`CASE WHEN excluded.bpm_max > ${heartRateAggregates.bpmMax}
+            THEN excluded.bpm_max_recorded_at ELSE ${heartRateAggregates.bpmMaxRecordedAt} END`,
+          bpmSum: sql`${heartRateAggregates.bpmSum} + excluded.bpm_sum`,
+          bpmCount: sql`${heartRateAggregates.bpmCount} + excluded.bpm_count`,
+          hourlyBpmSum: hourlySum,
+          hourlyBpmCount: hourlyCount,
+          bpmRestingEstimate: restingHeartRateEstimateSql(hourlySum, hourlyCount),
+          updatedAt: now,
+        },
       })
       .returning();
-    
-    return result[0];
   }
 
-  async getHeartRateReadings(patientId: number, period: ChartPeriod): Promise<DrizzleHeartRateRecord[]> {
-    const { startDate } = this.getDateRange(period);
+  async getHeartRateReadings(
+    patientId: number,
+    period: ChartPeriod,
+    query: HeartRateRecordsQuery = {}
+  ): Promise<DrizzleHeartRateRecord[]> {
+    const range = await this.getChartRange(patientId, period, query);
     
-    const readings = await db.select()
+    return db.select()
       .from(heartRateRecords)
       .where(
         and(
           eq(heartRateRecords.patientId, patientId),
-          gte(heartRateRecords.recordedAt, startDate)
+          gte(heartRateRecords.recordedAt, range.startDate),
+          lt(heartRateRecords.recordedAt, range.endDate),
+          isNull(heartRateRecords.voidedAt),
+          contextFilterSql(heartRateRecords, { source: query.source, activityState: query.activityState })
         )
       )
       .orderBy(desc(heartRateRecords.recordedAt));
+  }
 
-    return readings;
+  private patientNotFound(patientId: number): VitalsError {
+    return new VitalsError(
+      `Patient ${patientId} not found`,
+      'PATIENT_NOT_FOUND',
+      404
+    );
   }
 
-  private getDateRange(period: ChartPeriod): { startDate: Date; endDate: Date } {
-    const endDate = new Date();
-    const startDate = new Date();
-    
-    switch (period) {
-      case '7_days':
-        startDate.setDate(endDate.getDate() - 7);
-        break;
-      case '31_days':
-        startDate.setDate(endDate.getDate() - 31);
-        break;
-      case '12_months':
-        startDate.setMonth(endDate.getMonth() - 12);
-        break;
+  private mapForeignKeyViolation(error: any, patientId: number): Error {
+    if (error.code === '23503') {
+      return this.patientNotFound(patientId);
     }
-    
-    return { startDate, endDate };
+
+    return error;
   }
 
-  private getSecondsUntilEndOfNextDay(): number {
-    const now = new Date();
-    const tomorrow = new Date(now);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(23, 59, 59, 999);
+  /**
+   * One entry per bucket, oldest first, with the reading count and the
+   * selected `stats` of the records matching `filter`.
+   */
+  private async getBucketStats<TStats extends object>(
+    table: ChartRecordTable,
+    stats: SelectedFields,
+    empty: TStats,
+    patientId: number,
+    range: ChartRange,
+    query: ChartQuery,
+    filter?: SQL
+  ): Promise<Array<ChartBucketEntry & TStats>> {
+    this.assertBucketLimit(range, query.bucket);
+
+    const bucket = bucketLabelSql(table.recordedAt, query.bucket, range.timeZone);
+    const rows = await db.select({ ...stats, bucket, count: count() })
+      .from(table)
+      .where(
+        and(
+          eq(table.patientId, patientId),
+          gte(table.recordedAt, range.startDate),
+          lt(table.recordedAt, range.endDate),
+          isNull(table.voidedAt),
+          filter
+        )
+      )
+      .groupBy(bucket) as Array<Omit<ChartBucketEntry, 'start'> & TStats>;
+
+    return this.fillBuckets(rows, empty, range, query);
+  }
+
+  // Buckets without rows are only included when `fillGaps` is set, with `empty`
+  // as their stats. A bucket is kept whenever it has rows, not by its count:
+  // aggregate days stored before totals were tracked have min/max but a zero
+  // count until they are rebuilt.
+  private fillBuckets<TStats extends object>(
+    rows: Array<Omit<ChartBucketEntry, 'start'> & TStats>,
+    empty: TStats,
+    range: ChartRange,
+    query: ChartQuery
+  ): Array<ChartBucketEntry & TStats> {
+    const rowsByBucket = new Map(rows.map(row => [row.bucket, row]));
+
+    return bucketSlots(range, query.bucket)
+      .map(slot => ({
+        ...empty,
+        count: 0,
+        ...rowsByBucket.get(slot.bucket),
+        ...slot,
+      }))
+      .filter(entry => query.fillGaps || rowsByBucket.has(entry.bucket));
+  }
+
+  private assertBucketLimit(range: ChartRange, bucket: ChartBucket): void {
+    const buckets = estimateBucketCount(range, bucket);
+    if (buckets > this.MAX_CHART_BUCKETS) {
+      throw new VitalsError(
+        `A ${bucket} chart from ${range.startDay} to ${range.endDay} has ${buckets} buckets; the limit is ${this.MAX_CHART_BUCKETS}`,
+        'TOO_MANY_BUCKETS',
+        400
+      );
+    }
+  }
+
+  // Looking up the zone also rejects unknown patients, even with `tz` given
+  private async getChartRange(patientId: number, period: ChartPeriod, query: ChartRangeQuery): Promise<ChartRange> {
+    const patientTimeZone = await this.getPatientTimeZone(patientId);
+    return this.getDateRange(period, query.tz ?? patientTimeZone, query);
+  }
+
+  /**
+   * Whole local days ending on `to` (default today). Presets count back from
+   * there; `custom` starts at `from`, which the presets reject.
+   */
+  private getDateRange(period: ChartPeriod, timeZone: string, query: ChartRangeQuery = {}): ChartRange {
+    const endDay = query.to ?? localDate(new Date(), timeZone);
+    let startDay: string;
+
+    if (period === 'custom') {
+      if (!query.from) {
+        throw new VitalsError('The custom period requires `from`', 'INVALID_DATE_RANGE', 400);
+      }
+      startDay = query.from;
+    } else {
+      if (query.from) {
+        throw new VitalsError(`\`from\` requires the custom period, not ${period}`, 'INVALID_DATE_RANGE', 400);
+      }
+
+      switch (period) {
+        case '7_days':
+          startDay = addDays(endDay, -7);
+          break;
+        case '31_days':
+          startDay = addDays(endDay, -31);
+          break;
+        case '12_months':
+          startDay = addMonths(endDay, -12);
+          break;
+      }
+    }
     
-    const diffMs = tomorrow.getTime() - now.getTime();
-    return Math.ceil(diffMs / 1000);
+    return {
+      timeZone,
+      startDay,
+      endDay,
+      startDate: startOfLocalDay(startDay, timeZone),
+      endDate: startOfLocalDay(addDays(endDay, 1), timeZone),
+    };
   }
 }
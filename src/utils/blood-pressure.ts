@@ -0,0 +1,63 @@
+import {
+  bloodPressureCategorySchema,
+  bloodPressureGuidelineSchema,
+  type BloodPressureCategory,
+  type BloodPressureGuideline,
+} from '../db/schema';
+
+// Lowest reading (mmHg, inclusive) of a category. A null diastolic means
+// only the systolic value can reach it.
+interface CategoryThreshold {
+  systolic: number;
+  diastolic: number | null;
+}
+
+export type BloodPressureThresholds = Record<Exclude<BloodPressureCategory, 'normal'>, CategoryThreshold>;
+
+export const BLOOD_PRESSURE_GUIDELINES: Record<BloodPressureGuideline, BloodPressureThresholds> = {
+  // 2017 ACC/AHA. A crisis is above 180/120
+  acc_aha_2017: {
+    elevated: { systolic: 120, diastolic: null },
+    stage_1: { systolic: 130, diastolic: 80 },
+    stage_2: { systolic: 140, diastolic: 90 },
+    crisis: { systolic: 181, diastolic: 121 },
+  },
+  // 2018 ESC/ESH: high normal, grades 1 and 2, and grade 3 as the crisis band
+  esc_esh_2018: {
+    elevated: { systolic: 130, diastolic: 85 },
+    stage_1: { systolic: 140, diastolic: 90 },
+    stage_2: { systolic: 160, diastolic: 100 },
+    crisis: { systolic: 180, diastolic: 110 },
+  },
+};
+
+export const BLOOD_PRESSURE_CATEGORIES = bloodPressureCategorySchema.options;
+
+export const bloodPressureConfig = {
+  guideline: bloodPressureGuidelineSchema
+    .catch('acc_aha_2017')
+    .parse(process.env.BLOOD_PRESSURE_GUIDELINE),
+};
+
+/**
+ * The highest category either value reaches. Values are rounded to whole
+ * mmHg first, so bucket means are classified like single readings.
+ */
+export function classifyBloodPressure(
+  systolic: number,
+  diastolic: number,
+  guideline: BloodPressureGuideline = bloodPressureConfig.guideline
+): BloodPressureCategory {
+  const thresholds = BLOOD_PRESSURE_GUIDELINES[guideline];
+  const sys = Math.round(systolic);
+  const dia = Math.round(diastolic);
+
+  for (const category of ['crisis', 'stage_2', 'stage_1', 'elevated'] as const) {
+    const threshold = thresholds[category];
+    if (sys >= threshold.systolic || (threshold.diastolic !== null && dia >= threshold.diastolic)) {
+      return category;
+    }
+  }
+
+  return 'normal';
+}
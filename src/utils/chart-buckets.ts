@@ -0,0 +1,99 @@
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { addDays, addMonths, localDate, localHour, localTimestampSql, startOfLocalDay } from './time-zone';
+
+export type ChartBucket = 'hour' | 'day' | 'week' | 'month';
+
+/** A chart's span: whole local days from `startDay` to `endDay` inclusive. */
+export interface ChartRange {
+  timeZone: string;
+  startDay: string;
+  endDay: string;
+  startDate: Date;
+  // Exclusive: local midnight after `endDay`
+  endDate: Date;
+}
+
+export interface BucketSlot {
+  // Local start of the bucket: YYYY-MM-DD, or YYYY-MM-DDTHH:00 for hours
+  bucket: string;
+  start: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Weeks start on Monday, as Postgres' date_trunc('week') does
+function weekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+/** The bucket an instant falls in, matching `bucketLabelSql`. */
+export function bucketLabel(instant: Date, bucket: ChartBucket, timeZone: string): string {
+  switch (bucket) {
+    case 'hour':
+      return localHour(instant, timeZone);
+    case 'day':
+      return localDate(instant, timeZone);
+    case 'week':
+      return weekStart(localDate(instant, timeZone));
+    case 'month':
+      return `${localDate(instant, timeZone).slice(0, 7)}-01`;
+  }
+}
+
+export function bucketLabelSql(column: AnyColumn, bucket: ChartBucket, timeZone: string): SQL<string> {
+  const truncated = sql`date_trunc(${sql.raw(`'${bucket}'`)}, ${localTimestampSql(column, timeZone)})`;
+  const format = bucket === 'hour' ? `'YYYY-MM-DD"T"HH24:00'` : `'YYYY-MM-DD'`;
+  return sql<string>`to_char(${truncated}, ${sql.raw(format)})`;
+}
+
+// For `date` columns, which already hold local days
+export function bucketDateLabelSql(column: AnyColumn, bucket: Exclude<ChartBucket, 'hour'>): SQL<string> {
+  return sql<string>`to_char(date_trunc(${sql.raw(`'${bucket}'`)}, ${column}::timestamp), 'YYYY-MM-DD')`;
+}
+
+export function estimateBucketCount(range: ChartRange, bucket: ChartBucket): number {
+  const days = Math.round((range.endDate.getTime() - range.startDate.getTime()) / (24 * HOUR_MS));
+  switch (bucket) {
+    case 'hour':
+      return days * 24;
+    case 'day':
+      return days;
+    case 'week':
+      return Math.ceil(days / 7) + 1;
+    case 'month':
+      return Math.ceil(days / 28) + 1;
+  }
+}
+
+/**
+ * Every bucket overlapping the range, in order. The first week or month may
+ * start before the range. Hours follow the wall clock, so a DST change
+ * yields a 23- or 25-hour day, with the repeated hour as a single bucket.
+ */
+export function bucketSlots(range: ChartRange, bucket: ChartBucket): BucketSlot[] {
+  const slots: BucketSlot[] = [];
+  const { timeZone } = range;
+
+  if (bucket === 'hour') {
+    for (let time = range.startDate.getTime(); time < range.endDate.getTime(); time += HOUR_MS) {
+      const label = localHour(new Date(time), timeZone);
+      if (slots[slots.length - 1]?.bucket !== label) {
+        slots.push({ bucket: label, start: new Date(time) });
+      }
+    }
+    return slots;
+  }
+
+  const first = bucket === 'day'
+    ? range.startDay
+    : bucket === 'week' ? weekStart(range.startDay) : `${range.startDay.slice(0, 7)}-01`;
+  const next = (day: string) => bucket === 'day'
+    ? addDays(day, 1)
+    : bucket === 'week' ? addDays(day, 7) : addMonths(day, 1);
+
+  for (let day = first; day <= range.endDay; day = next(day)) {
+    slots.push({ bucket: day, start: startOfLocalDay(day, timeZone) });
+  }
+  return slots;
+}
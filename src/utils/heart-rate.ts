@@ -0,0 +1,80 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { localHour } from './time-zone';
+
+export const HOURS_PER_DAY = 24;
+
+export const restingHeartRateConfig = {
+  // Hours with fewer readings are too sparse to average
+  minHourlySamples: parseInt(process.env.HEART_RATE_RESTING_MIN_SAMPLES || '5'),
+};
+
+// Bpm totals of readings on one local day, overall and per local hour (0-23)
+export interface HeartRateTotals {
+  sum: number;
+  count: number;
+  hourlySum: number[];
+  hourlyCount: number[];
+}
+
+export function emptyHeartRateTotals(): HeartRateTotals {
+  return {
+    sum: 0,
+    count: 0,
+    hourlySum: new Array(HOURS_PER_DAY).fill(0),
+    hourlyCount: new Array(HOURS_PER_DAY).fill(0),
+  };
+}
+
+// A DST day's repeated hour shares one slot
+export function localHourIndex(instant: Date | string, timeZone: string): number {
+  return parseInt(localHour(instant, timeZone).slice(11, 13), 10);
+}
+
+export function heartRateTotals(
+  readings: { bpm: number; recordedAt: Date }[],
+  timeZone: string
+): HeartRateTotals {
+  const totals = emptyHeartRateTotals();
+
+  for (const reading of readings) {
+    const hour = localHourIndex(reading.recordedAt, timeZone);
+    totals.sum += reading.bpm;
+    totals.count++;
+    totals.hourlySum[hour] += reading.bpm;
+    totals.hourlyCount[hour]++;
+  }
+
+  return totals;
+}
+
+/**
+ * Estimated resting heart rate: the lowest hourly mean among hours with at
+ * least `minHourlySamples` readings, usually an hour asleep or at rest.
+ * Rounded to 0.1 bpm; null until some hour has enough readings.
+ */
+export function restingHeartRateEstimate(hourlySum: number[], hourlyCount: number[]): number | null {
+  let lowest: number | null = null;
+
+  for (let hour = 0; hour < hourlyCount.length; hour++) {
+    if (hourlyCount[hour] < restingHeartRateConfig.minHourlySamples) continue;
+
+    const mean = hourlySum[hour] / hourlyCount[hour];
+    if (lowest === null || mean < lowest) lowest = mean;
+  }
+
+  return lowest === null ? null : Math.round(lowest * 10) / 10;
+}
+
+/** `restingHeartRateEstimate` over two int[] SQL expressions. */
+export function restingHeartRateEstimateSql(hourlySum: SQL, hourlyCount: SQL): SQL<number | null> {
+  return sql<number | null>`(SELECT round(min(s::numeric / c), 1)::real
+    FROM unnest(${hourlySum}, ${hourlyCount}) AS hours(s, c)
+    WHERE c >= ${restingHeartRateConfig.minHourlySamples})`;
+}
+
+/** Element-wise sum of two equal-length int[] SQL expressions. */
+export function addHourlySql(left: SQL, right: SQL): SQL<number[]> {
+  return sql<number[]>`ARRAY(SELECT l + r
+    FROM unnest(${left}, ${right}) WITH ORDINALITY AS hours(l, r, i)
+    ORDER BY i)`;
+}
@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import {
+  postMetricDataSchema,
+  vitalsTypeEnumSchema,
+  type MetricAggregation,
+  type MetricDefinitionResponse,
+} from '../db/schema';
+import {
+  GLUCOSE_UNITS,
+  convertGlucose,
+  convertTemperature,
+  roundTo,
+  type GlucoseUnit,
+  type UnitPreferences,
+} from './units';
+
+export interface MetricField {
+  unit: string;
+  // Inclusive bounds of a plausible reading, checked on ingestion
+  min: number;
+  max: number;
+  // Units a chart can ask for instead of `unit`, converted from it
+  chartUnits?: {
+    units: readonly string[];
+    convert: (value: number, to: string) => number;
+  };
+}
+
+/**
+ * A vital stored in `health_metrics` and served by the generic metric
+ * routes. `value` validates a reading's `value` object and `normalize`
+ * converts it to the stored units; the numeric `fields` are then
+ * range-checked and charted with the metric's `aggregation`.
+ */
+export interface MetricDefinition {
+  // Registry key and `:metric` path segment, e.g. `spo2`
+  type: string;
+  label: string;
+  value: z.AnyZodObject;
+  normalize?: (value: Record<string, any>) => Record<string, any>;
+  fields: Record<string, MetricField>;
+  aggregation: MetricAggregation;
+  // Allowed `value.context` values, which charts can filter on
+  contexts?: readonly string[];
+  // Patient preference charts default to, for fields offering that unit
+  preferredUnit?: keyof UnitPreferences;
+}
+
+// Field names end up in jsonb lookups, so both are kept to plain identifiers
+const METRIC_TYPE_PATTERN = /^[a-z][a-z0-9_]*$/;
+const FIELD_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+const metrics = new Map<string, MetricDefinition>();
+
+export function registerMetric(definition: MetricDefinition): void {
+  if (!METRIC_TYPE_PATTERN.test(definition.type)) {
+    throw new Error(`Invalid metric type ${definition.type}`);
+  }
+  // Heart rate, blood pressure and weight have their own tables and routes
+  if (metrics.has(definition.type) || vitalsTypeEnumSchema.safeParse(definition.type).success) {
+    throw new Error(`Metric ${definition.type} is already registered`);
+  }
+  for (const field of Object.keys(definition.fields)) {
+    if (!FIELD_NAME_PATTERN.test(field) || !(field in definition.value.shape)) {
+      throw new Error(`Metric ${definition.type} field ${field} is not in its value schema`);
+    }
+  }
+
+  metrics.set(definition.type, definition);
+}
+
+export function getMetricDefinition(type: string): MetricDefinition | undefined {
+  return metrics.get(type);
+}
+
+export function listMetricDefinitions(): MetricDefinition[] {
+  return [...metrics.values()];
+}
+
+export function describeMetric(definition: MetricDefinition): MetricDefinitionResponse {
+  return {
+    type: definition.type,
+    label: definition.label,
+    aggregation: definition.aggregation,
+    fields: Object.entries(definition.fields).map(([name, { chartUnits, ...field }]) => ({
+      name,
+      ...field,
+      chartUnits: chartUnits ? [...chartUnits.units] : undefined,
+    })),
+    contexts: definition.contexts ? [...definition.contexts] : undefined,
+  };
+}
+
+/**
+ * `postMetricDataSchema` with `value` checked against the metric's schema,
+ * normalised, and checked against the field ranges in the stored units.
+ */
+export function metricReadingSchema(definition: MetricDefinition) {
+  const normalize = definition.normalize ?? ((value: Record<string, any>) => value);
+
+  return postMetricDataSchema.extend({
+    value: definition.value.transform(normalize).superRefine((value, ctx) => {
+      for (const [name, field] of Object.entries(definition.fields)) {
+        const reading = value[name];
+        if (typeof reading === 'number' && (reading < field.min || reading > field.max)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [name],
+            message: `${definition.label} must be between ${field.min} and ${field.max} ${field.unit}`,
+          });
+        }
+      }
+    }),
+  });
+}
+
+const GLUCOSE_CONTEXTS = ['fasting', 'post_meal', 'random'] as const;
+
+registerMetric({
+  type: 'spo2',
+  label: 'Oxygen saturation',
+  value: z.object({ percent: z.number() }),
+  fields: { percent: { unit: '%', min: 50, max: 100 } },
+  aggregation: 'stats',
+});
+
+registerMetric({
+  type: 'body_temperature',
+  label: 'Body temperature',
+  value: z.object({
+    temperature: z.number(),
+    unit: z.enum(['C', 'F']).default('C'),
+  }),
+  // Stored in Celsius
+  normalize: ({ temperature, unit }) => ({
+    temperature: roundTo(convertTemperature(temperature, unit, 'C'), 2),
+    unit: 'C',
+  }),
+  fields: { temperature: { unit: '°C', min: 30, max: 45 } },
+  aggregation: 'stats',
+});
+
+registerMetric({
+  type: 'respiratory_rate',
+  label: 'Respiratory rate',
+  value: z.object({ breathsPerMinute: z.number() }),
+  fields: { breathsPerMinute: { unit: 'breaths/min', min: 4, max: 60 } },
+  aggregation: 'stats',
+});
+
+registerMetric({
+  type: 'blood_glucose',
+  label: 'Blood glucose',
+  value: z.object({
+    glucose: z.number(),
+    unit: z.enum(GLUCOSE_UNITS).default('mg/dL'),
+    context: z.enum(GLUCOSE_CONTEXTS).optional(),
+  }),
+  // Stored in mg/dL
+  normalize: ({ glucose, unit, context }) => ({
+    glucose: roundTo(convertGlucose(glucose, unit, 'mg/dL'), 1),
+    unit: 'mg/dL',
+    ...(context && { context }),
+  }),
+  fields: {
+    glucose: {
+      unit: 'mg/dL',
+      min: 20,
+      max: 600,
+      chartUnits: {
+        units: GLUCOSE_UNITS,
+        convert: (value, to) => convertGlucose(value, 'mg/dL', to as GlucoseUnit),
+      },
+    },
+  },
+  aggregation: 'stats',
+  contexts: GLUCOSE_CONTEXTS,
+  preferredUnit: 'glucoseUnit',
+});
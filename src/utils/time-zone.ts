@@ -0,0 +1,101 @@
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+
+// Patients without a stored zone, and days bucketed before zones existed
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    wallClockFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallClock(instant: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of wallClockFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return parts;
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant
+function offsetMs(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = wallClock(instant, timeZone);
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallTime - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Calendar day (YYYY-MM-DD) of an instant on the zone's wall clock. */
+export function localDate(instant: Date | string, timeZone: string): string {
+  const { year, month, day } = wallClock(new Date(instant), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** Hour (YYYY-MM-DDTHH:00) of an instant on the zone's wall clock. */
+export function localHour(instant: Date | string, timeZone: string): string {
+  const { year, month, day, hour } = wallClock(new Date(instant), timeZone);
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:00`;
+}
+
+/** The instant a local calendar day begins in the zone. */
+export function startOfLocalDay(date: string, timeZone: string): Date {
+  const utcMidnight = Date.parse(`${date}T00:00:00.000Z`);
+  // The offset at local midnight can differ from the one at UTC midnight
+  // around DST changes, so correct once using the first guess
+  const guess = utcMidnight - offsetMs(new Date(utcMidnight), timeZone);
+  return new Date(utcMidnight - offsetMs(new Date(guess), timeZone));
+}
+
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().split('T')[0];
+}
+
+export function addMonths(date: string, months: number): string {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  day.setUTCMonth(day.getUTCMonth() + months);
+  return day.toISOString().split('T')[0];
+}
+
+/**
+ * SQL for the local wall-clock time of a `timestamp` column holding UTC
+ * times. The zone is inlined rather than bound: Postgres only matches a
+ * GROUP BY expression to the selected one when the text is identical, and
+ * each bound parameter gets its own placeholder.
+ */
+export function localTimestampSql(column: AnyColumn, timeZone: string): SQL {
+  if (!isValidTimeZone(timeZone) || !/^[A-Za-z0-9_+\-/]+$/.test(timeZone)) {
+    throw new Error(`Invalid time zone ${timeZone}`);
+  }
+  return sql`((${column} AT TIME ZONE 'UTC') AT TIME ZONE ${sql.raw(`'${timeZone}'`)})`;
+}
+
+/** SQL for the local calendar day (YYYY-MM-DD) of a UTC `timestamp` column. */
+export function localDateSql(column: AnyColumn, timeZone: string): SQL<string> {
+  return sql<string>`to_char(${localTimestampSql(column, timeZone)}, 'YYYY-MM-DD')`;
+}
@@ -0,0 +1,45 @@
+// Units accepted on ingestion and offered by charts. Readings are stored in
+// the first unit of each list.
+export const WEIGHT_UNITS = ['kg', 'lb', 'st'] as const;
+export const GLUCOSE_UNITS = ['mg/dL', 'mmol/L'] as const;
+export const TEMPERATURE_UNITS = ['C', 'F'] as const;
+
+export type WeightUnit = typeof WEIGHT_UNITS[number];
+export type GlucoseUnit = typeof GLUCOSE_UNITS[number];
+export type TemperatureUnit = typeof TEMPERATURE_UNITS[number];
+
+// A patient's chart units, used when a chart request does not name one
+export interface UnitPreferences {
+  weightUnit: WeightUnit;
+  glucoseUnit: GlucoseUnit;
+}
+
+const KG_PER_UNIT: Record<WeightUnit, number> = {
+  kg: 1,
+  lb: 0.45359237,
+  st: 6.35029318,
+};
+
+// Glucose molar mass 180.16 g/mol
+const MG_DL_PER_UNIT: Record<GlucoseUnit, number> = {
+  'mg/dL': 1,
+  'mmol/L': 18.016,
+};
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+  return from === to ? value : value * KG_PER_UNIT[from] / KG_PER_UNIT[to];
+}
+
+export function convertGlucose(value: number, from: GlucoseUnit, to: GlucoseUnit): number {
+  return from === to ? value : value * MG_DL_PER_UNIT[from] / MG_DL_PER_UNIT[to];
+}
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  if (from === to) return value;
+  return to === 'C' ? (value - 32) * 5 / 9 : value * 9 / 5 + 32;
+}
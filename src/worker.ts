@@ -0,0 +1,53 @@
+import 'dotenv/config';
+import { testConnection, closeConnection } from './db/connection';
+import { redisRepository } from './db/redis-repository';
+import { QueueWorker } from './queue/worker';
+import { workerConfig } from './queue/queue-config';
+
+// Standalone queue worker. Run alongside API servers started with
+// EMBEDDED_WORKER=false to scale ingestion and processing independently.
+
+let queueWorker: QueueWorker | null = null;
+
+// The worker starts consuming as soon as it is built, so it is only built
+// once the database and Redis are reachable
+export async function startWorker(): Promise<QueueWorker> {
+  const dbConnected = await testConnection();
+  if (!dbConnected) {
+    throw new Error('Failed to connect to database. Worker will not start.');
+  }
+
+  const redisConnected = await redisRepository.testConnection();
+  if (!redisConnected) {
+    throw new Error('Failed to connect to Redis. Worker will not start.');
+  }
+
+  const worker = new QueueWorker({ concurrency: workerConfig.concurrency });
+  await worker.start();
+  console.log(`⚙️ Standalone queue worker running: vitals batches (concurrency: ${workerConfig.concurrency}) and heart rate aggregate rebuilds`);
+  return worker;
+}
+
+async function shutdown() {
+  console.log('\n🛑 Shutting down worker...');
+  if (queueWorker) {
+    await queueWorker.stop();
+  }
+  await redisRepository.disconnect();
+  await closeConnection();
+  process.exit(0);
+}
+
+if (require.main === module) {
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  startWorker()
+    .then(worker => {
+      queueWorker = worker;
+    })
+    .catch(error => {
+      console.error('Failed to start worker:', error);
+      process.exit(1);
+    });
+}